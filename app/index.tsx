@@ -4,10 +4,23 @@ import { LinearGradient } from 'expo-linear-gradient';
 import RoutineChecklist from '../components/RoutineChecklist';
 import LockingScreen from '../components/LockingScreen';
 import SettingsScreen from '../components/SettingsScreen';
-import { RoutineManager } from '../services/RoutineManager';
-import { SettingsManager } from '../services/SettingsManager';
-import { HistoryManager } from '../services/HistoryManager';
-import { LockingService } from '../services/LockingService';
+import RoutineSwitcher from '../components/RoutineSwitcher';
+import {
+  RoutineCatalog,
+  RoutineDefinition,
+  RoutineId,
+  DEFAULT_ROUTINE_ID,
+} from '../services/RoutineCatalog';
+import {
+  RoutineServices,
+  createRoutineServices,
+  initializeRoutineServices,
+} from '../services/RoutineServices';
+import { createAppStorage } from '../services/Storage';
+import { MigrationRunner } from '../services/Migrations';
+import { BackupService } from '../services/BackupService';
+import { TimeZoneSettings } from '../services/TimeZoneSettings';
+import { ScheduleExceptions } from '../services/ScheduleExceptions';
 import {
   Colors,
   Gradients,
@@ -19,28 +32,58 @@ import {
 } from '../constants/theme';
 
 export default function HomeScreen() {
-  const routineManager = useMemo(() => new RoutineManager(), []);
-  const settingsManager = useMemo(() => new SettingsManager(), []);
-  const historyManager = useMemo(() => new HistoryManager(), []);
-  const lockingService = useMemo(
-    () => new LockingService(settingsManager, routineManager),
-    [settingsManager, routineManager]
-  );
+  const storage = useMemo(() => createAppStorage(), []);
+  const catalog = useMemo(() => new RoutineCatalog(storage), [storage]);
+  const backupService = useMemo(() => new BackupService(storage), [storage]);
+  const timeZoneSettings = useMemo(() => new TimeZoneSettings(storage), [storage]);
+  const exceptions = useMemo(() => new ScheduleExceptions(storage, catalog), [storage, catalog]);
+  const servicesRef = useRef(new Map<RoutineId, RoutineServices>());
 
-  const [isLocked, setIsLocked] = useState(false);
+  const [routines, setRoutines] = useState<RoutineDefinition[]>(catalog.getRoutines());
+  const [activeRoutineId, setActiveRoutineId] = useState<RoutineId>(DEFAULT_ROUTINE_ID);
+  const [lockedRoutineId, setLockedRoutineId] = useState<RoutineId | null>(null);
   const [showSettings, setShowSettings] = useState(false);
   const [isInitialized, setIsInitialized] = useState(false);
+  // Bumped when all data is reloaded so screens holding old state remount
+  const [dataVersion, setDataVersion] = useState(0);
   const appState = useRef(AppState.currentState);
 
-  // Initialize managers and check locking on mount
+  // Services are created once per routine and kept for the app's lifetime
+  const getServices = (routineId: RoutineId): RoutineServices => {
+    let services = servicesRef.current.get(routineId);
+    if (!services) {
+      services = createRoutineServices(routineId, storage, exceptions);
+      servicesRef.current.set(routineId, services);
+    }
+    return services;
+  };
+
+  /**
+   * Load the catalog and every routine's data from storage
+   */
+  const loadRoutines = async () => {
+    // Finish writes an earlier session was interrupted in, then upgrade stored data,
+    // before any service reads it
+    try {
+      await storage.recoverPendingWrites();
+    } catch (error) {
+      console.error('Error recovering unfinished writes:', error);
+    }
+    await new MigrationRunner(storage).run();
+    // Every date below is read in the preferred time zone
+    await timeZoneSettings.load();
+    await catalog.load();
+    setRoutines(catalog.getRoutines());
+
+    for (const routine of catalog.getRoutines()) {
+      await initializeRoutineServices(getServices(routine.id));
+    }
+  };
+
+  // Initialize every routine and check locking on mount
   useEffect(() => {
     const initialize = async () => {
-      await routineManager.loadState();
-
-      // Check if reset is needed
-      const settings = await settingsManager.loadSettings();
-      const resetTime = await settingsManager.getResetTimeForToday();
-      await routineManager.checkAndResetIfNeeded(settings, resetTime);
+      await loadRoutines();
 
       // Check if should lock now
       await checkLockingState();
@@ -56,7 +99,11 @@ export default function HomeScreen() {
   useEffect(() => {
     const subscription = AppState.addEventListener('change', async (nextAppState) => {
       if (appState.current.match(/inactive|background/) && nextAppState === 'active') {
-        // App came to foreground
+        // App came to foreground; the weekday (and its item set) may have changed
+        for (const routine of catalog.getRoutines()) {
+          const { routineManager, settingsManager } = getServices(routine.id);
+          routineManager.applySettings(await settingsManager.loadSettings());
+        }
         await checkLockingState();
       }
       appState.current = nextAppState;
@@ -68,24 +115,63 @@ export default function HomeScreen() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  /**
+   * Lock for the first routine that is locked or due to lock
+   */
   const checkLockingState = async () => {
-    // Check if already locked
-    const currentlyLocked = await lockingService.isLocked();
-    if (currentlyLocked) {
-      setIsLocked(true);
-      return;
+    for (const routine of catalog.getRoutines()) {
+      const { lockingService } = getServices(routine.id);
+
+      // Check if already locked
+      if (await lockingService.isLocked()) {
+        setLockedRoutineId(routine.id);
+        setActiveRoutineId(routine.id);
+        return;
+      }
+
+      // Check if should lock now
+      if (await lockingService.shouldLockNow()) {
+        await lockingService.lockApp();
+        setLockedRoutineId(routine.id);
+        setActiveRoutineId(routine.id);
+        return;
+      }
     }
+  };
 
-    // Check if should lock now
-    const shouldLock = await lockingService.shouldLockNow();
-    if (shouldLock) {
-      await lockingService.lockApp();
-      setIsLocked(true);
+  const handleUnlock = async () => {
+    setLockedRoutineId(null);
+    // Another routine's window may be open too
+    await checkLockingState();
+  };
+
+  const handleAddRoutine = async (name: string) => {
+    const routine = await catalog.addRoutine(name);
+    await initializeRoutineServices(getServices(routine.id));
+    setRoutines(catalog.getRoutines());
+    setActiveRoutineId(routine.id);
+  };
+
+  const handleSettingsClose = async () => {
+    // Pick up renamed or deleted routines and changes to today's item set
+    setRoutines(catalog.getRoutines());
+    if (!catalog.getRoutine(activeRoutineId)) {
+      servicesRef.current.delete(activeRoutineId);
+      setActiveRoutineId(DEFAULT_ROUTINE_ID);
+    } else {
+      const { routineManager, settingsManager } = getServices(activeRoutineId);
+      routineManager.applySettings(await settingsManager.loadSettings());
     }
+    setShowSettings(false);
   };
 
-  const handleUnlock = () => {
-    setIsLocked(false);
+  const handleDataRestored = async () => {
+    setShowSettings(false);
+    servicesRef.current.clear();
+    await loadRoutines();
+    setActiveRoutineId(DEFAULT_ROUTINE_ID);
+    setDataVersion((version) => version + 1);
+    await checkLockingState();
   };
 
   const currentHour = new Date().getHours();
@@ -100,6 +186,10 @@ export default function HomeScreen() {
     );
   }
 
+  const active = getServices(activeRoutineId);
+  const activeRoutine = catalog.getRoutine(activeRoutineId);
+  const locked = lockedRoutineId ? getServices(lockedRoutineId) : active;
+
   return (
     <View style={styles.container}>
       <View style={styles.header}>
@@ -107,34 +197,55 @@ export default function HomeScreen() {
           <View style={styles.headerTop}>
             <View style={styles.headerTextContainer}>
               <Text style={styles.greeting}>{greeting}</Text>
-              <Text style={styles.title}>Morning Routine</Text>
+              <Text style={styles.title}>{activeRoutine?.name ?? 'Morning'} Routine</Text>
               <Text style={styles.subtitle}>Complete your daily tasks</Text>
             </View>
             <TouchableOpacity style={styles.settingsButton} onPress={() => setShowSettings(true)}>
               <Text style={styles.settingsIcon}>⚙</Text>
             </TouchableOpacity>
           </View>
+          <RoutineSwitcher
+            routines={routines}
+            activeRoutineId={activeRoutineId}
+            onSelect={setActiveRoutineId}
+            onAdd={handleAddRoutine}
+          />
         </View>
       </View>
 
       <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
-        <RoutineChecklist routineManager={routineManager} historyManager={historyManager} />
+        <RoutineChecklist
+          key={`${activeRoutineId}-${dataVersion}`}
+          routineManager={active.routineManager}
+          historyManager={active.historyManager}
+          storage={storage}
+          routineName={activeRoutine?.name}
+        />
       </ScrollView>
 
       {/* Locking Screen */}
       <LockingScreen
-        visible={isLocked}
-        routineManager={routineManager}
-        lockingService={lockingService}
-        historyManager={historyManager}
+        visible={lockedRoutineId !== null}
+        routineManager={locked.routineManager}
+        lockingService={locked.lockingService}
+        historyManager={locked.historyManager}
+        storage={storage}
         onUnlock={handleUnlock}
       />
 
       {/* Settings Screen */}
       <SettingsScreen
+        key={`${activeRoutineId}-${dataVersion}`}
         visible={showSettings}
-        settingsManager={settingsManager}
-        onClose={() => setShowSettings(false)}
+        settingsManager={active.settingsManager}
+        itemRegistry={active.itemRegistry}
+        catalog={catalog}
+        routineId={activeRoutineId}
+        backupService={backupService}
+        timeZoneSettings={timeZoneSettings}
+        exceptions={exceptions}
+        onClose={handleSettingsClose}
+        onDataRestored={handleDataRestored}
       />
     </View>
   );
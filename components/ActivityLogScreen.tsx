@@ -0,0 +1,272 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, ScrollView, Alert } from 'react-native';
+import { HistoryManager } from '../services/HistoryManager';
+import { RoutineItemRegistry } from '../services/RoutineItemRegistry';
+import { EventJournal, JournalEvent, JournalEventType } from '../services/EventJournal';
+import { DateUtils } from '../services/DateUtils';
+import { Colors, Spacing, BorderRadius, FontSizes, FontWeights } from '../constants/theme';
+
+interface ActivityLogScreenProps {
+  visible: boolean;
+  historyManager: HistoryManager;
+  itemRegistry?: RoutineItemRegistry;
+  onClose: () => void;
+  onRebuilt: () => void;
+}
+
+const RANGES = [7, 30, 90];
+
+const FILTERS: { label: string; types?: JournalEventType[] }[] = [
+  { label: 'All' },
+  { label: 'Days', types: ['day_recorded', 'reset'] },
+  { label: 'Items', types: ['item_completed', 'item_uncompleted', 'progress_changed'] },
+  { label: 'Lock', types: ['locked', 'unlocked', 'emergency_unlock'] },
+  { label: 'Settings', types: ['settings_changed'] },
+];
+
+export default function ActivityLogScreen({
+  visible,
+  historyManager,
+  itemRegistry,
+  onClose,
+  onRebuilt,
+}: ActivityLogScreenProps) {
+  const [rangeDays, setRangeDays] = useState(7);
+  const [filter, setFilter] = useState(FILTERS[0]);
+  const [events, setEvents] = useState<JournalEvent[]>([]);
+
+  const loadEvents = useCallback(async () => {
+    const journal = historyManager.getJournal();
+    const loaded = await journal.getEvents(
+      DateUtils.getDateDaysAgo(rangeDays - 1),
+      DateUtils.getTodayISO()
+    );
+    setEvents(loaded.reverse());
+  }, [historyManager, rangeDays]);
+
+  useEffect(() => {
+    if (visible) {
+      loadEvents();
+    }
+  }, [visible, loadEvents]);
+
+  const handleRebuild = () => {
+    Alert.alert(
+      'Rebuild History',
+      'Restore any day this log recorded that is missing or worse in your history?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Rebuild',
+          onPress: async () => {
+            const changed = await historyManager.rebuildFromJournal();
+            Alert.alert(
+              'History Rebuilt',
+              changed > 0 ? `${changed} day(s) restored.` : 'History already matches the log.'
+            );
+            onRebuilt();
+          },
+        },
+      ]
+    );
+  };
+
+  const getItemName = (id: string) => itemRegistry?.getItemName(id) ?? id;
+  const shown = events.filter((event) => !filter.types || filter.types.includes(event.type));
+
+  // Group by local date, newest first
+  const days: { date: string; events: JournalEvent[] }[] = [];
+  for (const event of shown) {
+    const date = DateUtils.getDateISO(new Date(event.timestamp));
+    if (days[days.length - 1]?.date !== date) {
+      days.push({ date, events: [] });
+    }
+    days[days.length - 1].events.push(event);
+  }
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      onRequestClose={onClose}
+      presentationStyle="pageSheet"
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Text style={styles.closeButtonText}>×</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Activity Log</Text>
+          <TouchableOpacity onPress={handleRebuild} style={styles.rebuildButton}>
+            <Text style={styles.rebuildButtonText}>Rebuild</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+          <View style={styles.chipRow}>
+            {RANGES.map((days) => (
+              <TouchableOpacity
+                key={days}
+                style={[styles.chip, rangeDays === days && styles.chipSelected]}
+                onPress={() => setRangeDays(days)}
+              >
+                <Text style={[styles.chipText, rangeDays === days && styles.chipTextSelected]}>
+                  {days} days
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <View style={styles.chipRow}>
+            {FILTERS.map((option) => (
+              <TouchableOpacity
+                key={option.label}
+                style={[styles.chip, filter === option && styles.chipSelected]}
+                onPress={() => setFilter(option)}
+              >
+                <Text style={[styles.chipText, filter === option && styles.chipTextSelected]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {days.length === 0 && <Text style={styles.emptyText}>Nothing logged in this range</Text>}
+
+          {days.map((day) => (
+            <View key={day.date} style={styles.dayCard}>
+              <Text style={styles.dayTitle}>
+                {DateUtils.formatDate(DateUtils.parseISO(day.date))}
+              </Text>
+              {day.events.map((event, index) => (
+                <View key={`${event.timestamp}-${index}`} style={styles.eventRow}>
+                  <Text style={styles.eventTime}>
+                    {DateUtils.formatTime(new Date(event.timestamp))}
+                  </Text>
+                  <Text
+                    style={[
+                      styles.eventText,
+                      event.type === 'emergency_unlock' && styles.eventWarning,
+                      event.type === 'day_recorded' &&
+                        HistoryManager.getOutcome(event.record) !== 'complete' &&
+                        styles.eventWarning,
+                    ]}
+                  >
+                    {EventJournal.describe(event, getItemName)}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          ))}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background.primary,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: 60,
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: Spacing.lg,
+    backgroundColor: Colors.terminal.darkGray,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.terminal.gray,
+  },
+  closeButton: {
+    padding: Spacing.sm,
+  },
+  closeButtonText: {
+    fontSize: 28,
+    color: Colors.terminal.cyan,
+    fontWeight: FontWeights.normal,
+  },
+  headerTitle: {
+    fontSize: FontSizes.xl,
+    fontWeight: FontWeights.bold,
+    color: Colors.terminal.green,
+  },
+  rebuildButton: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+  },
+  rebuildButtonText: {
+    fontSize: FontSizes.sm,
+    fontWeight: FontWeights.semibold,
+    color: Colors.terminal.amber,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: Spacing.lg,
+    paddingBottom: Spacing.xxl,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.xs,
+    marginBottom: Spacing.sm,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: Colors.terminal.gray,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+  },
+  chipSelected: {
+    borderColor: Colors.terminal.green,
+    backgroundColor: Colors.terminal.darkGray,
+  },
+  chipText: {
+    fontSize: FontSizes.xs,
+    color: Colors.terminal.cyan,
+  },
+  chipTextSelected: {
+    color: Colors.terminal.green,
+  },
+  emptyText: {
+    fontSize: FontSizes.sm,
+    color: Colors.terminal.cyan,
+    textAlign: 'center',
+    marginTop: Spacing.lg,
+  },
+  dayCard: {
+    backgroundColor: Colors.terminal.darkGray,
+    borderWidth: 1,
+    borderColor: Colors.terminal.gray,
+    borderRadius: BorderRadius.sm,
+    padding: Spacing.md,
+    marginTop: Spacing.sm,
+  },
+  dayTitle: {
+    fontSize: FontSizes.sm,
+    fontWeight: FontWeights.semibold,
+    color: Colors.terminal.green,
+    marginBottom: Spacing.xs,
+  },
+  eventRow: {
+    flexDirection: 'row',
+    paddingVertical: 2,
+  },
+  eventTime: {
+    width: 72,
+    fontSize: FontSizes.xs,
+    color: Colors.terminal.gray,
+  },
+  eventText: {
+    flex: 1,
+    fontSize: FontSizes.xs,
+    color: Colors.terminal.cyan,
+  },
+  eventWarning: {
+    color: Colors.terminal.amber,
+  },
+});
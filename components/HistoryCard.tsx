@@ -1,7 +1,13 @@
 import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
-import { HistoryManager } from '../services/HistoryManager';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Alert } from 'react-native';
+import { HistoryManager, DailyRecord, QuantityTrend } from '../services/HistoryManager';
+import { RoutineItemRegistry } from '../services/RoutineItemRegistry';
 import { DateUtils } from '../services/DateUtils';
+import { HistoryExporter, HistoryExportFormat } from '../services/HistoryExporter';
+import { CalendarExporter } from '../services/CalendarExporter';
+import { FileExport } from '../services/FileExport';
+import RoutineTimeline from './RoutineTimeline';
+import ActivityLogScreen from './ActivityLogScreen';
 import {
   Colors,
   Spacing,
@@ -12,20 +18,43 @@ import {
   FontFamilies,
 } from '../constants/theme';
 
+// Export ranges in days back from today; 'custom' exports the dates typed in
+const EXPORT_RANGES = [7, 30, 90];
+type ExportRange = number | 'custom';
+
 interface HistoryCardProps {
   historyManager: HistoryManager;
+  itemRegistry?: RoutineItemRegistry;
+  routineName?: string; // Names exported files and calendars
 }
 
-export default function HistoryCard({ historyManager }: HistoryCardProps) {
+export default function HistoryCard({
+  historyManager,
+  itemRegistry,
+  routineName = 'Morning',
+}: HistoryCardProps) {
   const [expanded, setExpanded] = useState(false);
   const [statistics, setStatistics] = useState({
     currentStreak: 0,
     longestStreak: 0,
     totalCompletions: 0,
     completionRate: 0,
+    allTimeCompletionRate: 0,
     averageTime: '0s',
+    freezeTokens: 0,
+    freezesUsed: 0,
   });
-  const [last30Days, setLast30Days] = useState<string[]>([]);
+  const [last30Days, setLast30Days] = useState<DailyRecord[]>([]);
+  const [frozenDates, setFrozenDates] = useState<string[]>([]);
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [bonusStats, setBonusStats] = useState({ totalBonusItems: 0, daysWithBonus: 0 });
+  const [quantityTrends, setQuantityTrends] = useState<QuantityTrend[]>([]);
+  const [slowestStep, setSlowestStep] = useState<{ itemId: string; duration: number } | null>(null);
+  const [exportDays, setExportDays] = useState<ExportRange>(30);
+  const [customStart, setCustomStart] = useState(() => DateUtils.getDateDaysAgo(29));
+  const [customEnd, setCustomEnd] = useState(() => DateUtils.getTodayISO());
+  const [exportMissed, setExportMissed] = useState(false);
+  const [showActivityLog, setShowActivityLog] = useState(false);
 
   useEffect(() => {
     loadStatistics();
@@ -35,33 +64,102 @@ export default function HistoryCard({ historyManager }: HistoryCardProps) {
   const loadStatistics = async () => {
     const stats = await historyManager.getStatistics();
     setStatistics(stats);
+    setFrozenDates((await historyManager.getStreakData()).frozenDates ?? []);
+    setBonusStats(await historyManager.getBonusStats());
+    setQuantityTrends(await historyManager.getQuantityTrends(14));
 
-    // Load completion dates for calendar
+    // Load records for calendar and timeline
     const records = await historyManager.getLast30Days();
-    const dates = records.map((r) => r.date);
-    setLast30Days(dates);
+    setLast30Days(records);
+    setSelectedDate(records[0]?.date ?? null);
+
+    // Find the step that takes longest on average
+    const averages = await historyManager.getAverageStepDurations();
+    const slowest = Object.entries(averages).reduce<{ itemId: string; duration: number } | null>(
+      (max, [itemId, duration]) => (!max || duration > max.duration ? { itemId, duration } : max),
+      null
+    );
+    setSlowestStep(slowest);
+  };
+
+  const getExportRange = (): { startDate: string; endDate: string } => {
+    if (exportDays !== 'custom') {
+      return {
+        startDate: DateUtils.getDateDaysAgo(exportDays - 1),
+        endDate: DateUtils.getTodayISO(),
+      };
+    }
+    if (!DateUtils.isValidDateISO(customStart) || !DateUtils.isValidDateISO(customEnd)) {
+      throw new Error('Dates must look like 2025-07-01');
+    }
+    if (customEnd < customStart) {
+      throw new Error('The last day must not be before the first day');
+    }
+    return { startDate: customStart, endDate: customEnd };
+  };
+
+  const handleExport = async (format: HistoryExportFormat | 'ics') => {
+    try {
+      const getItemName = (id: string) => itemRegistry?.getItemName(id) ?? id;
+      const { startDate, endDate } = getExportRange();
+      const file =
+        format === 'ics'
+          ? await new CalendarExporter(historyManager, getItemName).export(startDate, endDate, {
+              includeMissed: exportMissed,
+              routineName,
+            })
+          : await new HistoryExporter(historyManager, getItemName).export(
+              startDate,
+              endDate,
+              format,
+              routineName
+            );
+      await FileExport.share(file, 'Export History');
+    } catch (error) {
+      Alert.alert(
+        'Export Failed',
+        error instanceof Error ? error.message : 'Could not export history.'
+      );
+    }
   };
 
+  const selectedRecord = last30Days.find((r) => r.date === selectedDate) ?? null;
+
   const renderCalendarGrid = () => {
     const today = DateUtils.getTodayISO();
     const days = [];
 
     for (let i = 29; i >= 0; i--) {
       const date = DateUtils.getDateDaysAgo(i);
-      const isCompleted = last30Days.includes(date);
+      const record = last30Days.find((r) => r.date === date);
+      const outcome = record ? HistoryManager.getOutcome(record) : null;
       const isToday = date === today;
+      const isSelected = date === selectedDate;
 
       days.push(
-        <View
+        <TouchableOpacity
           key={date}
+          disabled={!record}
+          onPress={() => setSelectedDate(date)}
           style={[
             styles.calendarDay,
-            isCompleted && styles.calendarDayCompleted,
+            outcome === 'complete' && styles.calendarDayCompleted,
+            outcome === 'partial' && styles.calendarDayPartial,
+            outcome === 'emergency_unlocked' && styles.calendarDayEmergency,
             isToday && styles.calendarDayToday,
+            isSelected && styles.calendarDaySelected,
           ]}
         >
-          {isCompleted && <View style={styles.calendarDayDot} />}
-        </View>
+          {outcome === 'complete' && <View style={styles.calendarDayDot} />}
+          {outcome === 'partial' && <Text style={styles.calendarDayMark}>½</Text>}
+          {outcome === 'emergency_unlocked' && <Text style={styles.calendarDayMark}>!</Text>}
+          {outcome === 'missed' &&
+            (frozenDates.includes(date) ? (
+              <Text style={styles.calendarDayMark}>❄</Text>
+            ) : (
+              <Text style={styles.calendarDayMissed}>×</Text>
+            ))}
+        </TouchableOpacity>
       );
     }
 
@@ -79,10 +177,9 @@ export default function HistoryCard({ historyManager }: HistoryCardProps) {
         <View style={styles.header}>
           <Text style={styles.streakInfo}>
             🔥 {statistics.currentStreak} day streak
+            {statistics.freezeTokens > 0 ? ` · 🧊 ${statistics.freezeTokens}` : ''}
           </Text>
-          <Text style={styles.expandHint}>
-            {expanded ? '−' : '+'}
-          </Text>
+          <Text style={styles.expandHint}>{expanded ? '−' : '+'}</Text>
         </View>
 
         {/* Expanded View: Calendar & Stats */}
@@ -93,10 +190,54 @@ export default function HistoryCard({ historyManager }: HistoryCardProps) {
               <Text style={styles.sectionTitle}>Last 30 Days</Text>
               {renderCalendarGrid()}
               <View style={styles.calendarLegend}>
-                <Text style={styles.legendText}>■ Complete  □ Incomplete</Text>
+                <Text style={styles.legendText}>
+                  {'■ Complete  ½ Partial  ! Unlocked  × Missed  ❄ Frozen  □ None'}
+                </Text>
               </View>
             </View>
 
+            {/* Timeline of the selected day */}
+            {selectedRecord && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>
+                  Timeline · {DateUtils.formatDate(DateUtils.parseISO(selectedRecord.date))}
+                </Text>
+                <RoutineTimeline record={selectedRecord} itemRegistry={itemRegistry} />
+              </View>
+            )}
+
+            {/* Quantity trends */}
+            {quantityTrends.length > 0 && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Quantities · Last 14 Days</Text>
+                {quantityTrends.map((trend) => {
+                  const item = itemRegistry?.getItem(trend.itemId);
+                  const target = item?.quantity?.target ?? 0;
+                  const max = Math.max(target, ...trend.values.map((v) => v.value), 1);
+                  return (
+                    <View key={trend.itemId} style={styles.trendRow}>
+                      <Text style={styles.trendLabel}>
+                        {item ? `${item.icon} ${item.name}` : trend.itemId} · avg{' '}
+                        {Math.round(trend.average * 10) / 10} {item?.quantity?.unit ?? ''}
+                      </Text>
+                      <View style={styles.trendBars}>
+                        {trend.values.map((v) => (
+                          <View
+                            key={v.date}
+                            style={[
+                              styles.trendBar,
+                              target > 0 && v.value >= target && styles.trendBarReached,
+                              { height: `${Math.max(4, (v.value / max) * 100)}%` },
+                            ]}
+                          />
+                        ))}
+                      </View>
+                    </View>
+                  );
+                })}
+              </View>
+            )}
+
             {/* Statistics Grid */}
             <View style={styles.statsGrid}>
               <View style={styles.statBox}>
@@ -108,17 +249,149 @@ export default function HistoryCard({ historyManager }: HistoryCardProps) {
                 <Text style={styles.statValue}>{statistics.totalCompletions}</Text>
               </View>
               <View style={styles.statBox}>
-                <Text style={styles.statLabel}>Success Rate</Text>
+                <Text style={styles.statLabel}>Success Rate (30d)</Text>
                 <Text style={styles.statValue}>{statistics.completionRate}%</Text>
               </View>
+              <View style={styles.statBox}>
+                <Text style={styles.statLabel}>All-Time Rate</Text>
+                <Text style={styles.statValue}>{statistics.allTimeCompletionRate}%</Text>
+              </View>
               <View style={styles.statBox}>
                 <Text style={styles.statLabel}>Average Time</Text>
                 <Text style={styles.statValue}>{statistics.averageTime}</Text>
               </View>
+              <View style={styles.statBox}>
+                <Text style={styles.statLabel}>Streak Freezes</Text>
+                <Text style={styles.statValue}>🧊 {statistics.freezeTokens}</Text>
+                {statistics.freezesUsed > 0 && (
+                  <Text style={styles.statLabel}>{statistics.freezesUsed} used</Text>
+                )}
+              </View>
+              {bonusStats.totalBonusItems > 0 && (
+                <View style={styles.statBoxWide}>
+                  <Text style={styles.statLabel}>Bonus Items</Text>
+                  <Text style={styles.statValueSmall}>
+                    {bonusStats.totalBonusItems} done · {bonusStats.daysWithBonus} days
+                  </Text>
+                </View>
+              )}
+              {slowestStep && (
+                <View style={styles.statBoxWide}>
+                  <Text style={styles.statLabel}>Slowest Step (avg)</Text>
+                  <Text style={styles.statValueSmall}>
+                    {itemRegistry?.getItemName(slowestStep.itemId) ?? slowestStep.itemId} ·{' '}
+                    {DateUtils.formatDuration(slowestStep.duration)}
+                  </Text>
+                </View>
+              )}
+            </View>
+
+            {/* Export */}
+            <View style={styles.exportSection}>
+              <Text style={styles.sectionTitle}>Export</Text>
+              <View style={styles.exportRow}>
+                {EXPORT_RANGES.map((days) => (
+                  <TouchableOpacity
+                    key={days}
+                    style={[styles.exportChip, exportDays === days && styles.exportChipSelected]}
+                    onPress={() => setExportDays(days)}
+                  >
+                    <Text
+                      style={[
+                        styles.exportChipText,
+                        exportDays === days && styles.exportChipTextSelected,
+                      ]}
+                    >
+                      {days}d
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+                <TouchableOpacity
+                  style={[styles.exportChip, exportDays === 'custom' && styles.exportChipSelected]}
+                  onPress={() => setExportDays('custom')}
+                >
+                  <Text
+                    style={[
+                      styles.exportChipText,
+                      exportDays === 'custom' && styles.exportChipTextSelected,
+                    ]}
+                  >
+                    Custom
+                  </Text>
+                </TouchableOpacity>
+                <View style={styles.exportSpacer} />
+                <TouchableOpacity style={styles.exportButton} onPress={() => handleExport('csv')}>
+                  <Text style={styles.exportButtonText}>CSV</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.exportButton} onPress={() => handleExport('json')}>
+                  <Text style={styles.exportButtonText}>JSON</Text>
+                </TouchableOpacity>
+              </View>
+              {exportDays === 'custom' && (
+                <View style={[styles.exportRow, styles.exportCalendarRow]}>
+                  <TextInput
+                    style={styles.exportInput}
+                    value={customStart}
+                    onChangeText={setCustomStart}
+                    placeholder="YYYY-MM-DD"
+                    placeholderTextColor={Colors.terminal.gray}
+                    autoCapitalize="none"
+                  />
+                  <Text style={styles.exportChipText}>to</Text>
+                  <TextInput
+                    style={styles.exportInput}
+                    value={customEnd}
+                    onChangeText={setCustomEnd}
+                    placeholder="YYYY-MM-DD"
+                    placeholderTextColor={Colors.terminal.gray}
+                    autoCapitalize="none"
+                  />
+                </View>
+              )}
+              <View style={[styles.exportRow, styles.exportCalendarRow]}>
+                <TouchableOpacity
+                  style={[styles.exportChip, exportMissed && styles.exportChipSelected]}
+                  onPress={() => setExportMissed(!exportMissed)}
+                >
+                  <Text
+                    style={[styles.exportChipText, exportMissed && styles.exportChipTextSelected]}
+                  >
+                    {exportMissed ? '✓' : '○'} Include missed days
+                  </Text>
+                </TouchableOpacity>
+                <View style={styles.exportSpacer} />
+                <TouchableOpacity style={styles.exportButton} onPress={() => handleExport('ics')}>
+                  <Text style={styles.exportButtonText}>Calendar (.ics)</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+
+            {/* Activity Log */}
+            <View style={styles.exportSection}>
+              <Text style={styles.sectionTitle}>Activity Log</Text>
+              <View style={styles.exportRow}>
+                <Text style={[styles.legendText, styles.exportSpacer]}>
+                  Every change, to see why a day or streak ended
+                </Text>
+                <TouchableOpacity
+                  style={styles.exportButton}
+                  onPress={() => setShowActivityLog(true)}
+                >
+                  <Text style={styles.exportButtonText}>View</Text>
+                </TouchableOpacity>
+              </View>
             </View>
           </View>
         )}
       </View>
+
+      <ActivityLogScreen
+        visible={showActivityLog}
+        historyManager={historyManager}
+        itemRegistry={itemRegistry}
+        onClose={() => setShowActivityLog(false)}
+        onRebuilt={loadStatistics}
+      />
     </TouchableOpacity>
   );
 }
@@ -185,10 +458,30 @@ const styles = StyleSheet.create({
     backgroundColor: Colors.terminal.green,
     borderColor: Colors.terminal.brightGreen,
   },
+  calendarDayPartial: {
+    backgroundColor: Colors.neutral.gray500,
+  },
+  calendarDayEmergency: {
+    backgroundColor: Colors.neutral.gray700,
+    borderColor: Colors.terminal.red,
+  },
+  calendarDayMark: {
+    fontSize: FontSizes.xs,
+    fontWeight: FontWeights.bold,
+    color: Colors.terminal.green,
+  },
+  calendarDayMissed: {
+    fontSize: FontSizes.sm,
+    color: Colors.terminal.gray,
+  },
   calendarDayToday: {
     borderWidth: 2,
     borderColor: Colors.terminal.cyan,
   },
+  calendarDaySelected: {
+    borderWidth: 2,
+    borderColor: Colors.terminal.amber,
+  },
   calendarDayDot: {
     width: 6,
     height: 6,
@@ -201,6 +494,27 @@ const styles = StyleSheet.create({
     fontSize: FontSizes.xs,
     color: Colors.terminal.cyan,
   },
+  trendRow: {
+    marginBottom: Spacing.sm,
+  },
+  trendLabel: {
+    fontSize: FontSizes.xs,
+    color: Colors.terminal.cyan,
+    marginBottom: Spacing.xs,
+  },
+  trendBars: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: 32,
+    gap: 2,
+  },
+  trendBar: {
+    flex: 1,
+    backgroundColor: Colors.terminal.gray,
+  },
+  trendBarReached: {
+    backgroundColor: Colors.terminal.green,
+  },
   statsGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -215,6 +529,14 @@ const styles = StyleSheet.create({
     padding: Spacing.sm,
     borderRadius: BorderRadius.sm,
   },
+  statBoxWide: {
+    width: '100%',
+    borderWidth: 1,
+    borderColor: Colors.terminal.gray,
+    backgroundColor: Colors.terminal.black,
+    padding: Spacing.sm,
+    borderRadius: BorderRadius.sm,
+  },
   statLabel: {
     fontSize: FontSizes.xs,
     fontWeight: FontWeights.medium,
@@ -226,4 +548,63 @@ const styles = StyleSheet.create({
     fontWeight: FontWeights.bold,
     color: Colors.terminal.green,
   },
+  statValueSmall: {
+    fontSize: FontSizes.base,
+    fontWeight: FontWeights.semibold,
+    color: Colors.terminal.green,
+  },
+  exportSection: {
+    marginTop: Spacing.md,
+  },
+  exportRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+  },
+  exportCalendarRow: {
+    marginTop: Spacing.sm,
+  },
+  exportChip: {
+    borderWidth: 1,
+    borderColor: Colors.terminal.gray,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.sm,
+  },
+  exportChipSelected: {
+    borderColor: Colors.terminal.green,
+    backgroundColor: Colors.terminal.black,
+  },
+  exportChipText: {
+    fontSize: FontSizes.xs,
+    color: Colors.terminal.gray,
+  },
+  exportChipTextSelected: {
+    color: Colors.terminal.green,
+  },
+  exportSpacer: {
+    flex: 1,
+  },
+  exportInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: Colors.terminal.gray,
+    borderRadius: BorderRadius.sm,
+    color: Colors.terminal.green,
+    fontSize: FontSizes.xs,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+  },
+  exportButton: {
+    borderWidth: 1,
+    borderColor: Colors.terminal.cyan,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.sm,
+  },
+  exportButtonText: {
+    fontSize: FontSizes.xs,
+    fontWeight: FontWeights.semibold,
+    color: Colors.terminal.cyan,
+  },
 });
@@ -12,6 +12,7 @@ import {
 import { RoutineManager } from '../services/RoutineManager';
 import { LockingService } from '../services/LockingService';
 import { HistoryManager } from '../services/HistoryManager';
+import { StorageAdapter } from '../services/Storage';
 import RoutineChecklist from './RoutineChecklist';
 import {
   Colors,
@@ -26,6 +27,7 @@ interface LockingScreenProps {
   routineManager: RoutineManager;
   lockingService: LockingService;
   historyManager: HistoryManager;
+  storage: StorageAdapter;
   onUnlock: () => void;
 }
 
@@ -34,6 +36,7 @@ export default function LockingScreen({
   routineManager,
   lockingService,
   historyManager,
+  storage,
   onUnlock,
 }: LockingScreenProps) {
   const [timeRemaining, setTimeRemaining] = useState(0);
@@ -163,8 +166,8 @@ export default function LockingScreen({
             </Text>
             <Text style={styles.headerSubtitle}>
               {isRoutineComplete
-                ? 'All tasks complete'
-                : `${routineManager.getCompletedCount()} of ${routineManager.getTotalCount()} tasks complete`}
+                ? 'All required tasks complete'
+                : `${routineManager.getRequiredCompletedCount()} of ${routineManager.getRequiredCount()} tasks complete`}
             </Text>
           </View>
         </View>
@@ -176,7 +179,7 @@ export default function LockingScreen({
           showsVerticalScrollIndicator={false}
         >
           <View style={styles.checklistContainer}>
-            <RoutineChecklist routineManager={routineManager} />
+            <RoutineChecklist routineManager={routineManager} storage={storage} />
           </View>
         </ScrollView>
 
@@ -10,21 +10,26 @@ import {
   ActivityIndicator,
 } from 'react-native';
 import { PhotoVerification, type PhotoRecord } from '../services/PhotoVerification';
+import { StorageAdapter } from '../services/Storage';
 
 interface PhotoCaptureScreenProps {
   visible: boolean;
   routineItem: string;
+  title?: string; // Display name, defaults to routineItem
+  storage: StorageAdapter;
   onClose: () => void;
-  onPhotoTaken: () => void;
+  onPhotoTaken: (photo: PhotoRecord) => void;
 }
 
 export default function PhotoCaptureScreen({
   visible,
   routineItem,
+  title = routineItem,
+  storage,
   onClose,
   onPhotoTaken,
 }: PhotoCaptureScreenProps) {
-  const [photoService] = useState(() => new PhotoVerification());
+  const [photoService] = useState(() => new PhotoVerification(storage));
   const [currentPhoto, setCurrentPhoto] = useState<PhotoRecord | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [hasTodayPhoto, setHasTodayPhoto] = useState(false);
@@ -78,7 +83,7 @@ export default function PhotoCaptureScreen({
       if (photo) {
         setCurrentPhoto(photo);
         setHasTodayPhoto(true);
-        onPhotoTaken();
+        onPhotoTaken(photo);
 
         Alert.alert('Success', 'Photo captured successfully!', [{ text: 'OK' }]);
       }
@@ -115,7 +120,7 @@ export default function PhotoCaptureScreen({
       if (photo) {
         setCurrentPhoto(photo);
         setHasTodayPhoto(true);
-        onPhotoTaken();
+        onPhotoTaken(photo);
 
         Alert.alert('Success', 'Photo selected successfully!', [{ text: 'OK' }]);
       }
@@ -177,7 +182,7 @@ export default function PhotoCaptureScreen({
     <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
       <View style={styles.container}>
         <View style={styles.header}>
-          <Text style={styles.title}>{routineItem}</Text>
+          <Text style={styles.title}>{title}</Text>
           <TouchableOpacity onPress={onClose} style={styles.closeButton}>
             <Text style={styles.closeButtonText}>✕</Text>
           </TouchableOpacity>
@@ -216,7 +221,7 @@ export default function PhotoCaptureScreen({
               <View style={styles.instructions}>
                 <Text style={styles.instructionTitle}>Instructions:</Text>
                 <Text style={styles.instructionText}>
-                  • Take a clear photo showing {routineItem.toLowerCase()}
+                  • Take a clear photo showing {title.toLowerCase()}
                 </Text>
                 <Text style={styles.instructionText}>
                   • Photo will be stored locally on your device
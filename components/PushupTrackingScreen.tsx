@@ -19,14 +19,16 @@ interface PushupTrackingScreenProps {
   visible: boolean;
   onClose: () => void;
   onComplete: () => void;
+  targetCount?: number;
 }
 
 export default function PushupTrackingScreen({
   visible,
   onClose,
   onComplete,
+  targetCount = 20,
 }: PushupTrackingScreenProps) {
-  const [tracker] = useState(() => new PushupTracker({ targetCount: 20 }));
+  const [tracker] = useState(() => new PushupTracker({ targetCount }));
   const [data, setData] = useState<PushupData>(tracker.getData());
   const [sensorsAvailable, setSensorsAvailable] = useState(true);
 
@@ -124,7 +126,7 @@ export default function PushupTrackingScreen({
       return 'Place phone on your back and start tracking';
     }
     if (data.state === PushupState.COMPLETED) {
-      return 'Target complete: 20 pushups';
+      return `Target complete: ${data.targetCount} pushups`;
     }
     return 'Tracking your movement';
   };
@@ -1,10 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
 import { RoutineManager } from '../services/RoutineManager';
-import { RoutineItem, ROUTINE_ITEM_INFO } from '../types/RoutineItem';
+import { RoutineItemDefinition } from '../types/RoutineItem';
 import { HistoryManager } from '../services/HistoryManager';
-import PushupTrackingScreen from './PushupTrackingScreen';
-import PhotoCaptureScreen from './PhotoCaptureScreen';
+import { StorageAdapter } from '../services/Storage';
+import { VerificationResult } from '../types/Verification';
+import { verificationRegistry } from './VerificationScreens';
 import HistoryCard from './HistoryCard';
 // CalendarEmailService and MusicService removed - calendar and music are now simple checkboxes
 import {
@@ -20,18 +21,22 @@ import {
 interface RoutineChecklistProps {
   routineManager: RoutineManager;
   historyManager?: HistoryManager;
+  storage: StorageAdapter;
+  routineName?: string;
 }
 
 export default function RoutineChecklist({
   routineManager,
   historyManager,
+  storage,
+  routineName,
 }: RoutineChecklistProps) {
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   const [refreshKey, setRefreshKey] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
-  const [showPushupTracker, setShowPushupTracker] = useState(false);
-  const [photoItem, setPhotoItem] = useState<RoutineItem | null>(null);
-  const items = routineManager.getAllItems();
+  const [verifyingItem, setVerifyingItem] = useState<RoutineItemDefinition | null>(null);
+  const itemRegistry = routineManager.getItemRegistry();
+  const items = routineManager.getItemDefinitions();
 
   useEffect(() => {
     const loadRoutineState = async () => {
@@ -42,35 +47,45 @@ export default function RoutineChecklist({
     loadRoutineState();
   }, [routineManager]);
 
-  const handleItemPress = async (item: RoutineItem) => {
-    // If it's pushups, show the tracking screen
-    if (item === RoutineItem.PUSHUPS) {
-      setShowPushupTracker(true);
+  const handleItemPress = async (item: RoutineItemDefinition) => {
+    // Quantity items count up instead of toggling
+    if (item.quantity) {
+      await handleProgress(item, item.quantity.step ?? 1);
       return;
     }
 
-    // If it's coffee/breakfast or water, show photo capture
-    if (item === RoutineItem.COFFEE_BREAKFAST || item === RoutineItem.WATER) {
-      setPhotoItem(item);
+    // Items whose strategy has a screen must be verified there
+    const strategy = verificationRegistry.get(item.verification);
+    if (strategy.screen) {
+      setVerifyingItem(item);
       return;
     }
 
-    // Calendar, emails, and music are now simple yes/no checkboxes
-    // No special behavior - just toggle completion like other items
-
-    // For other items, just toggle
-    await routineManager.toggleItem(item);
+    // Unverified items are simple yes/no checkboxes
+    try {
+      await routineManager.toggleItem(item.id);
+    } catch (error) {
+      Alert.alert('Not Yet', error instanceof Error ? error.message : String(error));
+    }
     setRefreshKey((prev) => prev + 1); // Force re-render
   };
 
-  const handlePushupComplete = async () => {
-    await routineManager.markComplete(RoutineItem.PUSHUPS);
+  const handleProgress = async (item: RoutineItemDefinition, amount: number) => {
+    try {
+      await routineManager.addProgress(item.id, amount);
+    } catch (error) {
+      Alert.alert('Not Yet', error instanceof Error ? error.message : String(error));
+    }
     setRefreshKey((prev) => prev + 1);
   };
 
-  const handlePhotoTaken = async () => {
-    if (photoItem) {
-      await routineManager.markComplete(photoItem);
+  const handleVerified = async (result: VerificationResult) => {
+    if (verifyingItem && verificationRegistry.isSatisfied(verifyingItem, result)) {
+      try {
+        await routineManager.markComplete(verifyingItem.id, result.kind);
+      } catch (error) {
+        Alert.alert('Not Yet', error instanceof Error ? error.message : String(error));
+      }
       setRefreshKey((prev) => prev + 1);
     }
   };
@@ -83,42 +98,39 @@ export default function RoutineChecklist({
     );
   }
 
-  const getItemIcon = (item: RoutineItem): string => {
-    switch (item) {
-      case RoutineItem.PUSHUPS:
-        return '💪';
-      case RoutineItem.COFFEE_BREAKFAST:
-        return '☕';
-      case RoutineItem.WATER:
-        return '💧';
-      case RoutineItem.CALENDAR_EMAILS:
-        return '📅';
-      case RoutineItem.MUSIC:
-        return '🎵';
-      default:
-        return '✅';
-    }
-  };
+  const requiredCount = routineManager.getRequiredCount();
+  const bonusCount =
+    routineManager.getCompletedCount() - routineManager.getRequiredCompletedCount();
 
+  const VerificationScreen =
+    verifyingItem && verificationRegistry.get(verifyingItem.verification).screen;
 
   return (
     <View style={styles.container}>
       {/* History Card with Streak */}
-      {historyManager && <HistoryCard historyManager={historyManager} />}
+      {historyManager && (
+        <HistoryCard
+          historyManager={historyManager}
+          itemRegistry={itemRegistry}
+          routineName={routineName}
+        />
+      )}
 
-      {items.map((item, index) => {
-        const isCompleted = routineManager.isCompleted(item);
-        const info = ROUTINE_ITEM_INFO[item];
-        const icon = getItemIcon(item);
+      {items.map((item) => {
+        const isCompleted = routineManager.isCompleted(item.id);
+        const blocking = isCompleted ? [] : routineManager.getBlockingPrerequisites(item.id);
+        const isBlocked = blocking.length > 0;
 
         return (
           <TouchableOpacity
-            key={item}
+            key={item.id}
             style={[
               styles.item,
               isCompleted && styles.itemCompleted,
+              isBlocked && styles.itemBlocked,
             ]}
             onPress={() => handleItemPress(item)}
+            disabled={isBlocked}
             activeOpacity={0.8}
           >
             <View style={styles.itemContent}>
@@ -127,9 +139,40 @@ export default function RoutineChecklist({
               </View>
               <View style={styles.textContainer}>
                 <Text style={[styles.itemTitle, isCompleted && styles.itemTitleCompleted]}>
-                  {icon} {item}
+                  {item.icon} {item.name}
+                  {item.optional && <Text style={styles.optionalTag}> · bonus</Text>}
                 </Text>
-                <Text style={styles.itemDescription}>{info.description}</Text>
+                <Text style={styles.itemDescription}>{item.description}</Text>
+                {item.quantity && (
+                  <View style={styles.quantityRow}>
+                    <TouchableOpacity
+                      style={styles.quantityButton}
+                      disabled={routineManager.getProgress(item.id) === 0}
+                      onPress={() => handleProgress(item, -(item.quantity?.step ?? 1))}
+                    >
+                      <Text style={styles.quantityButtonText}>−</Text>
+                    </TouchableOpacity>
+                    <View style={styles.quantityBarContainer}>
+                      <View
+                        style={[
+                          styles.quantityBar,
+                          {
+                            width: `${Math.min(1, routineManager.getProgress(item.id) / item.quantity.target) * 100}%`,
+                          },
+                        ]}
+                      />
+                    </View>
+                    <Text style={styles.quantityText}>
+                      {routineManager.getProgress(item.id)} / {item.quantity.target}{' '}
+                      {item.quantity.unit}
+                    </Text>
+                  </View>
+                )}
+                {isBlocked && (
+                  <Text style={styles.blockedText}>
+                    After: {blocking.map((id) => itemRegistry.getItemName(id)).join(', ')}
+                  </Text>
+                )}
               </View>
             </View>
           </TouchableOpacity>
@@ -139,14 +182,16 @@ export default function RoutineChecklist({
       <View style={styles.progressContainer}>
         <View style={styles.progressContent}>
           <Text style={styles.progressLabel}>
-            {routineManager.getCompletedCount()} of {routineManager.getTotalCount()} tasks complete
+            {routineManager.getRequiredCompletedCount()} of {routineManager.getRequiredCount()}{' '}
+            tasks complete
+            {bonusCount > 0 ? ` · ${bonusCount} bonus` : ''}
           </Text>
           <View style={styles.progressBarContainer}>
             <View
               style={[
                 styles.progressBar,
                 {
-                  width: `${(routineManager.getCompletedCount() / routineManager.getTotalCount()) * 100}%`,
+                  width: `${requiredCount > 0 ? (routineManager.getRequiredCompletedCount() / requiredCount) * 100 : 100}%`,
                 },
               ]}
             />
@@ -157,18 +202,13 @@ export default function RoutineChecklist({
         </View>
       </View>
 
-      <PushupTrackingScreen
-        visible={showPushupTracker}
-        onClose={() => setShowPushupTracker(false)}
-        onComplete={handlePushupComplete}
-      />
-
-      {photoItem && (
-        <PhotoCaptureScreen
-          visible={photoItem !== null}
-          routineItem={photoItem}
-          onClose={() => setPhotoItem(null)}
-          onPhotoTaken={handlePhotoTaken}
+      {VerificationScreen && verifyingItem && (
+        <VerificationScreen
+          visible={verifyingItem !== null}
+          item={verifyingItem}
+          storage={storage}
+          onClose={() => setVerifyingItem(null)}
+          onVerified={handleVerified}
         />
       )}
     </View>
@@ -197,6 +237,54 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'center',
   },
+  itemBlocked: {
+    opacity: 0.5,
+  },
+  optionalTag: {
+    fontSize: FontSizes.xs,
+    fontWeight: FontWeights.normal,
+    color: Colors.terminal.amber,
+  },
+  blockedText: {
+    fontSize: FontSizes.xs,
+    color: Colors.terminal.amber,
+    marginTop: Spacing.xs,
+  },
+  quantityRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: Spacing.sm,
+    gap: Spacing.sm,
+  },
+  quantityButton: {
+    width: 28,
+    height: 28,
+    borderWidth: 1,
+    borderColor: Colors.terminal.gray,
+    borderRadius: BorderRadius.sm,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  quantityButtonText: {
+    fontSize: FontSizes.base,
+    color: Colors.terminal.green,
+  },
+  quantityBarContainer: {
+    flex: 1,
+    height: 4,
+    backgroundColor: Colors.terminal.gray,
+    borderRadius: 2,
+    overflow: 'hidden',
+  },
+  quantityBar: {
+    height: '100%',
+    backgroundColor: Colors.terminal.green,
+  },
+  quantityText: {
+    fontSize: FontSizes.xs,
+    color: Colors.terminal.cyan,
+    fontVariant: ['tabular-nums'],
+  },
   checkbox: {
     width: 24,
     height: 24,
@@ -0,0 +1,589 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  Alert,
+  Switch,
+} from 'react-native';
+import { RoutineItemRegistry, RoutineItemInput } from '../services/RoutineItemRegistry';
+import { RoutineItemDefinition } from '../types/RoutineItem';
+import { VerificationConfigField } from '../types/Verification';
+import { verificationRegistry } from './VerificationScreens';
+import { Colors, Spacing, BorderRadius, FontSizes, FontWeights } from '../constants/theme';
+
+interface RoutineItemsScreenProps {
+  visible: boolean;
+  itemRegistry: RoutineItemRegistry;
+  onClose: () => void;
+}
+
+const EMPTY_ITEM: RoutineItemInput = {
+  name: '',
+  description: '',
+  icon: '✅',
+  verification: 'none',
+};
+
+export default function RoutineItemsScreen({
+  visible,
+  itemRegistry,
+  onClose,
+}: RoutineItemsScreenProps) {
+  const [items, setItems] = useState<RoutineItemDefinition[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<RoutineItemInput | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setItems(itemRegistry.getItems());
+      setDraft(null);
+      setEditingId(null);
+    }
+  }, [visible, itemRegistry]);
+
+  const refresh = () => {
+    setItems(itemRegistry.getItems());
+  };
+
+  const startCreate = () => {
+    setEditingId(null);
+    setDraft({ ...EMPTY_ITEM });
+  };
+
+  const startEdit = (item: RoutineItemDefinition) => {
+    const { id, ...input } = item;
+    setEditingId(id);
+    setDraft(input);
+  };
+
+  const handleSaveDraft = async () => {
+    if (!draft) return;
+
+    try {
+      if (editingId) {
+        await itemRegistry.updateItem(editingId, draft);
+      } else {
+        await itemRegistry.addItem(draft);
+      }
+      setDraft(null);
+      setEditingId(null);
+      refresh();
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save item.');
+    }
+  };
+
+  const handleMove = async (item: RoutineItemDefinition, offset: number) => {
+    const index = items.findIndex((i) => i.id === item.id);
+    await itemRegistry.moveItem(item.id, index + offset);
+    refresh();
+  };
+
+  const handleDelete = (item: RoutineItemDefinition) => {
+    Alert.alert('Delete Item', `Remove "${item.name}" from your routine?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          await itemRegistry.removeItem(item.id);
+          refresh();
+        },
+      },
+    ]);
+  };
+
+  const updateConfigField = (
+    current: RoutineItemInput,
+    field: VerificationConfigField,
+    text: string
+  ) => {
+    const value = field.numeric ? parseInt(text, 10) : text;
+    const config = { ...current.verificationConfig };
+    if (value === '' || (typeof value === 'number' && isNaN(value))) {
+      delete config[field.key];
+    } else {
+      Object.assign(config, { [field.key]: value });
+    }
+    setDraft({ ...current, verificationConfig: config });
+  };
+
+  const renderConfigFields = (current: RoutineItemInput) => {
+    const fields = verificationRegistry.get(current.verification).configFields ?? [];
+
+    return fields.map((field) => (
+      <View key={field.key}>
+        <Text style={styles.fieldLabel}>{field.label}</Text>
+        <TextInput
+          style={styles.input}
+          value={String(current.verificationConfig?.[field.key] ?? '')}
+          onChangeText={(text) => updateConfigField(current, field, text)}
+          keyboardType={field.numeric ? 'number-pad' : 'default'}
+        />
+      </View>
+    ));
+  };
+
+  const togglePrerequisite = (current: RoutineItemInput, id: string) => {
+    const prerequisites = current.prerequisites ?? [];
+    setDraft({
+      ...current,
+      prerequisites: prerequisites.includes(id)
+        ? prerequisites.filter((p) => p !== id)
+        : [...prerequisites, id],
+    });
+  };
+
+  const renderPrerequisites = (current: RoutineItemInput) => {
+    const candidates = items.filter((item) => item.id !== editingId);
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    return (
+      <View>
+        <Text style={styles.fieldLabel}>Complete After</Text>
+        <View style={styles.chipRow}>
+          {candidates.map((item) => {
+            const isSelected = current.prerequisites?.includes(item.id) ?? false;
+            return (
+              <TouchableOpacity
+                key={item.id}
+                style={[styles.chip, isSelected && styles.chipSelected]}
+                onPress={() => togglePrerequisite(current, item.id)}
+              >
+                <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                  {item.icon} {item.name}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+    );
+  };
+
+  const renderQuantityFields = (current: RoutineItemInput) => {
+    const quantity = current.quantity;
+    if (!quantity) {
+      return null;
+    }
+
+    const parseAmount = (text: string) => {
+      const value = parseFloat(text);
+      return isNaN(value) ? 0 : value;
+    };
+
+    return (
+      <View>
+        <Text style={styles.fieldLabel}>Target</Text>
+        <TextInput
+          style={styles.input}
+          value={quantity.target ? String(quantity.target) : ''}
+          onChangeText={(text) =>
+            setDraft({ ...current, quantity: { ...quantity, target: parseAmount(text) } })
+          }
+          keyboardType="decimal-pad"
+          placeholder="3"
+          placeholderTextColor={Colors.terminal.gray}
+        />
+        <Text style={styles.fieldLabel}>Unit</Text>
+        <TextInput
+          style={styles.input}
+          value={quantity.unit}
+          onChangeText={(unit) => setDraft({ ...current, quantity: { ...quantity, unit } })}
+          placeholder="glasses, ml, pages"
+          placeholderTextColor={Colors.terminal.gray}
+        />
+        <Text style={styles.fieldLabel}>Amount per tap</Text>
+        <TextInput
+          style={styles.input}
+          value={quantity.step ? String(quantity.step) : ''}
+          onChangeText={(text) =>
+            setDraft({ ...current, quantity: { ...quantity, step: parseAmount(text) } })
+          }
+          keyboardType="decimal-pad"
+          placeholder="1"
+          placeholderTextColor={Colors.terminal.gray}
+        />
+      </View>
+    );
+  };
+
+  const renderEditor = (current: RoutineItemInput) => (
+    <View>
+      <Text style={styles.fieldLabel}>Name</Text>
+      <TextInput
+        style={styles.input}
+        value={current.name}
+        onChangeText={(name) => setDraft({ ...current, name })}
+        placeholder="Stretch for 5 minutes"
+        placeholderTextColor={Colors.terminal.gray}
+      />
+
+      <Text style={styles.fieldLabel}>Description</Text>
+      <TextInput
+        style={styles.input}
+        value={current.description}
+        onChangeText={(description) => setDraft({ ...current, description })}
+        placeholder="What counts as done?"
+        placeholderTextColor={Colors.terminal.gray}
+      />
+
+      <Text style={styles.fieldLabel}>Icon</Text>
+      <TextInput
+        style={styles.input}
+        value={current.icon}
+        onChangeText={(icon) => setDraft({ ...current, icon })}
+        maxLength={4}
+      />
+
+      <View style={styles.switchRow}>
+        <View style={styles.switchInfo}>
+          <Text style={styles.itemTitle}>Optional</Text>
+          <Text style={styles.itemDescription}>Bonus item; not needed to unlock</Text>
+        </View>
+        <Switch
+          value={current.optional ?? false}
+          onValueChange={(optional) => setDraft({ ...current, optional })}
+          trackColor={{ false: Colors.terminal.gray, true: Colors.terminal.green }}
+          thumbColor={Colors.terminal.brightGreen}
+        />
+      </View>
+
+      <View style={styles.switchRow}>
+        <View style={styles.switchInfo}>
+          <Text style={styles.itemTitle}>Track Quantity</Text>
+          <Text style={styles.itemDescription}>Count up to a target, e.g. 3 glasses</Text>
+        </View>
+        <Switch
+          value={!!current.quantity}
+          onValueChange={(enabled) =>
+            setDraft({
+              ...current,
+              quantity: enabled ? { target: 1, unit: '', step: 1 } : undefined,
+            })
+          }
+          trackColor={{ false: Colors.terminal.gray, true: Colors.terminal.green }}
+          thumbColor={Colors.terminal.brightGreen}
+        />
+      </View>
+      {renderQuantityFields(current)}
+
+      <Text style={styles.fieldLabel}>Verification</Text>
+      {verificationRegistry.list().map((option) => (
+        <TouchableOpacity
+          key={option.kind}
+          style={[
+            styles.optionCard,
+            current.verification === option.kind && styles.optionCardSelected,
+          ]}
+          onPress={() => setDraft({ ...current, verification: option.kind })}
+        >
+          <View style={styles.radioButton}>
+            {current.verification === option.kind && <View style={styles.radioDot} />}
+          </View>
+          <View style={styles.optionInfo}>
+            <Text style={styles.optionLabel}>{option.label}</Text>
+            <Text style={styles.optionDescription}>{option.description}</Text>
+          </View>
+        </TouchableOpacity>
+      ))}
+
+      {renderConfigFields(current)}
+
+      {renderPrerequisites(current)}
+
+      <View style={styles.editorActions}>
+        <TouchableOpacity style={styles.actionButton} onPress={() => setDraft(null)}>
+          <Text style={styles.actionButtonText}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.actionButton} onPress={handleSaveDraft}>
+          <Text style={styles.actionButtonText}>{editingId ? 'Update' : 'Create'}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderList = () => (
+    <View>
+      {items.map((item, index) => (
+        <View key={item.id} style={styles.itemCard}>
+          <View style={styles.itemInfo}>
+            <Text style={styles.itemTitle}>
+              {item.icon} {item.name}
+            </Text>
+            <Text style={styles.itemDescription}>
+              {verificationRegistry.get(item.verification).label}
+              {item.optional ? ' · Optional' : ''}
+              {item.quantity ? ` · ${item.quantity.target} ${item.quantity.unit}` : ''}
+            </Text>
+            {!!item.prerequisites?.length && (
+              <Text style={styles.itemDescription}>
+                After: {item.prerequisites.map((id) => itemRegistry.getItemName(id)).join(', ')}
+              </Text>
+            )}
+          </View>
+          <View style={styles.itemActions}>
+            <TouchableOpacity
+              style={styles.iconButton}
+              disabled={index === 0}
+              onPress={() => handleMove(item, -1)}
+            >
+              <Text style={styles.iconButtonText}>↑</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.iconButton}
+              disabled={index === items.length - 1}
+              onPress={() => handleMove(item, 1)}
+            >
+              <Text style={styles.iconButtonText}>↓</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.iconButton} onPress={() => startEdit(item)}>
+              <Text style={styles.iconButtonText}>✎</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.iconButton} onPress={() => handleDelete(item)}>
+              <Text style={styles.iconButtonText}>×</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ))}
+
+      {items.length === 0 && <Text style={styles.emptyText}>No routine items yet</Text>}
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      onRequestClose={onClose}
+      presentationStyle="pageSheet"
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Text style={styles.closeButtonText}>×</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>{draft ? 'Edit Item' : 'Routine Items'}</Text>
+          <TouchableOpacity onPress={startCreate} style={styles.addButton} disabled={!!draft}>
+            <Text style={styles.addButtonText}>{draft ? '' : 'Add'}</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+          {draft ? renderEditor(draft) : renderList()}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background.primary,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: 60,
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: Spacing.lg,
+    backgroundColor: Colors.terminal.darkGray,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.terminal.gray,
+  },
+  closeButton: {
+    padding: Spacing.sm,
+  },
+  closeButtonText: {
+    fontSize: 28,
+    color: Colors.terminal.cyan,
+    fontWeight: FontWeights.normal,
+  },
+  headerTitle: {
+    fontSize: FontSizes.xl,
+    fontWeight: FontWeights.bold,
+    color: Colors.terminal.green,
+  },
+  addButton: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    minWidth: 56,
+  },
+  addButtonText: {
+    fontSize: FontSizes.sm,
+    fontWeight: FontWeights.semibold,
+    color: Colors.terminal.green,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: Spacing.lg,
+    paddingBottom: Spacing.xxl,
+  },
+  itemCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.terminal.darkGray,
+    borderWidth: 1,
+    borderColor: Colors.terminal.gray,
+    borderRadius: BorderRadius.sm,
+    padding: Spacing.md,
+    marginBottom: Spacing.sm,
+  },
+  itemInfo: {
+    flex: 1,
+    marginRight: Spacing.sm,
+  },
+  itemTitle: {
+    fontSize: FontSizes.sm,
+    fontWeight: FontWeights.semibold,
+    color: Colors.terminal.green,
+    marginBottom: Spacing.xs,
+  },
+  itemDescription: {
+    fontSize: FontSizes.xs,
+    color: Colors.terminal.cyan,
+  },
+  itemActions: {
+    flexDirection: 'row',
+    gap: Spacing.xs,
+  },
+  iconButton: {
+    width: 32,
+    height: 32,
+    borderWidth: 1,
+    borderColor: Colors.terminal.gray,
+    borderRadius: BorderRadius.sm,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  iconButtonText: {
+    fontSize: FontSizes.base,
+    color: Colors.terminal.green,
+  },
+  emptyText: {
+    fontSize: FontSizes.sm,
+    color: Colors.terminal.cyan,
+    textAlign: 'center',
+    marginTop: Spacing.lg,
+  },
+  fieldLabel: {
+    fontSize: FontSizes.xs,
+    color: Colors.terminal.cyan,
+    marginBottom: Spacing.xs,
+    marginTop: Spacing.md,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: Colors.terminal.gray,
+    borderRadius: BorderRadius.sm,
+    backgroundColor: Colors.terminal.darkGray,
+    color: Colors.terminal.green,
+    fontSize: FontSizes.base,
+    padding: Spacing.sm,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: Spacing.md,
+  },
+  switchInfo: {
+    flex: 1,
+    marginRight: Spacing.sm,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.xs,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: Colors.terminal.gray,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+  },
+  chipSelected: {
+    borderColor: Colors.terminal.green,
+    backgroundColor: Colors.terminal.darkGray,
+  },
+  chipText: {
+    fontSize: FontSizes.xs,
+    color: Colors.terminal.cyan,
+  },
+  chipTextSelected: {
+    color: Colors.terminal.green,
+  },
+  optionCard: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    backgroundColor: Colors.terminal.darkGray,
+    borderRadius: BorderRadius.sm,
+    padding: Spacing.md,
+    marginBottom: Spacing.sm,
+    borderWidth: 1,
+    borderColor: Colors.terminal.gray,
+  },
+  optionCardSelected: {
+    borderColor: Colors.terminal.green,
+  },
+  radioButton: {
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    borderWidth: 2,
+    borderColor: Colors.terminal.gray,
+    marginRight: Spacing.sm,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  radioDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: Colors.terminal.green,
+  },
+  optionInfo: {
+    flex: 1,
+  },
+  optionLabel: {
+    fontSize: FontSizes.sm,
+    fontWeight: FontWeights.semibold,
+    color: Colors.terminal.green,
+    marginBottom: Spacing.xs,
+  },
+  optionDescription: {
+    fontSize: FontSizes.xs,
+    color: Colors.terminal.cyan,
+    lineHeight: 16,
+  },
+  editorActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: Spacing.sm,
+    marginTop: Spacing.lg,
+  },
+  actionButton: {
+    borderWidth: 1,
+    borderColor: Colors.terminal.gray,
+    borderRadius: BorderRadius.sm,
+    backgroundColor: Colors.terminal.darkGray,
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.lg,
+  },
+  actionButtonText: {
+    fontSize: FontSizes.sm,
+    fontWeight: FontWeights.semibold,
+    color: Colors.terminal.green,
+  },
+});
@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { RoutineDefinition, RoutineId } from '../services/RoutineCatalog';
+import { Colors, Spacing, BorderRadius, FontSizes, FontWeights } from '../constants/theme';
+
+interface RoutineSwitcherProps {
+  routines: RoutineDefinition[];
+  activeRoutineId: RoutineId;
+  onSelect: (routineId: RoutineId) => void;
+  onAdd: (name: string) => Promise<void>;
+}
+
+export default function RoutineSwitcher({
+  routines,
+  activeRoutineId,
+  onSelect,
+  onAdd,
+}: RoutineSwitcherProps) {
+  const [newName, setNewName] = useState<string | null>(null);
+
+  const handleAdd = async () => {
+    if (newName === null) return;
+
+    try {
+      await onAdd(newName);
+      setNewName(null);
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to add routine.');
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        {routines.map((routine) => {
+          const isActive = routine.id === activeRoutineId;
+          return (
+            <TouchableOpacity
+              key={routine.id}
+              style={[styles.tab, isActive && styles.tabActive]}
+              onPress={() => onSelect(routine.id)}
+            >
+              <Text style={[styles.tabText, isActive && styles.tabTextActive]}>{routine.name}</Text>
+            </TouchableOpacity>
+          );
+        })}
+        {newName === null && (
+          <TouchableOpacity style={styles.tab} onPress={() => setNewName('')}>
+            <Text style={styles.tabText}>+</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+
+      {newName !== null && (
+        <View style={styles.addRow}>
+          <TextInput
+            style={styles.input}
+            value={newName}
+            onChangeText={setNewName}
+            placeholder="Evening, Workout..."
+            placeholderTextColor={Colors.terminal.gray}
+            autoFocus
+            onSubmitEditing={handleAdd}
+          />
+          <TouchableOpacity style={styles.addButton} onPress={handleAdd}>
+            <Text style={styles.tabTextActive}>Add</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.addButton} onPress={() => setNewName(null)}>
+            <Text style={styles.tabText}>×</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: Spacing.md,
+  },
+  tab: {
+    borderWidth: 1,
+    borderColor: Colors.terminal.gray,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    marginRight: Spacing.xs,
+  },
+  tabActive: {
+    borderColor: Colors.terminal.green,
+    backgroundColor: Colors.terminal.black,
+  },
+  tabText: {
+    fontSize: FontSizes.sm,
+    color: Colors.terminal.cyan,
+  },
+  tabTextActive: {
+    fontSize: FontSizes.sm,
+    fontWeight: FontWeights.semibold,
+    color: Colors.terminal.green,
+  },
+  addRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    marginTop: Spacing.sm,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: Colors.terminal.gray,
+    borderRadius: BorderRadius.sm,
+    backgroundColor: Colors.terminal.black,
+    color: Colors.terminal.green,
+    fontSize: FontSizes.sm,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+  },
+  addButton: {
+    borderWidth: 1,
+    borderColor: Colors.terminal.gray,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+  },
+});
@@ -0,0 +1,104 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { DailyRecord, HistoryManager } from '../services/HistoryManager';
+import { RoutineItemRegistry } from '../services/RoutineItemRegistry';
+import { DateUtils } from '../services/DateUtils';
+import { Colors, Spacing, FontSizes, FontWeights } from '../constants/theme';
+
+interface RoutineTimelineProps {
+  record: DailyRecord;
+  itemRegistry?: RoutineItemRegistry;
+}
+
+export default function RoutineTimeline({ record, itemRegistry }: RoutineTimelineProps) {
+  const steps = HistoryManager.getTimelineSteps(record);
+
+  if (steps.length === 0) {
+    return <Text style={styles.emptyText}>No timeline recorded for this day</Text>;
+  }
+
+  // Highlight the step that took longest since the previous one
+  const slowest = steps.reduce((max, step) => (step.duration > max.duration ? step : max));
+
+  return (
+    <View>
+      {steps.map((step, index) => {
+        const item = itemRegistry?.getItem(step.itemId);
+        const isSlowest = steps.length > 1 && step === slowest;
+
+        return (
+          <View key={`${step.itemId}-${step.completedAt}`} style={styles.row}>
+            <Text style={styles.time}>{DateUtils.formatTime(new Date(step.completedAt))}</Text>
+            <View style={styles.marker}>
+              <View style={[styles.dot, isSlowest && styles.dotSlowest]} />
+              {index < steps.length - 1 && <View style={styles.line} />}
+            </View>
+            <View style={styles.details}>
+              <Text style={[styles.itemName, isSlowest && styles.itemNameSlowest]}>
+                {item ? `${item.icon} ${item.name}` : step.itemId}
+              </Text>
+              <Text style={styles.duration}>
+                {index === 0 ? 'First step' : `+${DateUtils.formatDuration(step.duration)}`}
+                {isSlowest ? ' · slowest' : ''}
+              </Text>
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    minHeight: 40,
+  },
+  time: {
+    width: 72,
+    fontSize: FontSizes.xs,
+    color: Colors.terminal.cyan,
+    fontVariant: ['tabular-nums'],
+  },
+  marker: {
+    width: 16,
+    alignItems: 'center',
+    alignSelf: 'stretch',
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    marginTop: 4,
+    backgroundColor: Colors.terminal.cyan,
+  },
+  dotSlowest: {
+    backgroundColor: Colors.terminal.green,
+  },
+  line: {
+    flex: 1,
+    width: 1,
+    backgroundColor: Colors.terminal.gray,
+  },
+  details: {
+    flex: 1,
+    marginLeft: Spacing.sm,
+    paddingBottom: Spacing.sm,
+  },
+  itemName: {
+    fontSize: FontSizes.sm,
+    color: Colors.terminal.cyan,
+  },
+  itemNameSlowest: {
+    color: Colors.terminal.green,
+    fontWeight: FontWeights.semibold,
+  },
+  duration: {
+    fontSize: FontSizes.xs,
+    color: Colors.terminal.amber,
+  },
+  emptyText: {
+    fontSize: FontSizes.xs,
+    color: Colors.terminal.cyan,
+  },
+});
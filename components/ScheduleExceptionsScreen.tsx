@@ -0,0 +1,388 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import {
+  ScheduleException,
+  ScheduleExceptionInput,
+  ScheduleExceptionKind,
+  ScheduleExceptions,
+} from '../services/ScheduleExceptions';
+import { DateUtils } from '../services/DateUtils';
+import { Colors, Spacing, BorderRadius, FontSizes, FontWeights } from '../constants/theme';
+
+interface ScheduleExceptionsScreenProps {
+  visible: boolean;
+  exceptions: ScheduleExceptions;
+  onClose: () => void;
+}
+
+const KIND_OPTIONS: { kind: ScheduleExceptionKind; label: string; icon: string }[] = [
+  { kind: 'vacation', label: 'Vacation', icon: '🏖️' },
+  { kind: 'sick', label: 'Sick Day', icon: '🤒' },
+  { kind: 'holiday', label: 'Holiday', icon: '🎉' },
+];
+
+const getKindOption = (kind: ScheduleExceptionKind) =>
+  KIND_OPTIONS.find((option) => option.kind === kind) ?? KIND_OPTIONS[0];
+
+const formatRange = (exception: ScheduleException) =>
+  exception.startDate === exception.endDate
+    ? exception.startDate
+    : `${exception.startDate} → ${exception.endDate}`;
+
+export default function ScheduleExceptionsScreen({
+  visible,
+  exceptions,
+  onClose,
+}: ScheduleExceptionsScreenProps) {
+  const [list, setList] = useState<ScheduleException[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ScheduleExceptionInput | null>(null);
+
+  const refresh = async () => {
+    setList(await exceptions.getExceptions());
+  };
+
+  useEffect(() => {
+    if (visible) {
+      refresh();
+      setDraft(null);
+      setEditingId(null);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [visible, exceptions]);
+
+  const startCreate = () => {
+    const today = DateUtils.getTodayISO();
+    setEditingId(null);
+    setDraft({ kind: 'vacation', startDate: today, endDate: today });
+  };
+
+  const startEdit = (exception: ScheduleException) => {
+    const { id, ...input } = exception;
+    setEditingId(id);
+    setDraft(input);
+  };
+
+  const handleSaveDraft = async () => {
+    if (!draft) return;
+
+    try {
+      if (editingId) {
+        await exceptions.updateException(editingId, draft);
+      } else {
+        await exceptions.addException(draft);
+      }
+      setDraft(null);
+      setEditingId(null);
+      await refresh();
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save days off.');
+    }
+  };
+
+  const handleDelete = (exception: ScheduleException) => {
+    Alert.alert('Delete Days Off', `Remove ${formatRange(exception)}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await exceptions.removeException(exception.id);
+            await refresh();
+          } catch (error) {
+            Alert.alert(
+              'Error',
+              error instanceof Error ? error.message : 'Failed to delete days off.'
+            );
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderEditor = (current: ScheduleExceptionInput) => (
+    <View>
+      <Text style={styles.fieldLabel}>Type</Text>
+      <View style={styles.chipRow}>
+        {KIND_OPTIONS.map((option) => {
+          const isSelected = current.kind === option.kind;
+          return (
+            <TouchableOpacity
+              key={option.kind}
+              style={[styles.chip, isSelected && styles.chipSelected]}
+              onPress={() => setDraft({ ...current, kind: option.kind })}
+            >
+              <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                {option.icon} {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <Text style={styles.fieldLabel}>First Day</Text>
+      <TextInput
+        style={styles.input}
+        value={current.startDate}
+        onChangeText={(startDate) => setDraft({ ...current, startDate })}
+        placeholder="YYYY-MM-DD"
+        placeholderTextColor={Colors.terminal.gray}
+        autoCapitalize="none"
+      />
+
+      <Text style={styles.fieldLabel}>Last Day</Text>
+      <TextInput
+        style={styles.input}
+        value={current.endDate}
+        onChangeText={(endDate) => setDraft({ ...current, endDate })}
+        placeholder="YYYY-MM-DD"
+        placeholderTextColor={Colors.terminal.gray}
+        autoCapitalize="none"
+      />
+
+      <Text style={styles.fieldLabel}>Note</Text>
+      <TextInput
+        style={styles.input}
+        value={current.note ?? ''}
+        onChangeText={(note) => setDraft({ ...current, note })}
+        placeholder="Trip to Lisbon"
+        placeholderTextColor={Colors.terminal.gray}
+      />
+
+      <View style={styles.editorActions}>
+        <TouchableOpacity style={styles.actionButton} onPress={() => setDraft(null)}>
+          <Text style={styles.actionButtonText}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.actionButton} onPress={handleSaveDraft}>
+          <Text style={styles.actionButtonText}>{editingId ? 'Update' : 'Create'}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderList = () => (
+    <View>
+      <Text style={styles.hintText}>
+        Every routine is off on these days: nothing locks, and streaks and success rates skip them.
+      </Text>
+
+      {list.map((exception) => {
+        const option = getKindOption(exception.kind);
+        return (
+          <View key={exception.id} style={styles.itemCard}>
+            <View style={styles.itemInfo}>
+              <Text style={styles.itemTitle}>
+                {option.icon} {exception.note || option.label}
+              </Text>
+              <Text style={styles.itemDescription}>
+                {option.label} · {formatRange(exception)}
+              </Text>
+            </View>
+            <View style={styles.itemActions}>
+              <TouchableOpacity style={styles.iconButton} onPress={() => startEdit(exception)}>
+                <Text style={styles.iconButtonText}>✎</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.iconButton} onPress={() => handleDelete(exception)}>
+                <Text style={styles.iconButtonText}>×</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        );
+      })}
+
+      {list.length === 0 && <Text style={styles.emptyText}>No days off planned</Text>}
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      onRequestClose={onClose}
+      presentationStyle="pageSheet"
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Text style={styles.closeButtonText}>×</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>{draft ? 'Edit Days Off' : 'Days Off'}</Text>
+          <TouchableOpacity onPress={startCreate} style={styles.addButton} disabled={!!draft}>
+            <Text style={styles.addButtonText}>{draft ? '' : 'Add'}</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+          {draft ? renderEditor(draft) : renderList()}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background.primary,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: 60,
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: Spacing.lg,
+    backgroundColor: Colors.terminal.darkGray,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.terminal.gray,
+  },
+  closeButton: {
+    padding: Spacing.sm,
+  },
+  closeButtonText: {
+    fontSize: 28,
+    color: Colors.terminal.cyan,
+    fontWeight: FontWeights.normal,
+  },
+  headerTitle: {
+    fontSize: FontSizes.xl,
+    fontWeight: FontWeights.bold,
+    color: Colors.terminal.green,
+  },
+  addButton: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    minWidth: 56,
+  },
+  addButtonText: {
+    fontSize: FontSizes.sm,
+    fontWeight: FontWeights.semibold,
+    color: Colors.terminal.green,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: Spacing.lg,
+    paddingBottom: Spacing.xxl,
+  },
+  hintText: {
+    fontSize: FontSizes.xs,
+    color: Colors.terminal.cyan,
+    marginBottom: Spacing.md,
+  },
+  itemCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.terminal.darkGray,
+    borderWidth: 1,
+    borderColor: Colors.terminal.gray,
+    borderRadius: BorderRadius.sm,
+    padding: Spacing.md,
+    marginBottom: Spacing.sm,
+  },
+  itemInfo: {
+    flex: 1,
+    marginRight: Spacing.sm,
+  },
+  itemTitle: {
+    fontSize: FontSizes.sm,
+    fontWeight: FontWeights.semibold,
+    color: Colors.terminal.green,
+    marginBottom: Spacing.xs,
+  },
+  itemDescription: {
+    fontSize: FontSizes.xs,
+    color: Colors.terminal.cyan,
+  },
+  itemActions: {
+    flexDirection: 'row',
+    gap: Spacing.xs,
+  },
+  iconButton: {
+    width: 32,
+    height: 32,
+    borderWidth: 1,
+    borderColor: Colors.terminal.gray,
+    borderRadius: BorderRadius.sm,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  iconButtonText: {
+    fontSize: FontSizes.base,
+    color: Colors.terminal.green,
+  },
+  emptyText: {
+    fontSize: FontSizes.sm,
+    color: Colors.terminal.cyan,
+    textAlign: 'center',
+    marginTop: Spacing.lg,
+  },
+  fieldLabel: {
+    fontSize: FontSizes.xs,
+    color: Colors.terminal.cyan,
+    marginBottom: Spacing.xs,
+    marginTop: Spacing.md,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: Colors.terminal.gray,
+    borderRadius: BorderRadius.sm,
+    backgroundColor: Colors.terminal.darkGray,
+    color: Colors.terminal.green,
+    fontSize: FontSizes.base,
+    padding: Spacing.sm,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.xs,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: Colors.terminal.gray,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+  },
+  chipSelected: {
+    borderColor: Colors.terminal.green,
+    backgroundColor: Colors.terminal.darkGray,
+  },
+  chipText: {
+    fontSize: FontSizes.xs,
+    color: Colors.terminal.cyan,
+  },
+  chipTextSelected: {
+    color: Colors.terminal.green,
+  },
+  editorActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: Spacing.sm,
+    marginTop: Spacing.lg,
+  },
+  actionButton: {
+    borderWidth: 1,
+    borderColor: Colors.terminal.gray,
+    borderRadius: BorderRadius.sm,
+    backgroundColor: Colors.terminal.darkGray,
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.lg,
+  },
+  actionButtonText: {
+    fontSize: FontSizes.sm,
+    fontWeight: FontWeights.semibold,
+    color: Colors.terminal.green,
+  },
+});
@@ -9,14 +9,29 @@ import {
   ScrollView,
   Alert,
   Platform,
+  TextInput,
 } from 'react-native';
 import DateTimePicker from '@react-native-community/datetimepicker';
+import * as DocumentPicker from 'expo-document-picker';
 import {
   SettingsManager,
   AppSettings,
   DaySchedule,
   ResetBehavior,
+  SettingsValidationError,
+  DEFAULT_STREAK_FREEZE_CAP,
+  MAX_STREAK_FREEZE_CAP,
 } from '../services/SettingsManager';
+import { STREAK_FREEZE_INTERVAL } from '../services/HistoryManager';
+import { RoutineItemRegistry } from '../services/RoutineItemRegistry';
+import { RoutineCatalog, RoutineId, DEFAULT_ROUTINE_ID } from '../services/RoutineCatalog';
+import { BackupArchive, BackupService, RestoreMode } from '../services/BackupService';
+import { FileExport } from '../services/FileExport';
+import { DateUtils } from '../services/DateUtils';
+import { TimeZonePreference, TimeZoneSettings } from '../services/TimeZoneSettings';
+import { ScheduleExceptions } from '../services/ScheduleExceptions';
+import RoutineItemsScreen from './RoutineItemsScreen';
+import ScheduleExceptionsScreen from './ScheduleExceptionsScreen';
 import {
   Colors,
   Spacing,
@@ -29,14 +44,44 @@ import {
 interface SettingsScreenProps {
   visible: boolean;
   settingsManager: SettingsManager;
+  itemRegistry: RoutineItemRegistry;
+  catalog: RoutineCatalog;
+  routineId: RoutineId;
+  backupService: BackupService;
+  timeZoneSettings: TimeZoneSettings;
+  exceptions: ScheduleExceptions;
   onClose: () => void;
+  onDataRestored: () => void;
 }
 
 const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
 
-export default function SettingsScreen({ visible, settingsManager, onClose }: SettingsScreenProps) {
+const HISTORY_RETENTION_OPTIONS: { months?: number; label: string }[] = [
+  { label: 'Forever' },
+  { months: 24, label: '2 years' },
+  { months: 12, label: '1 year' },
+  { months: 3, label: '3 months' },
+];
+
+export default function SettingsScreen({
+  visible,
+  settingsManager,
+  itemRegistry,
+  catalog,
+  routineId,
+  backupService,
+  timeZoneSettings,
+  exceptions,
+  onClose,
+  onDataRestored,
+}: SettingsScreenProps) {
   const [settings, setSettings] = useState<AppSettings | null>(null);
+  const [timeZone, setTimeZone] = useState<TimeZonePreference | null>(null);
+  const [routineName, setRoutineName] = useState('');
   const [hasChanges, setHasChanges] = useState(false);
+  const [errors, setErrors] = useState<SettingsValidationError[]>([]);
+  const [showItemEditor, setShowItemEditor] = useState(false);
+  const [showExceptions, setShowExceptions] = useState(false);
   const [showTimePicker, setShowTimePicker] = useState<{
     day: number;
     type: 'start' | 'end';
@@ -49,22 +94,130 @@ export default function SettingsScreen({ visible, settingsManager, onClose }: Se
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [visible]);
 
+  // Once a save has been rejected, keep the error list current while the user fixes it
+  useEffect(() => {
+    if (settings && errors.length > 0) {
+      setErrors(SettingsManager.validateSettings(settings));
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [settings]);
+
   const loadSettings = async () => {
     const loadedSettings = await settingsManager.loadSettings();
     setSettings(loadedSettings);
+    setTimeZone(await timeZoneSettings.load());
+    setRoutineName(catalog.getRoutine(routineId)?.name ?? '');
     setHasChanges(false);
+    setErrors([]);
   };
 
   const handleSave = async () => {
     if (!settings) return;
 
+    const validationErrors = SettingsManager.validateSettings(settings);
+    setErrors(validationErrors);
+    if (validationErrors.length > 0) {
+      Alert.alert('Invalid Settings', validationErrors.map((error) => error.message).join('\n'));
+      return;
+    }
+
     try {
-      await settingsManager.saveSettings(settings);
+      if (routineName.trim() !== catalog.getRoutine(routineId)?.name) {
+        await catalog.renameRoutine(routineId, routineName);
+      }
+      if (!(await settingsManager.saveSettings(settings))) {
+        Alert.alert('Error', 'Failed to save settings. Please try again.');
+        return;
+      }
+      if (timeZone) {
+        await timeZoneSettings.save(timeZone);
+      }
       setHasChanges(false);
       Alert.alert('Success', 'Settings saved successfully!');
       onClose();
-    } catch {
-      Alert.alert('Error', 'Failed to save settings. Please try again.');
+    } catch (error) {
+      Alert.alert(
+        'Error',
+        error instanceof Error ? error.message : 'Failed to save settings. Please try again.'
+      );
+    }
+  };
+
+  const handleDeleteRoutine = () => {
+    Alert.alert('Delete Routine', `Remove the "${routineName}" routine?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await catalog.removeRoutine(routineId);
+            onClose();
+          } catch (error) {
+            Alert.alert(
+              'Error',
+              error instanceof Error ? error.message : 'Failed to delete the routine.'
+            );
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleBackup = async () => {
+    try {
+      await FileExport.share(await backupService.createExportFile(), 'Save Backup');
+    } catch (error) {
+      Alert.alert(
+        'Backup Failed',
+        error instanceof Error ? error.message : 'Could not create a backup.'
+      );
+    }
+  };
+
+  const handleRestore = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: 'application/json',
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled) return;
+
+      const archive = await backupService.readFromFile(result.assets[0].uri);
+      const created = DateUtils.formatDate(new Date(archive.createdAt));
+      Alert.alert(
+        'Restore Backup',
+        `Backup from ${created} with ${archive.photos.length} photos.\n\n` +
+          "Merge adds missing history, routines and photos and keeps this phone's settings. " +
+          "Replace erases this phone's data first.",
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Merge', onPress: () => restoreBackup(archive, 'merge') },
+          {
+            text: 'Replace',
+            style: 'destructive',
+            onPress: () => restoreBackup(archive, 'replace'),
+          },
+        ]
+      );
+    } catch (error) {
+      Alert.alert(
+        'Restore Failed',
+        error instanceof Error ? error.message : 'Could not read the backup.'
+      );
+    }
+  };
+
+  const restoreBackup = async (archive: BackupArchive, mode: RestoreMode) => {
+    try {
+      await backupService.restore(archive, mode);
+      Alert.alert('Restored', 'Your data has been restored.');
+      onDataRestored();
+    } catch (error) {
+      Alert.alert(
+        'Restore Failed',
+        error instanceof Error ? error.message : 'Could not restore the backup.'
+      );
     }
   };
 
@@ -102,6 +255,25 @@ export default function SettingsScreen({ visible, settingsManager, onClose }: Se
     setHasChanges(true);
   };
 
+  const toggleDayItem = (day: number, itemId: string) => {
+    if (!settings) return;
+
+    const allIds = itemRegistry.getItems().map((item) => item.id);
+    const current = settings.schedule[day].items ?? allIds;
+    const next = current.includes(itemId)
+      ? current.filter((id) => id !== itemId)
+      : allIds.filter((id) => id === itemId || current.includes(id));
+
+    // A day needs at least one item; turn the day off instead
+    if (next.length === 0) {
+      Alert.alert('No Items', 'Keep at least one item, or turn this day off.');
+      return;
+    }
+
+    // Selecting everything goes back to "all items", so new items are included
+    updateDaySchedule(day, { items: next.length === allIds.length ? undefined : next });
+  };
+
   const updateResetBehavior = (behavior: ResetBehavior) => {
     if (!settings) return;
 
@@ -122,6 +294,33 @@ export default function SettingsScreen({ visible, settingsManager, onClose }: Se
     setHasChanges(true);
   };
 
+  const updateStreakFreezeCap = (cap: number) => {
+    if (!settings) return;
+
+    setSettings({
+      ...settings,
+      streakFreezeCap: Math.max(0, Math.min(MAX_STREAK_FREEZE_CAP, cap)),
+    });
+    setHasChanges(true);
+  };
+
+  const updateHistoryRetention = (months?: number) => {
+    if (!settings) return;
+
+    setSettings({
+      ...settings,
+      historyRetentionMonths: months,
+    });
+    setHasChanges(true);
+  };
+
+  const updateTimeZone = (changes: Partial<TimeZonePreference>) => {
+    if (!timeZone) return;
+
+    setTimeZone({ ...timeZone, ...changes });
+    setHasChanges(true);
+  };
+
   const toggleLocking = (enabled: boolean) => {
     if (!settings) return;
 
@@ -175,6 +374,8 @@ export default function SettingsScreen({ visible, settingsManager, onClose }: Se
     return null;
   }
 
+  const freezeCap = settings.streakFreezeCap ?? DEFAULT_STREAK_FREEZE_CAP;
+
   return (
     <Modal
       visible={visible}
@@ -195,6 +396,40 @@ export default function SettingsScreen({ visible, settingsManager, onClose }: Se
         </View>
 
         <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+          {/* Validation Errors */}
+          {errors.length > 0 && (
+            <View style={styles.errorBox}>
+              <Text style={styles.errorTitle}>Fix before saving</Text>
+              {errors.map((error) => (
+                <Text key={error.field + error.message} style={styles.errorText}>
+                  • {error.message}
+                </Text>
+              ))}
+            </View>
+          )}
+
+          {/* Routine */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Routine</Text>
+            <View style={styles.settingRow}>
+              <TextInput
+                style={styles.nameInput}
+                value={routineName}
+                onChangeText={(name) => {
+                  setRoutineName(name);
+                  setHasChanges(true);
+                }}
+                placeholder="Routine name"
+                placeholderTextColor={Colors.terminal.gray}
+              />
+              {routineId !== DEFAULT_ROUTINE_ID && (
+                <TouchableOpacity onPress={handleDeleteRoutine}>
+                  <Text style={styles.deleteText}>Delete</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+
           {/* Global Locking Toggle */}
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Locking</Text>
@@ -214,15 +449,32 @@ export default function SettingsScreen({ visible, settingsManager, onClose }: Se
             </View>
           </View>
 
+          {/* Routine Items */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Routine Items</Text>
+            <TouchableOpacity style={styles.settingRow} onPress={() => setShowItemEditor(true)}>
+              <View style={styles.settingInfo}>
+                <Text style={styles.settingLabel}>Edit Items</Text>
+                <Text style={styles.settingDescription}>
+                  {itemRegistry.getItems().length} items · create, reorder or delete
+                </Text>
+              </View>
+              <Text style={styles.settingChevron}>›</Text>
+            </TouchableOpacity>
+          </View>
+
           {/* Schedule Configuration */}
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Schedule</Text>
             <Text style={styles.sectionDescription}>
-              Set active hours per day
+              Set active hours and items per day
             </Text>
 
             {DAY_NAMES.map((dayName, index) => {
               const schedule = settings.schedule[index];
+              const dayErrors = errors.filter((error) =>
+                error.field.startsWith(`schedule.${index}.`)
+              );
               return (
                 <View key={index} style={styles.dayCard}>
                   <View style={styles.dayHeader}>
@@ -249,16 +501,64 @@ export default function SettingsScreen({ visible, settingsManager, onClose }: Se
                         style={styles.timeGroup}
                         onPress={() => setShowTimePicker({ day: index, type: 'end' })}
                       >
-                        <Text style={styles.timeLabel}>End</Text>
+                        <Text style={styles.timeLabel}>
+                          {DateUtils.crossesMidnight(schedule.startTime, schedule.endTime)
+                            ? 'End (next day)'
+                            : 'End'}
+                        </Text>
                         <Text style={styles.timeValue}>{schedule.endTime}</Text>
                       </TouchableOpacity>
                     </View>
                   )}
+
+                  {dayErrors.map((error) => (
+                    <Text key={error.field + error.message} style={styles.errorText}>
+                      {error.message}
+                    </Text>
+                  ))}
+
+                  {schedule.enabled && (
+                    <View style={styles.dayItems}>
+                      {itemRegistry.getItems().map((item) => {
+                        const isIncluded = schedule.items?.includes(item.id) ?? true;
+                        return (
+                          <TouchableOpacity
+                            key={item.id}
+                            style={[styles.dayItemChip, isIncluded && styles.dayItemChipSelected]}
+                            onPress={() => toggleDayItem(index, item.id)}
+                          >
+                            <Text
+                              style={[
+                                styles.dayItemChipText,
+                                isIncluded && styles.dayItemChipTextSelected,
+                              ]}
+                            >
+                              {item.icon} {item.name}
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+                  )}
                 </View>
               );
             })}
           </View>
 
+          {/* Days Off (shared by every routine) */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Days Off</Text>
+            <TouchableOpacity style={styles.settingRow} onPress={() => setShowExceptions(true)}>
+              <View style={styles.settingInfo}>
+                <Text style={styles.settingLabel}>Vacations & Sick Days</Text>
+                <Text style={styles.settingDescription}>
+                  Pause all routines for dates without changing the schedule
+                </Text>
+              </View>
+              <Text style={styles.settingChevron}>›</Text>
+            </TouchableOpacity>
+          </View>
+
           {/* Reset Behavior */}
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Reset Time</Text>
@@ -324,8 +624,132 @@ export default function SettingsScreen({ visible, settingsManager, onClose }: Se
               </View>
             </View>
           </View>
+
+          {/* Streak Freezes */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Streak Freezes</Text>
+            <Text style={styles.sectionDescription}>
+              Earn one per {STREAK_FREEZE_INTERVAL}-day streak; each covers a missed day
+            </Text>
+
+            <View style={styles.sliderCard}>
+              <Text style={styles.sliderValue}>
+                {freezeCap === 0 ? 'Off' : `Keep up to ${freezeCap}`}
+              </Text>
+              <View style={styles.sliderButtons}>
+                <TouchableOpacity
+                  style={styles.sliderButton}
+                  onPress={() => updateStreakFreezeCap(freezeCap - 1)}
+                >
+                  <Text style={styles.sliderButtonText}>−</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.sliderButton}
+                  onPress={() => updateStreakFreezeCap(freezeCap + 1)}
+                >
+                  <Text style={styles.sliderButtonText}>+</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </View>
+
+          {/* History Retention */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>History</Text>
+            <Text style={styles.sectionDescription}>How long to keep past days</Text>
+
+            {HISTORY_RETENTION_OPTIONS.map((option) => {
+              const selected = settings.historyRetentionMonths === option.months;
+              return (
+                <TouchableOpacity
+                  key={option.label}
+                  style={[styles.optionCard, selected && styles.optionCardSelected]}
+                  onPress={() => updateHistoryRetention(option.months)}
+                >
+                  <View style={styles.radioButton}>
+                    {selected && <View style={styles.radioDot} />}
+                  </View>
+                  <View style={styles.optionInfo}>
+                    <Text style={styles.optionLabel}>{option.label}</Text>
+                  </View>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          {/* Time Zone (shared by every routine) */}
+          {timeZone && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Time Zone</Text>
+              <Text style={styles.sectionDescription}>Applies to all routines</Text>
+              <View style={styles.settingRow}>
+                <View style={styles.settingInfo}>
+                  <Text style={styles.settingLabel}>Follow Local Time</Text>
+                  <Text style={styles.settingDescription}>
+                    {timeZone.followLocalTime
+                      ? `Days follow the phone's zone (${DateUtils.getDeviceTimeZone()})`
+                      : `Days stay on ${timeZone.homeTimeZone} time while traveling`}
+                  </Text>
+                </View>
+                <Switch
+                  value={timeZone.followLocalTime}
+                  onValueChange={(followLocalTime) => updateTimeZone({ followLocalTime })}
+                  trackColor={{ false: Colors.terminal.gray, true: Colors.terminal.green }}
+                  thumbColor={Colors.terminal.brightGreen}
+                />
+              </View>
+              {!timeZone.followLocalTime &&
+                timeZone.homeTimeZone !== DateUtils.getDeviceTimeZone() && (
+                  <TouchableOpacity
+                    style={styles.settingRow}
+                    onPress={() => updateTimeZone({ homeTimeZone: DateUtils.getDeviceTimeZone() })}
+                  >
+                    <View style={styles.settingInfo}>
+                      <Text style={styles.settingLabel}>Set Home Here</Text>
+                      <Text style={styles.settingDescription}>
+                        Use {DateUtils.getDeviceTimeZone()} as the home time zone
+                      </Text>
+                    </View>
+                    <Text style={styles.settingChevron}>›</Text>
+                  </TouchableOpacity>
+                )}
+            </View>
+          )}
+
+          {/* Backup */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Data</Text>
+            <TouchableOpacity style={styles.settingRow} onPress={handleBackup}>
+              <View style={styles.settingInfo}>
+                <Text style={styles.settingLabel}>Back Up</Text>
+                <Text style={styles.settingDescription}>
+                  All routines, history, settings and photos in one file
+                </Text>
+              </View>
+              <Text style={styles.settingChevron}>›</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.settingRow} onPress={handleRestore}>
+              <View style={styles.settingInfo}>
+                <Text style={styles.settingLabel}>Restore</Text>
+                <Text style={styles.settingDescription}>Merge or replace from a backup file</Text>
+              </View>
+              <Text style={styles.settingChevron}>›</Text>
+            </TouchableOpacity>
+          </View>
         </ScrollView>
 
+        <RoutineItemsScreen
+          visible={showItemEditor}
+          itemRegistry={itemRegistry}
+          onClose={() => setShowItemEditor(false)}
+        />
+
+        <ScheduleExceptionsScreen
+          visible={showExceptions}
+          exceptions={exceptions}
+          onClose={() => setShowExceptions(false)}
+        />
+
         {/* Time Picker */}
         {showTimePicker && settings && (
           <>
@@ -454,6 +878,36 @@ const styles = StyleSheet.create({
     flex: 1,
     marginRight: Spacing.md,
   },
+  nameInput: {
+    flex: 1,
+    fontSize: FontSizes.base,
+    color: Colors.terminal.green,
+    padding: 0,
+    marginRight: Spacing.sm,
+  },
+  errorBox: {
+    borderWidth: 1,
+    borderColor: Colors.terminal.red,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    marginBottom: Spacing.lg,
+  },
+  errorTitle: {
+    fontSize: FontSizes.sm,
+    fontWeight: FontWeights.bold,
+    color: Colors.terminal.red,
+    marginBottom: Spacing.xs,
+  },
+  errorText: {
+    fontSize: FontSizes.xs,
+    color: Colors.terminal.red,
+    marginTop: Spacing.xs,
+  },
+  deleteText: {
+    fontSize: FontSizes.sm,
+    fontWeight: FontWeights.semibold,
+    color: Colors.terminal.red,
+  },
   settingLabel: {
     fontSize: FontSizes.sm,
     fontWeight: FontWeights.semibold,
@@ -465,6 +919,10 @@ const styles = StyleSheet.create({
     color: Colors.terminal.cyan,
     lineHeight: 16,
   },
+  settingChevron: {
+    fontSize: FontSizes.xl,
+    color: Colors.terminal.cyan,
+  },
   dayCard: {
     backgroundColor: Colors.terminal.darkGray,
     borderWidth: 1,
@@ -491,6 +949,29 @@ const styles = StyleSheet.create({
     borderTopWidth: 1,
     borderTopColor: Colors.terminal.gray,
   },
+  dayItems: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.xs,
+    marginTop: Spacing.md,
+  },
+  dayItemChip: {
+    borderWidth: 1,
+    borderColor: Colors.terminal.gray,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+  },
+  dayItemChipSelected: {
+    borderColor: Colors.terminal.green,
+  },
+  dayItemChipText: {
+    fontSize: FontSizes.xs,
+    color: Colors.terminal.gray,
+  },
+  dayItemChipTextSelected: {
+    color: Colors.terminal.green,
+  },
   timeGroup: {
     flex: 1,
     borderWidth: 1,
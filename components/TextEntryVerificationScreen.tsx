@@ -0,0 +1,132 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, TextInput } from 'react-native';
+import { VerificationScreenProps } from '../types/Verification';
+import { Colors, Spacing, BorderRadius, FontSizes, FontWeights } from '../constants/theme';
+
+export default function TextEntryVerificationScreen({
+  visible,
+  item,
+  onClose,
+  onVerified,
+}: VerificationScreenProps) {
+  const [text, setText] = useState('');
+  const minLength = item.verificationConfig?.minLength ?? 1;
+  const prompt = item.verificationConfig?.prompt || item.description || 'Write a short note';
+  const canSubmit = text.trim().length >= minLength;
+
+  useEffect(() => {
+    if (visible) {
+      setText('');
+    }
+  }, [visible]);
+
+  const handleSubmit = () => {
+    if (!canSubmit) return;
+
+    onVerified({ kind: 'text-entry', verifiedAt: Date.now(), text: text.trim() });
+    onClose();
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>
+            {item.icon} {item.name}
+          </Text>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Text style={styles.closeButtonText}>×</Text>
+          </TouchableOpacity>
+        </View>
+
+        <Text style={styles.prompt}>{prompt}</Text>
+        <TextInput
+          style={styles.input}
+          value={text}
+          onChangeText={setText}
+          multiline
+          autoFocus
+          placeholderTextColor={Colors.terminal.gray}
+          placeholder="Type here..."
+        />
+        <Text style={styles.counter}>
+          {text.trim().length} / {minLength} characters minimum
+        </Text>
+
+        <TouchableOpacity
+          style={[styles.button, !canSubmit && styles.buttonDisabled]}
+          onPress={handleSubmit}
+          disabled={!canSubmit}
+        >
+          <Text style={styles.buttonText}>Submit</Text>
+        </TouchableOpacity>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background.primary,
+    padding: Spacing.lg,
+    paddingTop: 60,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: Spacing.lg,
+  },
+  title: {
+    fontSize: FontSizes.xl,
+    fontWeight: FontWeights.bold,
+    color: Colors.terminal.green,
+    flex: 1,
+  },
+  closeButton: {
+    padding: Spacing.sm,
+  },
+  closeButtonText: {
+    fontSize: 28,
+    color: Colors.terminal.cyan,
+  },
+  prompt: {
+    fontSize: FontSizes.base,
+    color: Colors.terminal.cyan,
+    marginBottom: Spacing.md,
+  },
+  input: {
+    minHeight: 140,
+    borderWidth: 1,
+    borderColor: Colors.terminal.gray,
+    borderRadius: BorderRadius.sm,
+    backgroundColor: Colors.terminal.darkGray,
+    color: Colors.terminal.green,
+    fontSize: FontSizes.base,
+    padding: Spacing.md,
+    textAlignVertical: 'top',
+  },
+  counter: {
+    fontSize: FontSizes.xs,
+    color: Colors.terminal.cyan,
+    marginTop: Spacing.xs,
+    marginBottom: Spacing.lg,
+  },
+  button: {
+    borderWidth: 1,
+    borderColor: Colors.terminal.gray,
+    borderRadius: BorderRadius.sm,
+    backgroundColor: Colors.terminal.darkGray,
+    paddingVertical: Spacing.md,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+  buttonText: {
+    fontSize: FontSizes.base,
+    fontWeight: FontWeights.semibold,
+    color: Colors.terminal.green,
+  },
+});
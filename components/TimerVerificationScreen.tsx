@@ -0,0 +1,167 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal } from 'react-native';
+import { VerificationScreenProps } from '../types/Verification';
+import { Colors, Spacing, BorderRadius, FontSizes, FontWeights } from '../constants/theme';
+
+const DEFAULT_DURATION_SECONDS = 60;
+
+export default function TimerVerificationScreen({
+  visible,
+  item,
+  onClose,
+  onVerified,
+}: VerificationScreenProps) {
+  const durationMs = (item.verificationConfig?.durationSeconds ?? DEFAULT_DURATION_SECONDS) * 1000;
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const [isRunning, setIsRunning] = useState(false);
+  const lastTickRef = useRef<number | null>(null);
+
+  // Reset whenever the screen is opened
+  useEffect(() => {
+    if (visible) {
+      setElapsedMs(0);
+      setIsRunning(false);
+    }
+  }, [visible]);
+
+  useEffect(() => {
+    if (!isRunning) {
+      lastTickRef.current = null;
+      return;
+    }
+
+    lastTickRef.current = Date.now();
+    const interval = setInterval(() => {
+      const now = Date.now();
+      const delta = now - (lastTickRef.current ?? now);
+      lastTickRef.current = now;
+      setElapsedMs((prev) => Math.min(durationMs, prev + delta));
+    }, 250);
+
+    return () => clearInterval(interval);
+  }, [isRunning, durationMs]);
+
+  // Finish once the full duration has elapsed
+  useEffect(() => {
+    if (isRunning && elapsedMs >= durationMs) {
+      setIsRunning(false);
+      onVerified({ kind: 'timer', verifiedAt: Date.now(), durationMs: elapsedMs });
+      onClose();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [elapsedMs, durationMs, isRunning]);
+
+  const formatRemaining = (ms: number): string => {
+    const totalSeconds = Math.ceil(ms / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  };
+
+  const handleClose = () => {
+    setIsRunning(false);
+    onClose();
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={handleClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>
+            {item.icon} {item.name}
+          </Text>
+          <TouchableOpacity onPress={handleClose} style={styles.closeButton}>
+            <Text style={styles.closeButtonText}>×</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.timerCard}>
+          <Text style={styles.timerLabel}>Time remaining</Text>
+          <Text style={styles.timerText}>{formatRemaining(durationMs - elapsedMs)}</Text>
+          <View style={styles.progressBarContainer}>
+            <View style={[styles.progressBar, { width: `${(elapsedMs / durationMs) * 100}%` }]} />
+          </View>
+        </View>
+
+        <TouchableOpacity style={styles.button} onPress={() => setIsRunning(!isRunning)}>
+          <Text style={styles.buttonText}>
+            {isRunning ? 'Pause' : elapsedMs > 0 ? 'Resume' : 'Start Timer'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background.primary,
+    padding: Spacing.lg,
+    paddingTop: 60,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: Spacing.xl,
+  },
+  title: {
+    fontSize: FontSizes.xl,
+    fontWeight: FontWeights.bold,
+    color: Colors.terminal.green,
+    flex: 1,
+  },
+  closeButton: {
+    padding: Spacing.sm,
+  },
+  closeButtonText: {
+    fontSize: 28,
+    color: Colors.terminal.cyan,
+  },
+  timerCard: {
+    borderWidth: 1,
+    borderColor: Colors.terminal.gray,
+    borderRadius: BorderRadius.sm,
+    backgroundColor: Colors.terminal.darkGray,
+    padding: Spacing.lg,
+    alignItems: 'center',
+    marginBottom: Spacing.lg,
+  },
+  timerLabel: {
+    fontSize: FontSizes.sm,
+    color: Colors.terminal.cyan,
+    marginBottom: Spacing.sm,
+  },
+  timerText: {
+    fontSize: FontSizes.display,
+    fontWeight: FontWeights.bold,
+    color: Colors.terminal.green,
+    fontVariant: ['tabular-nums'],
+    marginBottom: Spacing.md,
+  },
+  progressBarContainer: {
+    height: 6,
+    alignSelf: 'stretch',
+    backgroundColor: Colors.terminal.gray,
+    borderRadius: 3,
+    overflow: 'hidden',
+  },
+  progressBar: {
+    height: '100%',
+    backgroundColor: Colors.terminal.green,
+  },
+  button: {
+    borderWidth: 1,
+    borderColor: Colors.terminal.gray,
+    borderRadius: BorderRadius.sm,
+    backgroundColor: Colors.terminal.darkGray,
+    paddingVertical: Spacing.md,
+    alignItems: 'center',
+  },
+  buttonText: {
+    fontSize: FontSizes.base,
+    fontWeight: FontWeights.semibold,
+    color: Colors.terminal.green,
+  },
+});
@@ -0,0 +1,71 @@
+import React, { ComponentType } from 'react';
+import PhotoCaptureScreen from './PhotoCaptureScreen';
+import PushupTrackingScreen from './PushupTrackingScreen';
+import TimerVerificationScreen from './TimerVerificationScreen';
+import TextEntryVerificationScreen from './TextEntryVerificationScreen';
+import {
+  VerificationRegistry,
+  BUILT_IN_VERIFICATION_STRATEGIES,
+} from '../services/VerificationRegistry';
+import { VerificationScreenProps } from '../types/Verification';
+
+function PhotoVerificationScreen({
+  visible,
+  item,
+  storage,
+  onClose,
+  onVerified,
+}: VerificationScreenProps) {
+  return (
+    <PhotoCaptureScreen
+      visible={visible}
+      routineItem={item.id}
+      title={item.name}
+      storage={storage}
+      onClose={onClose}
+      onPhotoTaken={(photo) =>
+        onVerified({ kind: 'photo', verifiedAt: photo.timestamp, photoUri: photo.uri })
+      }
+    />
+  );
+}
+
+function MotionRepsVerificationScreen({
+  visible,
+  item,
+  onClose,
+  onVerified,
+}: VerificationScreenProps) {
+  const targetCount = item.verificationConfig?.targetReps ?? 20;
+
+  return (
+    <PushupTrackingScreen
+      key={`${item.id}-${targetCount}`}
+      visible={visible}
+      targetCount={targetCount}
+      onClose={onClose}
+      onComplete={() =>
+        onVerified({ kind: 'motion-reps', verifiedAt: Date.now(), reps: targetCount })
+      }
+    />
+  );
+}
+
+const BUILT_IN_SCREENS: Record<string, ComponentType<VerificationScreenProps>> = {
+  photo: PhotoVerificationScreen,
+  'motion-reps': MotionRepsVerificationScreen,
+  timer: TimerVerificationScreen,
+  'text-entry': TextEntryVerificationScreen,
+};
+
+/**
+ * App-wide verification registry
+ * Register new kinds here (or via verificationRegistry.register) - the checklist
+ * resolves screens and completion rules from it without knowing the kinds
+ */
+export const verificationRegistry = new VerificationRegistry(
+  BUILT_IN_VERIFICATION_STRATEGIES.map((strategy) => ({
+    ...strategy,
+    screen: BUILT_IN_SCREENS[strategy.kind],
+  }))
+);
@@ -0,0 +1,218 @@
+import { BackupArchive, BackupFiles, BackupService } from './BackupService';
+import { MemoryStorageBackend, StorageAdapter } from './Storage';
+import { CURRENT_SCHEMA_VERSION } from './Migrations';
+import { DailyRecord } from './HistoryManager';
+
+class MemoryBackupFiles implements BackupFiles {
+  photos = new Map<string, string>();
+
+  constructor(private directory: string) {}
+
+  async listPhotos() {
+    return [...this.photos.keys()];
+  }
+  async readPhoto(name: string) {
+    return this.photos.get(name) ?? '';
+  }
+  async writePhoto(name: string, base64: string) {
+    this.photos.set(name, base64);
+  }
+  async deletePhoto(name: string) {
+    this.photos.delete(name);
+  }
+  async getPhotoUri(name: string) {
+    return `${this.directory}${name}`;
+  }
+  async readFile() {
+    return '';
+  }
+}
+
+function record(date: string, outcome: DailyRecord['outcome']): DailyRecord {
+  return {
+    date,
+    completedItems: [],
+    startedAt: 0,
+    completedAt: 0,
+    totalTime: 0,
+    wasLocked: false,
+    outcome,
+  };
+}
+
+describe('BackupService', () => {
+  let oldBackend: MemoryStorageBackend;
+  let oldFiles: MemoryBackupFiles;
+  let archive: BackupArchive;
+
+  beforeEach(async () => {
+    oldBackend = new MemoryStorageBackend({
+      schemaVersion: String(CURRENT_SCHEMA_VERSION),
+      routineCatalog: JSON.stringify([
+        { id: 'morning', name: 'Morning' },
+        { id: 'evening', name: 'Evening' },
+      ]),
+      historyMonths: JSON.stringify(['2025-01']),
+      'historyMonth/2025-01': JSON.stringify([
+        record('2025-01-21', 'complete'),
+        record('2025-01-20', 'complete'),
+      ]),
+      streakData: JSON.stringify({ currentStreak: 2 }),
+      lockingState: JSON.stringify({ isLocked: true }),
+      scheduleExceptions: JSON.stringify([
+        { id: 'trip', kind: 'vacation', startDate: '2025-01-10', endDate: '2025-01-14' },
+      ]),
+      photoVerificationRecords: JSON.stringify([
+        { uri: 'old-phone/routine-photos/bed_1.jpg', timestamp: 1, routineItem: 'make_bed' },
+      ]),
+    });
+    oldFiles = new MemoryBackupFiles('old-phone/routine-photos/');
+    oldFiles.photos.set('bed_1.jpg', 'cGhvdG8=');
+
+    const service = new BackupService(new StorageAdapter(oldBackend), oldFiles);
+    archive = BackupService.parseArchive((await service.createExportFile()).contents);
+  });
+
+  describe('createArchive', () => {
+    it('should bundle stored data and photos', () => {
+      expect(archive.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+      expect(Object.keys(archive.data)).toEqual(
+        expect.arrayContaining(['routineCatalog', 'historyMonth/2025-01', 'scheduleExceptions'])
+      );
+      expect(archive.photos).toEqual([{ name: 'bed_1.jpg', base64: 'cGhvdG8=' }]);
+    });
+
+    it('should leave out the lock state', () => {
+      expect(archive.data.lockingState).toBeUndefined();
+    });
+  });
+
+  describe('parseArchive', () => {
+    it('should reject files that are not backups', () => {
+      expect(() => BackupService.parseArchive('hello')).toThrow('Not a backup file');
+      expect(() => BackupService.parseArchive('{"format":"other"}')).toThrow('Not a backup file');
+    });
+
+    it('should reject backups from a newer schema', () => {
+      const newer = { ...archive, schemaVersion: CURRENT_SCHEMA_VERSION + 1 };
+
+      expect(() => BackupService.parseArchive(JSON.stringify(newer))).toThrow(
+        'Backup was made by a newer version of the app'
+      );
+    });
+
+    it('should reject corrupted data and unsafe photo names', () => {
+      const badData = { ...archive, data: { appSettings: 42 } };
+      const badPhoto = { ...archive, photos: [{ name: '../escape.jpg', base64: '' }] };
+
+      expect(() => BackupService.parseArchive(JSON.stringify(badData))).toThrow(
+        'Backup data is corrupted'
+      );
+      expect(() => BackupService.parseArchive(JSON.stringify(badPhoto))).toThrow(
+        'Backup photos are corrupted'
+      );
+    });
+  });
+
+  describe('restore', () => {
+    let backend: MemoryStorageBackend;
+    let files: MemoryBackupFiles;
+    let service: BackupService;
+
+    beforeEach(() => {
+      backend = new MemoryStorageBackend({
+        schemaVersion: String(CURRENT_SCHEMA_VERSION),
+        appSettings: JSON.stringify({ lockingEnabled: false }),
+        historyMonths: JSON.stringify(['2025-01']),
+        'historyMonth/2025-01': JSON.stringify([
+          record('2025-01-22', 'complete'),
+          record('2025-01-21', 'partial'),
+        ]),
+        streakData: JSON.stringify({ currentStreak: 1 }),
+        scheduleExceptions: JSON.stringify([
+          { id: 'new-year', kind: 'holiday', startDate: '2025-01-01', endDate: '2025-01-01' },
+        ]),
+      });
+      files = new MemoryBackupFiles('new-phone/routine-photos/');
+      files.photos.set('local.jpg', 'bG9jYWw=');
+      service = new BackupService(new StorageAdapter(backend), files);
+    });
+
+    const read = (key: string) => JSON.parse(backend.dump()[key]);
+
+    it('should replace all data and photos', async () => {
+      await service.restore(archive, 'replace');
+
+      expect(read('historyMonth/2025-01').map((r: DailyRecord) => r.date)).toEqual([
+        '2025-01-21',
+        '2025-01-20',
+      ]);
+      expect(backend.dump().appSettings).toBeUndefined();
+      expect([...files.photos.keys()]).toEqual(['bed_1.jpg']);
+    });
+
+    it('should leave data and photos untouched when a photo cannot be written', async () => {
+      const before = backend.dump();
+      jest.spyOn(files, 'writePhoto').mockRejectedValue(new Error('Disk full'));
+
+      await expect(service.restore(archive, 'replace')).rejects.toThrow('Disk full');
+
+      expect(backend.dump()).toEqual(before);
+      expect([...files.photos.keys()]).toEqual(['local.jpg']);
+    });
+
+    it('should point photo records at this device', async () => {
+      await service.restore(archive, 'replace');
+
+      expect(read('photoVerificationRecords')[0].uri).toBe('new-phone/routine-photos/bed_1.jpg');
+    });
+
+    it('should merge histories keeping the better outcome', async () => {
+      await service.restore(archive, 'merge');
+
+      expect(read('historyMonth/2025-01').map((r: DailyRecord) => [r.date, r.outcome])).toEqual([
+        ['2025-01-22', 'complete'],
+        ['2025-01-21', 'complete'],
+        ['2025-01-20', 'complete'],
+      ]);
+      expect(backend.dump().streakData).toBeUndefined();
+    });
+
+    it('should keep this device settings and add missing data when merging', async () => {
+      await service.restore(archive, 'merge');
+
+      expect(read('appSettings')).toEqual({ lockingEnabled: false });
+      expect(read('routineCatalog').map((r: { id: string }) => r.id)).toEqual([
+        'morning',
+        'evening',
+      ]);
+      expect([...files.photos.keys()].sort()).toEqual(['bed_1.jpg', 'local.jpg']);
+    });
+
+    it('should combine days off when merging', async () => {
+      await service.restore(archive, 'merge');
+
+      expect(read('scheduleExceptions').map((e: { id: string }) => e.id)).toEqual([
+        'trip',
+        'new-year',
+      ]);
+    });
+
+    it('should upgrade older backups before restoring', async () => {
+      const legacy: BackupArchive = {
+        ...archive,
+        schemaVersion: 0,
+        data: {
+          dailyCompletionHistory: JSON.stringify([
+            { date: '2025-01-19', completedItems: [], startedAt: 0, completedAt: 0, totalTime: 0 },
+          ]),
+        },
+      };
+
+      await service.restore(legacy, 'replace');
+
+      expect(read('historyMonth/2025-01')[0].outcome).toBe('complete');
+      expect(read('schemaVersion')).toBe(CURRENT_SCHEMA_VERSION);
+    });
+  });
+});
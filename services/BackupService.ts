@@ -0,0 +1,368 @@
+import { StorageAdapter, MemoryStorageBackend } from './Storage';
+import { STORAGE_KEYS } from './StorageKeys';
+import { CURRENT_SCHEMA_VERSION, MigrationRunner } from './Migrations';
+import { HistoryManager, DailyRecord } from './HistoryManager';
+import { DEFAULT_ROUTINE_ID, RoutineDefinition } from './RoutineCatalog';
+import { EventJournal, JournalEvent } from './EventJournal';
+import { ScheduleException, ScheduleExceptions } from './ScheduleExceptions';
+import type { PhotoRecord } from './PhotoVerification';
+import { DateUtils } from './DateUtils';
+import { ExportFile } from './FileExport';
+
+const BACKUP_FORMAT = 'morning-routine-backup';
+const BACKUP_VERSION = 1;
+
+export interface BackupPhoto {
+  name: string; // File name inside routine-photos/
+  base64: string;
+}
+
+/**
+ * Everything needed to rebuild the app's data on another device
+ */
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number; // Archive layout version
+  schemaVersion: number; // Schema version of the stored data
+  createdAt: number;
+  data: Record<string, string>; // Raw storage values by key
+  photos: BackupPhoto[];
+}
+
+/**
+ * - merge: keep this device's data and add what it is missing from the backup
+ * - replace: wipe this device's data and use the backup's
+ */
+export type RestoreMode = 'merge' | 'replace';
+
+/**
+ * File access the backup needs: the photo directory and the backup file to restore
+ */
+export interface BackupFiles {
+  listPhotos(): Promise<string[]>;
+  readPhoto(name: string): Promise<string>; // base64
+  writePhoto(name: string, base64: string): Promise<void>;
+  deletePhoto(name: string): Promise<void>;
+  getPhotoUri(name: string): Promise<string>;
+  readFile(uri: string): Promise<string>;
+}
+
+/**
+ * Backup files on the device, using the same routine-photos/ directory as PhotoVerification
+ */
+export class ExpoBackupFiles implements BackupFiles {
+  private async getFileSystem() {
+    return import('expo-file-system/legacy');
+  }
+
+  private async getPhotosDirectory(): Promise<string> {
+    const FS = await this.getFileSystem();
+    if (!FS.documentDirectory) {
+      throw new Error('FileSystem not available');
+    }
+    return `${FS.documentDirectory}routine-photos/`;
+  }
+
+  async listPhotos(): Promise<string[]> {
+    const FS = await this.getFileSystem();
+    const dir = await this.getPhotosDirectory();
+    const info = await FS.getInfoAsync(dir);
+    return info.exists ? FS.readDirectoryAsync(dir) : [];
+  }
+
+  async readPhoto(name: string): Promise<string> {
+    const FS = await this.getFileSystem();
+    return FS.readAsStringAsync(await this.getPhotoUri(name), {
+      encoding: FS.EncodingType.Base64,
+    });
+  }
+
+  async writePhoto(name: string, base64: string): Promise<void> {
+    const FS = await this.getFileSystem();
+    await FS.makeDirectoryAsync(await this.getPhotosDirectory(), { intermediates: true });
+    await FS.writeAsStringAsync(await this.getPhotoUri(name), base64, {
+      encoding: FS.EncodingType.Base64,
+    });
+  }
+
+  async deletePhoto(name: string): Promise<void> {
+    const FS = await this.getFileSystem();
+    await FS.deleteAsync(await this.getPhotoUri(name), { idempotent: true });
+  }
+
+  async getPhotoUri(name: string): Promise<string> {
+    return `${await this.getPhotosDirectory()}${name}`;
+  }
+
+  async readFile(uri: string): Promise<string> {
+    const FS = await this.getFileSystem();
+    return FS.readAsStringAsync(uri);
+  }
+}
+
+/**
+ * Lock state is left out of backups so restoring never locks the new device,
+ * and unfinished transactions are recovered on this device rather than copied
+ */
+function isBackedUp(key: string): boolean {
+  return (
+    getBaseKey(key) !== STORAGE_KEYS.locking.state &&
+    !key.startsWith(`${STORAGE_KEYS.meta.pendingWrite}/`)
+  );
+}
+
+/**
+ * Storage key without its routine suffix
+ */
+function getBaseKey(key: string): string {
+  return key.split(':')[0];
+}
+
+function getFileName(uri: string): string {
+  return uri.slice(uri.lastIndexOf('/') + 1);
+}
+
+export class BackupService {
+  private storage: StorageAdapter;
+  private files: BackupFiles;
+
+  constructor(
+    storage: StorageAdapter = new StorageAdapter(),
+    files: BackupFiles = new ExpoBackupFiles()
+  ) {
+    this.storage = storage;
+    this.files = files;
+  }
+
+  /**
+   * Bundle every stored value and photo
+   */
+  async createArchive(): Promise<BackupArchive> {
+    const data: Record<string, string> = {};
+    for (const key of await this.storage.getAllKeys()) {
+      const value = await this.storage.getRaw(key);
+      if (value !== null && isBackedUp(key)) {
+        data[key] = value;
+      }
+    }
+
+    const photos: BackupPhoto[] = [];
+    for (const name of await this.files.listPhotos()) {
+      photos.push({ name, base64: await this.files.readPhoto(name) });
+    }
+
+    return {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      schemaVersion: await new MigrationRunner(this.storage).getVersion(),
+      createdAt: Date.now(),
+      data,
+      photos,
+    };
+  }
+
+  /**
+   * Build a backup file ready for FileExport
+   */
+  async createExportFile(): Promise<ExportFile> {
+    const archive = await this.createArchive();
+    return {
+      fileName: `morning-routine-backup-${DateUtils.getTodayISO()}.json`,
+      contents: JSON.stringify(archive),
+      mimeType: 'application/json',
+      uti: 'public.json',
+    };
+  }
+
+  /**
+   * Read and validate a backup file
+   */
+  async readFromFile(uri: string): Promise<BackupArchive> {
+    return BackupService.parseArchive(await this.files.readFile(uri));
+  }
+
+  /**
+   * Parse a backup, throwing if it isn't one this version of the app can restore
+   */
+  static parseArchive(contents: string): BackupArchive {
+    let archive: BackupArchive;
+    try {
+      archive = JSON.parse(contents);
+    } catch {
+      throw new Error('Not a backup file');
+    }
+
+    if (typeof archive !== 'object' || archive === null || archive.format !== BACKUP_FORMAT) {
+      throw new Error('Not a backup file');
+    }
+    if (archive.version !== BACKUP_VERSION) {
+      throw new Error(`Unsupported backup version: ${archive.version}`);
+    }
+    if (!Number.isInteger(archive.schemaVersion) || archive.schemaVersion < 0) {
+      throw new Error('Backup is missing its schema version');
+    }
+    if (archive.schemaVersion > CURRENT_SCHEMA_VERSION) {
+      throw new Error('Backup was made by a newer version of the app');
+    }
+
+    const data = archive.data;
+    if (
+      typeof data !== 'object' ||
+      data === null ||
+      Object.values(data).some((value) => typeof value !== 'string')
+    ) {
+      throw new Error('Backup data is corrupted');
+    }
+    if (
+      !Array.isArray(archive.photos) ||
+      !archive.photos.every(
+        (photo) =>
+          typeof photo?.name === 'string' &&
+          /^[\w.-]+$/.test(photo.name) &&
+          typeof photo.base64 === 'string'
+      )
+    ) {
+      throw new Error('Backup photos are corrupted');
+    }
+
+    return archive;
+  }
+
+  /**
+   * Restore a backup
+   * The backup is migrated to the current schema first, and photo records are pointed at
+   * this device's photo directory. Photos are written first and the data is applied in one
+   * transaction, so a failed restore leaves this device as it was; photos a replace drops
+   * are only deleted once the new data is in. Services must reload their data afterwards.
+   */
+  async restore(archive: BackupArchive, mode: RestoreMode): Promise<void> {
+    const incoming = await this.prepareIncoming(archive);
+
+    // Streaks are recalculated from the restored history
+    const changes = new Map<string, unknown>();
+    for (const key of await this.storage.getAllKeys()) {
+      if (mode === 'replace' || getBaseKey(key) === STORAGE_KEYS.history.streak) {
+        changes.set(key, undefined);
+      }
+    }
+    for (const key of await incoming.getAllKeys()) {
+      const value = await this.getRestoredValue(key, incoming, mode);
+      if (value !== undefined) {
+        changes.set(key, value);
+      }
+    }
+
+    const existingPhotos = await this.files.listPhotos();
+    for (const photo of archive.photos) {
+      if (mode === 'replace' || !existingPhotos.includes(photo.name)) {
+        await this.files.writePhoto(photo.name, photo.base64);
+      }
+    }
+
+    await this.storage.transaction([...changes].map(([key, value]) => ({ key, value })));
+
+    if (mode === 'replace') {
+      const restored = new Set(archive.photos.map((photo) => photo.name));
+      for (const name of existingPhotos.filter((name) => !restored.has(name))) {
+        await this.files.deletePhoto(name);
+      }
+    }
+  }
+
+  /**
+   * Load the archive into memory and bring it up to this device's schema
+   */
+  private async prepareIncoming(archive: BackupArchive): Promise<StorageAdapter> {
+    const incoming = new StorageAdapter(
+      new MemoryStorageBackend({
+        ...archive.data,
+        [STORAGE_KEYS.meta.schemaVersion]: JSON.stringify(archive.schemaVersion),
+      })
+    );
+
+    const version = await new MigrationRunner(incoming).run();
+    if (version !== CURRENT_SCHEMA_VERSION) {
+      throw new Error('Backup could not be upgraded to the current format');
+    }
+
+    const photoNames = new Set(archive.photos.map((photo) => photo.name));
+    const records = await incoming.getJSON<PhotoRecord[]>(STORAGE_KEYS.photos.records);
+    if (records) {
+      const moved: PhotoRecord[] = [];
+      for (const record of records) {
+        const name = getFileName(record.uri);
+        moved.push(
+          photoNames.has(name) ? { ...record, uri: await this.files.getPhotoUri(name) } : record
+        );
+      }
+      await incoming.setJSON(STORAGE_KEYS.photos.records, moved);
+    }
+
+    return incoming;
+  }
+
+  /**
+   * The value a key should hold after the restore, or undefined to leave this device's copy
+   */
+  private async getRestoredValue(
+    key: string,
+    incoming: StorageAdapter,
+    mode: RestoreMode
+  ): Promise<unknown> {
+    const value = await incoming.getRaw(key);
+    if (value === null || !isBackedUp(key) || getBaseKey(key) === STORAGE_KEYS.history.streak) {
+      return undefined;
+    }
+
+    const current = mode === 'merge' ? await this.storage.getRaw(key) : null;
+    if (current === null) {
+      return JSON.parse(value);
+    }
+
+    const baseKey = getBaseKey(key);
+    if (baseKey.startsWith(`${STORAGE_KEYS.history.month}/`)) {
+      return HistoryManager.mergeHistories(
+        JSON.parse(current) as DailyRecord[],
+        JSON.parse(value) as DailyRecord[]
+      );
+    }
+    if (baseKey.startsWith(`${STORAGE_KEYS.journal.day}/`)) {
+      return EventJournal.mergeEvents(
+        JSON.parse(current) as JournalEvent[],
+        JSON.parse(value) as JournalEvent[]
+      );
+    }
+
+    switch (baseKey) {
+      case STORAGE_KEYS.history.months:
+      case STORAGE_KEYS.journal.days: {
+        const partitions = new Set([...JSON.parse(current), ...JSON.parse(value)] as string[]);
+        return [...partitions].sort().reverse();
+      }
+      case STORAGE_KEYS.catalog.routines: {
+        const routines = JSON.parse(current) as RoutineDefinition[];
+        const ids = new Set(routines.map((routine) => routine.id));
+        const added = (JSON.parse(value) as RoutineDefinition[]).filter(
+          (routine) => routine.id !== DEFAULT_ROUTINE_ID && !ids.has(routine.id)
+        );
+        return [...routines, ...added];
+      }
+      case STORAGE_KEYS.exceptions.list:
+        return ScheduleExceptions.mergeExceptions(
+          JSON.parse(current) as ScheduleException[],
+          JSON.parse(value) as ScheduleException[]
+        );
+      case STORAGE_KEYS.photos.records: {
+        const records = JSON.parse(current) as PhotoRecord[];
+        const uris = new Set(records.map((record) => record.uri));
+        const added = (JSON.parse(value) as PhotoRecord[]).filter(
+          (record) => !uris.has(record.uri)
+        );
+        return [...records, ...added];
+      }
+      default:
+        // Settings, items and today's progress: this device's copy wins
+        return undefined;
+    }
+  }
+}
@@ -0,0 +1,131 @@
+import { CalendarExporter } from './CalendarExporter';
+import { HistoryManager, DailyRecord } from './HistoryManager';
+import { MemoryStorageBackend, StorageAdapter } from './Storage';
+
+const RECORDS: DailyRecord[] = [
+  {
+    date: '2025-01-22',
+    completedItems: [],
+    startedAt: 0,
+    completedAt: 0,
+    totalTime: 0,
+    wasLocked: false,
+    outcome: 'missed',
+  },
+  {
+    date: '2025-01-21',
+    completedItems: ['water', 'coffee'],
+    startedAt: Date.UTC(2025, 0, 21, 7, 0),
+    completedAt: Date.UTC(2025, 0, 21, 7, 25),
+    totalTime: 25 * 60000,
+    wasLocked: true,
+    outcome: 'complete',
+    bonusItems: ['stretch'],
+  },
+  {
+    date: '2025-01-20',
+    completedItems: ['water'],
+    startedAt: Date.UTC(2025, 0, 20, 7, 0),
+    completedAt: Date.UTC(2025, 0, 20, 23, 59),
+    totalTime: 0,
+    wasLocked: false,
+    outcome: 'partial',
+  },
+];
+
+const NAMES: Record<string, string> = {
+  water: 'Water; 2 glasses',
+  coffee: 'Coffee',
+  stretch: 'Stretch',
+};
+
+describe('CalendarExporter', () => {
+  let exporter: CalendarExporter;
+
+  beforeEach(async () => {
+    const historyManager = new HistoryManager(
+      'morning',
+      new StorageAdapter(new MemoryStorageBackend())
+    );
+    for (const record of RECORDS) {
+      await historyManager.recordOutcome(record);
+    }
+    exporter = new CalendarExporter(historyManager, (id) => NAMES[id] ?? id);
+  });
+
+  const unfold = (contents: string) => contents.replace(/\r\n /g, '').split('\r\n');
+
+  describe('export', () => {
+    it('should turn completed routines into timed events', async () => {
+      const file = await exporter.export('2025-01-01', '2025-01-31');
+      const lines = unfold(file.contents);
+
+      expect(file.fileName).toBe('morning-routine-2025-01-01-to-2025-01-31.ics');
+      expect(file.mimeType).toBe('text/calendar');
+      expect(lines[0]).toBe('BEGIN:VCALENDAR');
+      expect(lines).toContain('UID:2025-01-21-morning@morning-routine');
+      expect(lines).toContain('DTSTART:20250121T070000Z');
+      expect(lines).toContain('DTEND:20250121T072500Z');
+      expect(lines).toContain(
+        'DESCRIPTION:Completed in 25m 0s\\n- Water\\; 2 glasses\\n- Coffee\\n- Stretch (bonus)'
+      );
+      expect(lines.filter((line) => line === 'BEGIN:VEVENT')).toHaveLength(1);
+      expect(lines[lines.length - 2]).toBe('END:VCALENDAR');
+    });
+
+    it('should add missed days as all-day events when asked', async () => {
+      const file = await exporter.export('2025-01-01', '2025-01-31', {
+        includeMissed: true,
+        routineName: 'Evening',
+      });
+      const lines = unfold(file.contents);
+
+      expect(lines).toContain('UID:2025-01-22-morning-missed@morning-routine');
+      expect(lines).toContain('SUMMARY:✗ Evening Routine missed');
+      expect(lines).toContain('DTSTART;VALUE=DATE:20250122');
+      expect(lines).toContain('DTEND;VALUE=DATE:20250123');
+      expect(lines.filter((line) => line === 'BEGIN:VEVENT')).toHaveLength(2);
+    });
+
+    it('should give each routine its own event UIDs', async () => {
+      const storage = new StorageAdapter(new MemoryStorageBackend());
+      const uids = async (routineId: string) => {
+        const historyManager = new HistoryManager(routineId, storage);
+        for (const record of RECORDS) {
+          await historyManager.recordOutcome(record);
+        }
+        const file = await new CalendarExporter(historyManager).export('2025-01-01', '2025-01-31');
+        return unfold(file.contents).filter((line) => line.startsWith('UID:'));
+      };
+
+      const morning = await uids('morning');
+      const evening = await uids('routine-evening');
+
+      expect(evening).toEqual(['UID:2025-01-21-routine-evening@morning-routine']);
+      expect(evening.filter((uid) => morning.includes(uid))).toEqual([]);
+    });
+  });
+
+  describe('foldLine', () => {
+    it('should keep short lines intact', () => {
+      expect(CalendarExporter.foldLine('SUMMARY:Short')).toBe('SUMMARY:Short');
+    });
+
+    it('should fold long lines at 75 octets without splitting characters', () => {
+      const line = `DESCRIPTION:${'é'.repeat(100)}`;
+      const folded = CalendarExporter.foldLine(line).split('\r\n');
+
+      expect(folded.length).toBeGreaterThan(1);
+      for (const part of folded) {
+        expect(Buffer.byteLength(part, 'utf8')).toBeLessThanOrEqual(75);
+      }
+      expect(folded.map((part, i) => (i === 0 ? part : part.slice(1))).join('')).toBe(line);
+    });
+  });
+
+  describe('escapeText', () => {
+    it('should escape special characters', () => {
+      expect(CalendarExporter.escapeText('a,b;c\\d\ne')).toBe('a\\,b\\;c\\\\d\\ne');
+    });
+  });
+});
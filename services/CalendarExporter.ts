@@ -0,0 +1,176 @@
+import { HistoryManager, DailyRecord } from './HistoryManager';
+import { RoutineItemId } from '../types/RoutineItem';
+import { DateUtils } from './DateUtils';
+import { ExportFile } from './FileExport';
+
+export interface CalendarExportOptions {
+  includeMissed?: boolean; // Add missed scheduled days as all-day events
+  routineName?: string; // Shown in event titles and the file name
+}
+
+/**
+ * Turns completion history into an iCalendar (.ics) file
+ * Completed routines become timed events; missed days optionally become all-day events.
+ * Event UIDs come from the routine id, so re-importing updates events and routines never clash.
+ */
+export class CalendarExporter {
+  private historyManager: HistoryManager;
+  private getItemName: (id: RoutineItemId) => string;
+
+  /**
+   * @param getItemName Display name for an item id (ids are exported as-is without one)
+   */
+  constructor(
+    historyManager: HistoryManager,
+    getItemName: (id: RoutineItemId) => string = (id) => id
+  ) {
+    this.historyManager = historyManager;
+    this.getItemName = getItemName;
+  }
+
+  /**
+   * Build a calendar of every record between two ISO dates (inclusive)
+   */
+  async export(
+    startDate: string,
+    endDate: string,
+    options: CalendarExportOptions = {}
+  ): Promise<ExportFile> {
+    const routineName = options.routineName ?? 'Morning';
+    const slug = routineName.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    const routineId = this.historyManager.getRoutineId();
+    const records = await this.historyManager.getRecordsInRange(startDate, endDate);
+    const stamp = CalendarExporter.formatUTC(Date.now());
+
+    const events = [...records]
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .flatMap((record) => {
+        const outcome = HistoryManager.getOutcome(record);
+        if (outcome === 'complete') {
+          return [this.buildCompletedEvent(record, routineName, routineId, stamp)];
+        }
+        if (outcome === 'missed' && options.includeMissed) {
+          return [CalendarExporter.buildMissedEvent(record, routineName, routineId, stamp)];
+        }
+        return [];
+      });
+
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Morning Routine//History Export//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      `X-WR-CALNAME:${CalendarExporter.escapeText(`${routineName} Routine`)}`,
+      ...events.flat(),
+      'END:VCALENDAR',
+    ];
+
+    return {
+      fileName: `${slug}-routine-${startDate}-to-${endDate}.ics`,
+      contents: lines.map(CalendarExporter.foldLine).join('\r\n') + '\r\n',
+      mimeType: 'text/calendar',
+      uti: 'com.apple.ical.ics',
+    };
+  }
+
+  private buildCompletedEvent(
+    record: DailyRecord,
+    routineName: string,
+    routineId: string,
+    stamp: string
+  ): string[] {
+    // Records closed without a start time still get a (zero-length) event
+    const start = record.startedAt || record.completedAt;
+    const items = record.completedItems.map((id) => `- ${this.getItemName(id)}`);
+    const bonus = (record.bonusItems ?? []).map((id) => `- ${this.getItemName(id)} (bonus)`);
+    const description = [
+      `Completed in ${DateUtils.formatDuration(record.completedAt - start)}`,
+      ...items,
+      ...bonus,
+    ].join('\n');
+
+    return [
+      'BEGIN:VEVENT',
+      `UID:${record.date}-${routineId}@morning-routine`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${CalendarExporter.formatUTC(start)}`,
+      `DTEND:${CalendarExporter.formatUTC(record.completedAt)}`,
+      `SUMMARY:${CalendarExporter.escapeText(`✓ ${routineName} Routine`)}`,
+      `DESCRIPTION:${CalendarExporter.escapeText(description)}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT',
+    ];
+  }
+
+  private static buildMissedEvent(
+    record: DailyRecord,
+    routineName: string,
+    routineId: string,
+    stamp: string
+  ): string[] {
+    const nextDay = DateUtils.addDays(record.date, 1);
+
+    return [
+      'BEGIN:VEVENT',
+      `UID:${record.date}-${routineId}-missed@morning-routine`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${record.date.replace(/-/g, '')}`,
+      `DTEND;VALUE=DATE:${nextDay.replace(/-/g, '')}`,
+      `SUMMARY:${CalendarExporter.escapeText(`✗ ${routineName} Routine missed`)}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT',
+    ];
+  }
+
+  /**
+   * UTC date-time in iCalendar form, e.g. "20250121T070000Z"
+   */
+  static formatUTC(timestamp: number): string {
+    return new Date(timestamp)
+      .toISOString()
+      .replace(/[-:]/g, '')
+      .replace(/\.\d{3}/, '');
+  }
+
+  /**
+   * Escape a TEXT value (RFC 5545 §3.3.11)
+   */
+  static escapeText(text: string): string {
+    return text
+      .replace(/\\/g, '\\\\')
+      .replace(/;/g, '\\;')
+      .replace(/,/g, '\\,')
+      .replace(/\r?\n/g, '\\n');
+  }
+
+  /**
+   * Fold lines longer than 75 octets (RFC 5545 §3.1)
+   * Continuation lines start with a single space; multi-byte characters are never split
+   */
+  static foldLine(line: string): string {
+    const parts: string[] = [];
+    let current = '';
+    let octets = 0;
+
+    for (const char of line) {
+      const size = CalendarExporter.getUTF8Length(char);
+      const limit = parts.length === 0 ? 75 : 74;
+      if (octets + size > limit) {
+        parts.push(current);
+        current = '';
+        octets = 0;
+      }
+      current += char;
+      octets += size;
+    }
+    parts.push(current);
+
+    return parts.join('\r\n ');
+  }
+
+  private static getUTF8Length(char: string): number {
+    const code = char.codePointAt(0) ?? 0;
+    return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+  }
+}
@@ -74,6 +74,56 @@ describe('DateUtils', () => {
       const result = DateUtils.isWithinTimeWindow(date, '07:00', '10:00');
       expect(result).toBe(true);
     });
+
+    it('should handle windows that cross midnight', () => {
+      const at = (hour: number) => new Date(2025, 0, 21, hour, 0);
+
+      expect(DateUtils.isWithinTimeWindow(at(23), '22:00', '02:00')).toBe(true);
+      expect(DateUtils.isWithinTimeWindow(at(1), '22:00', '02:00')).toBe(true);
+      expect(DateUtils.isWithinTimeWindow(at(12), '22:00', '02:00')).toBe(false);
+      expect(DateUtils.crossesMidnight('22:00', '02:00')).toBe(true);
+      expect(DateUtils.crossesMidnight('07:00', '10:00')).toBe(false);
+    });
+  });
+
+  describe('parseTime', () => {
+    it('should keep valid HH:MM times', () => {
+      expect(DateUtils.parseTime('07:30')).toBe('07:30');
+      expect(DateUtils.parseTime('23:59')).toBe('23:59');
+    });
+
+    it('should pad single-digit hours', () => {
+      expect(DateUtils.parseTime(' 7:05 ')).toBe('07:05');
+    });
+
+    it('should reject malformed or out-of-range times', () => {
+      expect(DateUtils.parseTime('24:00')).toBeNull();
+      expect(DateUtils.parseTime('07:60')).toBeNull();
+      expect(DateUtils.parseTime('7am')).toBeNull();
+      expect(DateUtils.parseTime(undefined)).toBeNull();
+    });
+  });
+
+  describe('isValidTime', () => {
+    it('should only accept strict HH:MM times', () => {
+      expect(DateUtils.isValidTime('07:00')).toBe(true);
+      expect(DateUtils.isValidTime('7:00')).toBe(false);
+      expect(DateUtils.isValidTime('')).toBe(false);
+    });
+  });
+
+  describe('isValidDateISO', () => {
+    it('should accept real dates in YYYY-MM-DD format', () => {
+      expect(DateUtils.isValidDateISO('2024-02-29')).toBe(true);
+      expect(DateUtils.isValidDateISO('2025-12-31')).toBe(true);
+    });
+
+    it('should reject impossible dates and other formats', () => {
+      expect(DateUtils.isValidDateISO('2025-02-29')).toBe(false);
+      expect(DateUtils.isValidDateISO('2025-13-01')).toBe(false);
+      expect(DateUtils.isValidDateISO('2025-1-5')).toBe(false);
+      expect(DateUtils.isValidDateISO(20250105)).toBe(false);
+    });
   });
 
   describe('getDayOfWeek', () => {
@@ -113,6 +163,14 @@ describe('DateUtils', () => {
       const result = DateUtils.isConsecutiveDay('2025-01-21', '2025-01-20');
       expect(result).toBe(false);
     });
+
+    it('should step over unscheduled days', () => {
+      // Friday and the following Monday with weekends off
+      const weekdays = (date: string) => ![0, 6].includes(DateUtils.parseISO(date).getDay());
+
+      expect(DateUtils.isConsecutiveDay('2025-01-17', '2025-01-20', weekdays)).toBe(true);
+      expect(DateUtils.isConsecutiveDay('2025-01-16', '2025-01-20', weekdays)).toBe(false);
+    });
   });
 
   describe('calculateStreak', () => {
@@ -136,6 +194,26 @@ describe('DateUtils', () => {
       expect(streak).toBe(3);
     });
 
+    it('should skip unscheduled days without breaking the streak', () => {
+      const skipped = DateUtils.getDateDaysAgo(1);
+      const isScheduled = (date: string) => date !== skipped;
+
+      const streak = DateUtils.calculateStreak(
+        [DateUtils.getTodayISO(), DateUtils.getDateDaysAgo(2), DateUtils.getDateDaysAgo(3)],
+        isScheduled
+      );
+      expect(streak).toBe(3);
+    });
+
+    it('should not break on today before it is scheduled', () => {
+      const today = DateUtils.getTodayISO();
+      const streak = DateUtils.calculateStreak(
+        [DateUtils.getDateDaysAgo(1)],
+        (date) => date !== today
+      );
+      expect(streak).toBe(1);
+    });
+
     it('should stop counting at first gap', () => {
       const today = DateUtils.getTodayISO();
       const yesterday = DateUtils.getDateDaysAgo(1);
@@ -145,11 +223,16 @@ describe('DateUtils', () => {
       expect(streak).toBe(2); // Stops at gap
     });
 
-    it('should return 0 if today is not included', () => {
+    it('should count through yesterday while today is unfinished', () => {
       const yesterday = DateUtils.getDateDaysAgo(1);
       const twoDaysAgo = DateUtils.getDateDaysAgo(2);
 
       const streak = DateUtils.calculateStreak([yesterday, twoDaysAgo]);
+      expect(streak).toBe(2);
+    });
+
+    it('should return 0 if yesterday was missed and today is unfinished', () => {
+      const streak = DateUtils.calculateStreak([DateUtils.getDateDaysAgo(2)]);
       expect(streak).toBe(0); // Streak broken
     });
 
@@ -190,6 +273,13 @@ describe('DateUtils', () => {
     });
   });
 
+  describe('formatDateTime', () => {
+    it('should format local date and time with seconds', () => {
+      const date = new Date(2025, 0, 21, 8, 5, 9);
+      expect(DateUtils.formatDateTime(date)).toBe('2025-01-21 08:05:09');
+    });
+  });
+
   describe('formatTime', () => {
     it('should format time in 12-hour format', () => {
       const date = new Date(2025, 0, 21, 8, 30);
@@ -285,4 +375,51 @@ describe('DateUtils', () => {
       expect(result).toMatch(/^\d{4}-\d{2}-\d{2}$/);
     });
   });
+
+  describe('home time zone', () => {
+    // 00:30 on Jan 22 in Tokyo, still Jan 21 in most of the world
+    const instant = new Date(Date.UTC(2025, 0, 21, 15, 30));
+
+    afterEach(() => {
+      DateUtils.setTimeZone(null);
+    });
+
+    it('should follow the device zone by default', () => {
+      expect(DateUtils.getTimeZone()).toBe(DateUtils.getDeviceTimeZone());
+    });
+
+    it('should read dates and times in the home zone', () => {
+      DateUtils.setTimeZone('Asia/Tokyo');
+
+      expect(DateUtils.getTimeZone()).toBe('Asia/Tokyo');
+      expect(DateUtils.getDateISO(instant)).toBe('2025-01-22');
+      expect(DateUtils.getDayOfWeek(instant)).toBe(3);
+      expect(DateUtils.getMinutesOfDate(instant)).toBe(30);
+      expect(DateUtils.formatDateTime(instant)).toBe('2025-01-22 00:30:00');
+    });
+
+    it('should find day boundaries in the home zone', () => {
+      DateUtils.setTimeZone('Asia/Tokyo');
+
+      expect(DateUtils.getTimestampAt('2025-01-22', '00:30')).toBe(instant.getTime());
+      expect(DateUtils.getStartOfDayTimestamp(instant)).toBe(Date.UTC(2025, 0, 21, 15));
+      expect(DateUtils.getEndOfDayTimestamp(instant)).toBe(Date.UTC(2025, 0, 22, 15) - 1);
+    });
+
+    it('should resolve wall times around daylight-saving changes', () => {
+      DateUtils.setTimeZone('America/New_York');
+
+      // 02:30 was skipped; 01:30 happened twice
+      expect(DateUtils.getTimestampAt('2025-03-09', '02:30')).toBe(Date.UTC(2025, 2, 9, 7, 30));
+      expect(DateUtils.getTimestampAt('2025-11-02', '01:30')).toBe(Date.UTC(2025, 10, 2, 5, 30));
+      expect(DateUtils.getTimestampAt('2025-07-01', '08:00')).toBe(Date.UTC(2025, 6, 1, 12));
+    });
+
+    it('should validate zone names', () => {
+      expect(DateUtils.isValidTimeZone('Europe/Berlin')).toBe(true);
+      expect(DateUtils.isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+      expect(DateUtils.isValidTimeZone('')).toBe(false);
+      expect(DateUtils.isValidTimeZone(undefined)).toBe(false);
+    });
+  });
 });
@@ -0,0 +1,90 @@
+import { DateUtils } from './DateUtils';
+
+/**
+ * Calendar arithmetic must not depend on the device's time zone or its daylight-saving
+ * changes. These tests hold in any zone; `npm run test:timezones` runs them under several.
+ */
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Every ISO date from 2024 to 2026, computed without local time
+const DATES = Array.from({ length: 1096 }, (_, i) =>
+  new Date(Date.UTC(2024, 0, 1) + i * MS_PER_DAY).toISOString().slice(0, 10)
+);
+
+// Days a daylight-saving change falls on in the US, Europe, Australia or Chile in 2025
+const DST_CHANGES = [
+  '2025-03-09',
+  '2025-03-30',
+  '2025-04-06',
+  '2025-09-07',
+  '2025-10-05',
+  '2025-10-26',
+  '2025-11-02',
+];
+
+describe(`DateUtils in ${Intl.DateTimeFormat().resolvedOptions().timeZone}`, () => {
+  afterEach(() => {
+    jest.useRealTimers();
+    DateUtils.setTimeZone(null);
+  });
+
+  it('should step one calendar day at a time, even over 23 and 25 hour days', () => {
+    for (let i = 0; i < DATES.length - 1; i++) {
+      expect(DateUtils.addDays(DATES[i], 1)).toBe(DATES[i + 1]);
+      expect(DateUtils.addDays(DATES[i + 1], -1)).toBe(DATES[i]);
+      expect(DateUtils.diffDays(DATES[i], DATES[i + 1])).toBe(1);
+      expect(DateUtils.isConsecutiveDay(DATES[i], DATES[i + 1])).toBe(true);
+    }
+    expect(DateUtils.diffDays(DATES[0], DATES[DATES.length - 1])).toBe(DATES.length - 1);
+  });
+
+  it('should agree with local dates on the weekday and round trip', () => {
+    for (const date of DATES) {
+      expect(DateUtils.getDayOfWeekISO(date)).toBe(DateUtils.parseISO(date).getDay());
+      expect(DateUtils.getDateISO(DateUtils.parseISO(date))).toBe(date);
+    }
+  });
+
+  it.each(DST_CHANGES)('should count days between local times around %s', (date) => {
+    const before = DateUtils.parseISO(DateUtils.addDays(date, -1));
+    before.setHours(23, 30);
+    const after = DateUtils.parseISO(DateUtils.addDays(date, 1));
+    after.setHours(0, 30);
+
+    expect(DateUtils.getDaysBetween(before, after)).toBe(2);
+    expect(DateUtils.getDaysBetween(after, before)).toBe(2);
+  });
+
+  it.each(DST_CHANGES)('should find yesterday just after midnight following %s', (date) => {
+    const next = DateUtils.parseISO(DateUtils.addDays(date, 1));
+    next.setHours(0, 30);
+    jest.useFakeTimers();
+    jest.setSystemTime(next);
+
+    expect(DateUtils.getDateDaysAgo(1)).toBe(date);
+    expect(DateUtils.getDateDaysAgo(7)).toBe(DateUtils.addDays(date, -6));
+  });
+
+  it.each(DST_CHANGES)('should keep a streak running through %s', (date) => {
+    const today = DateUtils.addDays(date, 1);
+    const now = DateUtils.parseISO(today);
+    now.setHours(23, 30);
+    jest.useFakeTimers();
+    jest.setSystemTime(now);
+
+    const completions = [0, 1, 2, 3, 4].map((daysAgo) => DateUtils.addDays(today, -daysAgo));
+    expect(DateUtils.calculateStreak(completions)).toBe(5);
+  });
+
+  it('should format dates in the home zone rather than the device zone', () => {
+    // 00:30 on Jan 22 in Tokyo; Jan 21 in the Americas
+    const instant = new Date(Date.UTC(2025, 0, 21, 15, 30));
+
+    DateUtils.setTimeZone('Asia/Tokyo');
+    expect(DateUtils.formatDate(instant)).toBe('Jan 22, 2025');
+
+    DateUtils.setTimeZone('America/New_York');
+    expect(DateUtils.formatDate(instant)).toBe('Jan 21, 2025');
+  });
+});
@@ -3,12 +3,79 @@
  *
  * All date comparisons use ISO date strings ("YYYY-MM-DD") to avoid timezone issues.
  * All time comparisons use 24-hour format strings ("HH:MM").
+ * Day arithmetic on ISO dates counts calendar days in UTC, so daylight-saving changes
+ * (23 or 25 hour days) never shift a result.
+ * Dates and times of a moment are read in the device's local time zone, or in a fixed
+ * home zone once setTimeZone has been called (see TimeZoneSettings).
  */
 
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+interface DateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
 export class DateUtils {
+  private static timeZone: string | null = null;
+  private static formatter: Intl.DateTimeFormat | null = null;
+
+  /**
+   * Read every date and time in a fixed IANA time zone (e.g. "Europe/Berlin"), or pass
+   * null to follow the device's local time
+   */
+  static setTimeZone(timeZone: string | null): void {
+    this.timeZone = timeZone;
+    this.formatter = timeZone
+      ? new Intl.DateTimeFormat('en-US', {
+          timeZone,
+          hourCycle: 'h23',
+          year: 'numeric',
+          month: 'numeric',
+          day: 'numeric',
+          hour: 'numeric',
+          minute: 'numeric',
+          second: 'numeric',
+        })
+      : null;
+  }
+
+  /**
+   * IANA time zone dates are currently read in
+   */
+  static getTimeZone(): string {
+    return this.timeZone ?? this.getDeviceTimeZone();
+  }
+
+  /**
+   * IANA time zone the device is set to
+   */
+  static getDeviceTimeZone(): string {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone;
+  }
+
+  /**
+   * Check a string names a time zone this device knows
+   */
+  static isValidTimeZone(timeZone: unknown): boolean {
+    if (typeof timeZone !== 'string' || timeZone === '') {
+      return false;
+    }
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Get today's date as ISO string (YYYY-MM-DD)
-   * Uses local timezone
+   * Uses the active time zone
    */
   static getTodayISO(): string {
     const now = new Date();
@@ -17,13 +84,79 @@ export class DateUtils {
 
   /**
    * Convert Date object to ISO date string (YYYY-MM-DD)
-   * Uses local timezone, not UTC
+   * Uses the active time zone, not UTC
    */
   static getDateISO(date: Date): string {
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    return `${year}-${month}-${day}`;
+    const { year, month, day } = this.getParts(date);
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  }
+
+  /**
+   * Minutes since midnight of a moment, in the active time zone
+   */
+  static getMinutesOfDate(date: Date): number {
+    const { hour, minute } = this.getParts(date);
+    return hour * 60 + minute;
+  }
+
+  /**
+   * Timestamp of a wall-clock time ("HH:MM") on an ISO date, in the active time zone
+   * Like the Date constructor, a time repeated by a daylight-saving change resolves to
+   * its first occurrence and a skipped time to the same distance past the gap
+   */
+  static getTimestampAt(dateStr: string, time: string): number {
+    const [year, month, day] = dateStr.split('-').map(Number);
+    const [hour, minute] = time.split(':').map(Number);
+    if (!this.timeZone) {
+      return new Date(year, month - 1, day, hour, minute).getTime();
+    }
+
+    // Read the wall time with the offsets in force a day either side of it
+    const wall = Date.UTC(year, month - 1, day, hour, minute);
+    const withOffsetBefore = wall - this.getOffset(wall - MS_PER_DAY);
+    const withOffsetAfter = wall - this.getOffset(wall + MS_PER_DAY);
+    const isExact = (timestamp: number) => this.getOffset(timestamp) === wall - timestamp;
+    return isExact(withOffsetBefore) || !isExact(withOffsetAfter)
+      ? withOffsetBefore
+      : withOffsetAfter;
+  }
+
+  /**
+   * The wall clock of a moment in the active time zone
+   */
+  private static getParts(date: Date): DateParts {
+    if (!this.formatter) {
+      return {
+        year: date.getFullYear(),
+        month: date.getMonth() + 1,
+        day: date.getDate(),
+        hour: date.getHours(),
+        minute: date.getMinutes(),
+        second: date.getSeconds(),
+      };
+    }
+
+    const parts: Record<string, number> = {};
+    for (const part of this.formatter.formatToParts(date)) {
+      parts[part.type] = Number(part.value);
+    }
+    return {
+      year: parts.year,
+      month: parts.month,
+      day: parts.day,
+      hour: parts.hour % 24,
+      minute: parts.minute,
+      second: parts.second,
+    };
+  }
+
+  /**
+   * Milliseconds the active time zone is ahead of UTC at a moment
+   */
+  private static getOffset(timestamp: number): number {
+    const { year, month, day, hour, minute, second } = this.getParts(new Date(timestamp));
+    const wall = Date.UTC(year, month - 1, day, hour, minute, second);
+    return wall - Math.floor(timestamp / 1000) * 1000;
   }
 
   /**
@@ -37,63 +170,161 @@ export class DateUtils {
 
   /**
    * Check if current time is within a time window
+   * A window ending earlier than it starts crosses midnight (23:00–02:00 covers both
+   * 23:30 and 01:30); see crossesMidnight
    * @param now Current date/time
    * @param start Start time in "HH:MM" format (24-hour)
    * @param end End time in "HH:MM" format (24-hour)
    */
   static isWithinTimeWindow(now: Date, start: string, end: string): boolean {
-    const currentMinutes = now.getHours() * 60 + now.getMinutes();
-    const [startHour, startMin] = start.split(':').map(Number);
-    const [endHour, endMin] = end.split(':').map(Number);
-    const startMinutes = startHour * 60 + startMin;
-    const endMinutes = endHour * 60 + endMin;
+    const currentMinutes = this.getMinutesOfDate(now);
+    const startMinutes = this.getMinutesOfDay(start);
+    const endMinutes = this.getMinutesOfDay(end);
 
+    if (this.crossesMidnight(start, end)) {
+      return currentMinutes >= startMinutes || currentMinutes <= endMinutes;
+    }
     return currentMinutes >= startMinutes && currentMinutes <= endMinutes;
   }
 
+  /**
+   * Check if a window ends on the day after it starts (its end is earlier than its start)
+   */
+  static crossesMidnight(start: string, end: string): boolean {
+    return this.getMinutesOfDay(end) < this.getMinutesOfDay(start);
+  }
+
+  /**
+   * Normalize a 24-hour time to "HH:MM"
+   * Accepts a single-digit hour ("7:30"); returns null for anything that isn't a valid time
+   */
+  static parseTime(time: unknown): string | null {
+    if (typeof time !== 'string') {
+      return null;
+    }
+
+    const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+    if (!match) {
+      return null;
+    }
+
+    const hour = Number(match[1]);
+    const minute = Number(match[2]);
+    if (hour > 23 || minute > 59) {
+      return null;
+    }
+
+    return `${String(hour).padStart(2, '0')}:${match[2]}`;
+  }
+
+  /**
+   * Check a time is already in strict "HH:MM" format
+   */
+  static isValidTime(time: unknown): boolean {
+    return typeof time === 'string' && DateUtils.parseTime(time) === time;
+  }
+
+  /**
+   * Minutes since midnight for an "HH:MM" time
+   */
+  static getMinutesOfDay(time: string): number {
+    const [hour, minute] = time.split(':').map(Number);
+    return hour * 60 + minute;
+  }
+
   /**
    * Get day of week (0=Sunday, 1=Monday, ..., 6=Saturday)
    */
   static getDayOfWeek(date: Date): number {
-    return date.getDay();
+    return this.getDayOfWeekISO(this.getDateISO(date));
+  }
+
+  /**
+   * Day of week of an ISO date (0=Sunday, 1=Monday, ..., 6=Saturday)
+   */
+  static getDayOfWeekISO(dateStr: string): number {
+    return new Date(this.toDayNumber(dateStr) * MS_PER_DAY).getUTCDay();
+  }
+
+  /**
+   * Check a string is a real calendar date in strict "YYYY-MM-DD" format
+   */
+  static isValidDateISO(date: unknown): boolean {
+    return (
+      typeof date === 'string' &&
+      /^\d{4}-\d{2}-\d{2}$/.test(date) &&
+      DateUtils.addDays(date, 0) === date
+    );
+  }
+
+  /**
+   * ISO date a number of days after another (negative for before)
+   */
+  static addDays(dateStr: string, days: number): string {
+    return new Date((this.toDayNumber(dateStr) + days) * MS_PER_DAY).toISOString().slice(0, 10);
+  }
+
+  /**
+   * Calendar days from one ISO date to another (negative if `to` is earlier)
+   */
+  static diffDays(from: string, to: string): number {
+    return this.toDayNumber(to) - this.toDayNumber(from);
+  }
+
+  /**
+   * Days since 1970-01-01 for an ISO date
+   */
+  private static toDayNumber(dateStr: string): number {
+    const [year, month, day] = dateStr.split('-').map(Number);
+    return Date.UTC(year, month - 1, day) / MS_PER_DAY;
   }
 
   /**
    * Check if two ISO date strings are consecutive days
    * @param date1 Earlier date (YYYY-MM-DD)
    * @param date2 Later date (YYYY-MM-DD)
-   * @returns true if date2 is exactly one day after date1
+   * @param isScheduled Days it rejects are stepped over, so Friday and Monday are
+   *   consecutive with weekends off (default: every day counts)
+   * @returns true if date2 is the first counted day after date1
    */
-  static isConsecutiveDay(date1: string, date2: string): boolean {
-    const d1 = this.parseISO(date1);
-    const d2 = this.parseISO(date2);
-    const diffMs = d2.getTime() - d1.getTime();
-    const diffDays = diffMs / (1000 * 60 * 60 * 24);
-    return diffDays === 1;
+  static isConsecutiveDay(
+    date1: string,
+    date2: string,
+    isScheduled: (date: string) => boolean = () => true
+  ): boolean {
+    let next = this.addDays(date1, 1);
+    while (next < date2 && !isScheduled(next)) {
+      next = this.addDays(next, 1);
+    }
+    return next === date2;
   }
 
   /**
    * Calculate current streak from sorted completion dates
+   * Unscheduled days neither break nor add to the streak; completing one still counts.
+   * Today can still be completed, so until it is the count runs through yesterday.
    * @param completionDates Sorted array of ISO date strings (most recent first)
-   * @returns Number of consecutive days including today
+   * @param isScheduled Whether the routine was on for a date (default: every day)
+   * @returns Number of consecutive days up to today
    */
-  static calculateStreak(completionDates: string[]): number {
+  static calculateStreak(
+    completionDates: string[],
+    isScheduled: (date: string) => boolean = () => true
+  ): number {
     if (completionDates.length === 0) {
       return 0;
     }
 
+    const completed = new Set(completionDates);
+    const oldest = completionDates[completionDates.length - 1];
     const today = this.getTodayISO();
     let streak = 0;
-    let expectedDate = today;
 
-    for (const date of completionDates) {
-      if (date === expectedDate) {
+    const start = completed.has(today) ? today : this.addDays(today, -1);
+    for (let date = start; date >= oldest; date = this.addDays(date, -1)) {
+      if (completed.has(date)) {
         streak++;
-        // Move to previous day
-        const prevDate = this.parseISO(date);
-        prevDate.setDate(prevDate.getDate() - 1);
-        expectedDate = this.getDateISO(prevDate);
-      } else {
+      } else if (isScheduled(date)) {
         // Gap found, streak ends
         break;
       }
@@ -107,10 +338,7 @@ export class DateUtils {
    * @returns Absolute number of days (always positive)
    */
   static getDaysBetween(date1: Date, date2: Date): number {
-    const d1 = new Date(date1.getFullYear(), date1.getMonth(), date1.getDate());
-    const d2 = new Date(date2.getFullYear(), date2.getMonth(), date2.getDate());
-    const diffMs = Math.abs(d2.getTime() - d1.getTime());
-    return Math.floor(diffMs / (1000 * 60 * 60 * 24));
+    return Math.abs(this.diffDays(this.getDateISO(date1), this.getDateISO(date2)));
   }
 
   /**
@@ -118,13 +346,26 @@ export class DateUtils {
    * @returns Date in format "Jan 21, 2025"
    */
   static formatDate(date: Date): string {
-    return date.toLocaleDateString('en-US', {
+    const { year, month, day } = this.getParts(date);
+    // The calendar date is already in the active zone; format it without shifting it again
+    return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString('en-US', {
       month: 'short',
       day: 'numeric',
       year: 'numeric',
+      timeZone: 'UTC',
     });
   }
 
+  /**
+   * Local date and time for exports
+   * @returns "2025-01-21 08:05:09" (no time zone; spreadsheets read this as local time)
+   */
+  static formatDateTime(date: Date): string {
+    const { hour, minute, second } = this.getParts(date);
+    const time = [hour, minute, second].map((value) => String(value).padStart(2, '0')).join(':');
+    return `${this.getDateISO(date)} ${time}`;
+  }
+
   /**
    * Format time for display
    * @returns Time in format "8:30 AM"
@@ -134,6 +375,7 @@ export class DateUtils {
       hour: 'numeric',
       minute: '2-digit',
       hour12: true,
+      timeZone: this.timeZone ?? undefined,
     });
   }
 
@@ -159,21 +401,18 @@ export class DateUtils {
   }
 
   /**
-   * Get start of day timestamp (midnight local time)
+   * Get start of day timestamp (midnight in the active time zone)
    */
   static getStartOfDayTimestamp(date?: Date): number {
-    const d = date ? new Date(date) : new Date();
-    d.setHours(0, 0, 0, 0);
-    return d.getTime();
+    return this.getTimestampAt(this.getDateISO(date ?? new Date()), '00:00');
   }
 
   /**
-   * Get end of day timestamp (23:59:59.999 local time)
+   * Get end of day timestamp (the last millisecond before the next midnight)
    */
   static getEndOfDayTimestamp(date?: Date): number {
-    const d = date ? new Date(date) : new Date();
-    d.setHours(23, 59, 59, 999);
-    return d.getTime();
+    const nextDay = this.addDays(this.getDateISO(date ?? new Date()), 1);
+    return this.getTimestampAt(nextDay, '00:00') - 1;
   }
 
   /**
@@ -190,8 +429,15 @@ export class DateUtils {
    * @param daysAgo Number of days in the past (0 = today, 1 = yesterday, etc.)
    */
   static getDateDaysAgo(daysAgo: number): string {
-    const date = new Date();
-    date.setDate(date.getDate() - daysAgo);
-    return this.getDateISO(date);
+    return this.addDays(this.getTodayISO(), -daysAgo);
+  }
+
+  /**
+   * Get the "YYYY-MM" month a number of months before the current one
+   */
+  static getMonthsAgo(monthsAgo: number): string {
+    const [year, month] = this.getTodayISO().split('-').map(Number);
+    const index = year * 12 + (month - 1) - monthsAgo;
+    return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`;
   }
 }
@@ -0,0 +1,234 @@
+import { EventJournal, JournalEvent } from './EventJournal';
+import { MemoryStorageBackend, StorageAdapter } from './Storage';
+import { createRoutineServices, initializeRoutineServices } from './RoutineServices';
+import { DailyRecord } from './HistoryManager';
+import { RoutineItem } from '../types/RoutineItem';
+
+const at = (iso: string) => new Date(iso).getTime();
+
+const record = (date: string, outcome: DailyRecord['outcome']): DailyRecord => ({
+  date,
+  completedItems: [],
+  startedAt: 0,
+  completedAt: 0,
+  totalTime: 0,
+  wasLocked: false,
+  outcome,
+});
+
+describe('EventJournal', () => {
+  let backend: MemoryStorageBackend;
+  let storage: StorageAdapter;
+  let journal: EventJournal;
+
+  beforeEach(() => {
+    backend = new MemoryStorageBackend();
+    storage = new StorageAdapter(backend);
+    journal = new EventJournal('morning', storage);
+  });
+
+  describe('append', () => {
+    it('should store events by day with an index', async () => {
+      await journal.append({ type: 'locked', timestamp: at('2025-01-31T08:00:00') });
+      await journal.append({ type: 'unlocked', timestamp: at('2025-01-31T09:00:00') });
+      await journal.append({ type: 'reset', timestamp: at('2025-02-01T00:00:00') });
+
+      const data = backend.dump();
+      expect(JSON.parse(data.journalDays)).toEqual(['2025-02-01', '2025-01-31']);
+      expect(JSON.parse(data['journalDay/2025-01-31'])).toHaveLength(2);
+      expect(JSON.parse(data['journalDay/2025-02-01'])).toHaveLength(1);
+    });
+
+    it('should reject when the event cannot be stored, without blocking later appends', async () => {
+      jest.spyOn(storage, 'transaction').mockRejectedValueOnce(new Error('Disk full'));
+
+      const failed = journal.append({ type: 'locked', timestamp: at('2025-01-21T07:00:00') });
+      const next = journal.append({ type: 'unlocked', timestamp: at('2025-01-21T08:00:00') });
+
+      await expect(failed).rejects.toThrow('Disk full');
+      await next;
+      expect((await journal.getAllEvents()).map((event) => event.type)).toEqual(['unlocked']);
+    });
+
+    it('should keep every event when appends overlap', async () => {
+      await Promise.all(
+        ['item_a', 'item_b', 'item_c'].map((itemId, i) =>
+          journal.append({
+            type: 'item_uncompleted',
+            timestamp: at('2025-01-21T07:00:00') + i,
+            itemId,
+          })
+        )
+      );
+
+      expect(await journal.getEvents('2025-01-21', '2025-01-21')).toHaveLength(3);
+    });
+
+    it('should keep routines apart', async () => {
+      await new EventJournal('evening', storage).append({
+        type: 'locked',
+        timestamp: at('2025-01-21T20:00:00'),
+      });
+
+      expect(await journal.getAllEvents()).toEqual([]);
+      expect(backend.dump()['journalDay/2025-01-21:evening']).toBeDefined();
+    });
+  });
+
+  describe('getCurrentCycle', () => {
+    it('should be null before the first journaled reset', async () => {
+      await journal.append({ type: 'locked', timestamp: at('2025-01-21T07:00:00') });
+
+      expect(await journal.getCurrentCycle()).toBeNull();
+    });
+
+    it('should start at the latest reset, even on an earlier day', async () => {
+      await journal.append({ type: 'reset', timestamp: at('2025-01-30T00:00:00') });
+      await journal.append({ type: 'reset', timestamp: at('2025-01-31T00:00:00') });
+      await journal.append({ type: 'locked', timestamp: at('2025-02-01T07:00:00') });
+
+      const cycle = await journal.getCurrentCycle();
+      expect(cycle?.map((event) => event.type)).toEqual(['reset', 'locked']);
+      expect(cycle?.[0].timestamp).toBe(at('2025-01-31T00:00:00'));
+    });
+  });
+
+  describe('describe', () => {
+    it('should explain events in plain words', () => {
+      const getItemName = (id: string) => (id === 'water' ? 'Drink Water' : id);
+
+      expect(
+        EventJournal.describe(
+          { type: 'item_completed', timestamp: 0, itemId: 'water', method: 'photo' },
+          getItemName
+        )
+      ).toBe('Completed Drink Water (photo)');
+      expect(
+        EventJournal.describe(
+          {
+            type: 'day_recorded',
+            timestamp: 0,
+            record: record('2025-01-21', 'emergency_unlocked'),
+          },
+          getItemName
+        )
+      ).toBe('2025-01-21 recorded as emergency unlocked');
+    });
+  });
+
+  describe('mergeEvents', () => {
+    it('should keep shared events once, oldest first', () => {
+      const a: JournalEvent = { type: 'locked', timestamp: 1 };
+      const b: JournalEvent = { type: 'unlocked', timestamp: 2 };
+      const c: JournalEvent = { type: 'reset', timestamp: 3 };
+
+      expect(EventJournal.mergeEvents([a, c], [b, c])).toEqual([a, b, c]);
+    });
+  });
+
+  describe('as the source of truth', () => {
+    it('should log changes from every service', async () => {
+      const services = createRoutineServices('morning', storage);
+
+      await services.routineManager.resetRoutine();
+      await services.routineManager.markComplete(RoutineItem.WATER);
+      await services.routineManager.markIncomplete(RoutineItem.WATER);
+      await services.lockingService.lockApp();
+      await services.lockingService.unlockApp();
+      await services.settingsManager.saveSettings(await services.settingsManager.loadSettings());
+
+      const types = (await services.journal.getCurrentCycle())?.map((event) => event.type);
+      expect(types).toEqual([
+        'reset',
+        'item_completed',
+        'item_uncompleted',
+        'locked',
+        'unlocked',
+        'settings_changed',
+      ]);
+    });
+
+    it('should leave the checklist unchanged when a change cannot be journaled', async () => {
+      const services = createRoutineServices('morning', storage);
+      await services.routineManager.resetRoutine();
+      jest.spyOn(services.journal, 'append').mockRejectedValueOnce(new Error('Disk full'));
+
+      await expect(services.routineManager.markComplete(RoutineItem.WATER)).rejects.toThrow(
+        'Disk full'
+      );
+      expect(services.routineManager.isCompleted(RoutineItem.WATER)).toBe(false);
+      expect(services.routineManager.getTimeline()).toEqual([]);
+      expect(services.routineManager.getStartTime()).toBeNull();
+    });
+
+    it('should still unlock when the unlock cannot be journaled', async () => {
+      const services = createRoutineServices('morning', storage);
+      await services.lockingService.lockApp();
+      jest.spyOn(services.journal, 'append').mockRejectedValueOnce(new Error('Disk full'));
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      await services.lockingService.unlockApp();
+
+      expect(await services.lockingService.getLockState()).toBeNull();
+    });
+
+    it('should rebuild routine state from the current cycle', async () => {
+      const services = createRoutineServices('morning', storage);
+      await services.routineManager.resetRoutine();
+      await services.routineManager.markComplete(RoutineItem.WATER, 'photo');
+      await services.routineManager.markComplete(RoutineItem.PUSHUPS);
+
+      // The cached state lost the last write
+      await storage.setJSON('routineCompletionState', [RoutineItem.WATER]);
+
+      const reloaded = createRoutineServices('morning', storage);
+      await reloaded.routineManager.loadState();
+
+      expect(reloaded.routineManager.isCompleted(RoutineItem.PUSHUPS)).toBe(true);
+      expect(reloaded.routineManager.getTimeline().map((event) => event.method)).toEqual([
+        'photo',
+        expect.any(String),
+      ]);
+      expect(reloaded.routineManager.getStartTime()).toBe(
+        reloaded.routineManager.getTimeline()[0].timestamp
+      );
+    });
+
+    it('should keep the stored state when the cycle began before journaling', async () => {
+      await storage.setJSON('routineCompletionState', [RoutineItem.WATER]);
+
+      const services = createRoutineServices('morning', storage);
+      await services.routineManager.loadState();
+
+      expect(services.routineManager.isCompleted(RoutineItem.WATER)).toBe(true);
+    });
+
+    it('should restore recorded days that history lost', async () => {
+      const services = createRoutineServices('morning', storage);
+      await services.historyManager.recordOutcome(record('2025-01-20', 'complete'));
+      await services.historyManager.recordOutcome(record('2025-01-21', 'complete'));
+      await storage.setJSON('historyMonth/2025-01', [record('2025-01-21', 'missed')]);
+
+      expect(await services.historyManager.rebuildFromJournal()).toBe(2);
+
+      const history = await services.historyManager.getRecordsInRange('2025-01-01', '2025-01-31');
+      expect(history.map((r) => [r.date, r.outcome])).toEqual([
+        ['2025-01-21', 'complete'],
+        ['2025-01-20', 'complete'],
+      ]);
+      expect(backend.dump().streakData).toBeUndefined();
+    });
+
+    it('should restore lost days when the routine starts up', async () => {
+      const services = createRoutineServices('morning', storage);
+      await services.historyManager.recordOutcome(record('2025-01-21', 'complete'));
+      await storage.remove('historyMonth/2025-01');
+
+      const restarted = createRoutineServices('morning', storage);
+      await initializeRoutineServices(restarted);
+
+      const history = await restarted.historyManager.getRecordsInRange('2025-01-01', '2025-01-31');
+      expect(history.map((r) => [r.date, r.outcome])).toEqual([['2025-01-21', 'complete']]);
+    });
+  });
+});
@@ -0,0 +1,234 @@
+import { RoutineItemId, VerificationKind } from '../types/RoutineItem';
+import type { AppSettings } from './SettingsManager';
+import type { DailyRecord } from './HistoryManager';
+import { DateUtils } from './DateUtils';
+import { DEFAULT_ROUTINE_ID, RoutineId, getRoutineStorageKey } from './RoutineCatalog';
+import { StorageAdapter, StorageChange } from './Storage';
+import { STORAGE_KEYS } from './StorageKeys';
+
+/**
+ * Something that changed a routine's state
+ * - item_completed / item_uncompleted / progress_changed: today's checklist
+ * - reset: a new cycle started; the checklist is empty again
+ * - locked / unlocked / emergency_unlock: the lock
+ * - settings_changed: the settings that were saved
+ * - day_recorded: the history record a day ended with
+ */
+export type JournalEvent =
+  | { type: 'item_completed'; timestamp: number; itemId: RoutineItemId; method: VerificationKind }
+  | { type: 'item_uncompleted'; timestamp: number; itemId: RoutineItemId }
+  | { type: 'progress_changed'; timestamp: number; itemId: RoutineItemId; value: number }
+  | { type: 'reset'; timestamp: number }
+  | { type: 'locked'; timestamp: number }
+  | { type: 'unlocked'; timestamp: number }
+  | { type: 'emergency_unlock'; timestamp: number }
+  | { type: 'settings_changed'; timestamp: number; settings: AppSettings }
+  | { type: 'day_recorded'; timestamp: number; record: DailyRecord };
+
+export type JournalEventType = JournalEvent['type'];
+
+/**
+ * Append-only log of every change to one routine
+ * The stored routine state, history and streak are caches that can be rebuilt from it.
+ * Events are kept in daily partitions so an append only rewrites the current day.
+ */
+export class EventJournal {
+  private routineId: RoutineId;
+  private storage: StorageAdapter;
+  private writes: Promise<void> = Promise.resolve();
+
+  /**
+   * @param routineId Routine whose events this journal holds
+   */
+  constructor(
+    routineId: RoutineId = DEFAULT_ROUTINE_ID,
+    storage: StorageAdapter = new StorageAdapter()
+  ) {
+    this.routineId = routineId;
+    this.storage = storage;
+  }
+
+  /**
+   * Add an event to the end of the journal
+   * Appends are queued so events written close together are never lost. Rejects if the
+   * event couldn't be stored; appends queued after it still run.
+   */
+  append(event: JournalEvent): Promise<void> {
+    const write = this.writes.then(() => this.write(event));
+    this.writes = write.catch(() => {});
+    return write;
+  }
+
+  private async write(event: JournalEvent): Promise<void> {
+    const day = DateUtils.getDateISO(new Date(event.timestamp));
+    const events = await this.getDayEvents(day);
+    const changes: StorageChange[] = [{ key: this.dayKey(day), value: [...events, event] }];
+
+    const days = await this.getDays();
+    if (!days.includes(day)) {
+      changes.push({ key: this.key('days'), value: [day, ...days].sort().reverse() });
+    }
+    await this.storage.transaction(changes);
+  }
+
+  /**
+   * Get events between two ISO dates (inclusive), oldest first
+   */
+  async getEvents(startDate: string, endDate: string): Promise<JournalEvent[]> {
+    try {
+      await this.writes;
+      const days = (await this.getDays()).filter((d) => d >= startDate && d <= endDate).reverse();
+
+      const events: JournalEvent[] = [];
+      for (const day of days) {
+        events.push(...(await this.getDayEvents(day)));
+      }
+      return events;
+    } catch (error) {
+      console.error('Error loading journal:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get every event, oldest first
+   */
+  async getAllEvents(): Promise<JournalEvent[]> {
+    try {
+      await this.writes;
+      const events: JournalEvent[] = [];
+      for (const day of [...(await this.getDays())].reverse()) {
+        events.push(...(await this.getDayEvents(day)));
+      }
+      return events;
+    } catch (error) {
+      console.error('Error loading journal:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the events of the current cycle: the latest reset and everything after it
+   * Returns null if the journal has no reset, i.e. the cycle began before journaling did
+   */
+  async getCurrentCycle(): Promise<JournalEvent[] | null> {
+    try {
+      await this.writes;
+      let events: JournalEvent[] = [];
+      for (const day of await this.getDays()) {
+        events = [...(await this.getDayEvents(day)), ...events];
+        const reset = events.map((event) => event.type).lastIndexOf('reset');
+        if (reset >= 0) {
+          return events.slice(reset);
+        }
+      }
+      return null;
+    } catch (error) {
+      console.error('Error loading journal:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Drop days from whole months older than the retention policy
+   * (see HistoryManager.applyRetention)
+   */
+  async applyRetention(months?: number): Promise<void> {
+    if (!months || months < 1) {
+      return;
+    }
+
+    try {
+      await this.writes;
+      const cutoffMonth = DateUtils.getMonthsAgo(months - 1);
+
+      const stored = await this.getDays();
+      const expired = stored.filter((day) => day < cutoffMonth);
+      if (expired.length === 0) {
+        return;
+      }
+
+      await this.storage.transaction([
+        ...expired.map((day) => ({ key: this.dayKey(day), value: undefined })),
+        { key: this.key('days'), value: stored.filter((day) => day >= cutoffMonth) },
+      ]);
+    } catch (error) {
+      console.error('Error applying journal retention:', error);
+    }
+  }
+
+  /**
+   * One-line description of an event for the activity log
+   */
+  static describe(event: JournalEvent, getItemName: (id: RoutineItemId) => string): string {
+    switch (event.type) {
+      case 'item_completed':
+        return event.method === 'none'
+          ? `Completed ${getItemName(event.itemId)}`
+          : `Completed ${getItemName(event.itemId)} (${event.method})`;
+      case 'item_uncompleted':
+        return `Unchecked ${getItemName(event.itemId)}`;
+      case 'progress_changed':
+        return `${getItemName(event.itemId)} set to ${event.value}`;
+      case 'reset':
+        return 'Routine reset for a new day';
+      case 'locked':
+        return 'Locked';
+      case 'unlocked':
+        return 'Unlocked';
+      case 'emergency_unlock':
+        return 'Emergency unlock used';
+      case 'settings_changed':
+        return 'Settings changed';
+      case 'day_recorded':
+        return `${event.record.date} recorded as ${(event.record.outcome ?? 'complete').replace('_', ' ')}`;
+    }
+  }
+
+  /**
+   * Merge two copies of one day's events (e.g. when restoring a backup)
+   * Identical events are kept once; the result is oldest first
+   */
+  static mergeEvents(current: JournalEvent[], incoming: JournalEvent[]): JournalEvent[] {
+    const seen = new Set(current.map((event) => JSON.stringify(event)));
+    const added = incoming.filter((event) => !seen.has(JSON.stringify(event)));
+    return [...current, ...added].sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  private key(name: keyof typeof STORAGE_KEYS.journal): string {
+    return getRoutineStorageKey(STORAGE_KEYS.journal[name], this.routineId);
+  }
+
+  private dayKey(day: string): string {
+    return getJournalDayKey(day, this.routineId);
+  }
+
+  /**
+   * Days with stored events, most recent first
+   */
+  private async getDays(): Promise<string[]> {
+    const days = await this.storage.getJSON<unknown>(this.key('days'));
+    return Array.isArray(days)
+      ? days
+          .filter((day) => /^\d{4}-\d{2}-\d{2}$/.test(day))
+          .sort()
+          .reverse()
+      : [];
+  }
+
+  private async getDayEvents(day: string): Promise<JournalEvent[]> {
+    const events = await this.storage.getJSON<unknown>(this.dayKey(day));
+    return Array.isArray(events)
+      ? events.filter(
+          (event) => typeof event?.type === 'string' && typeof event.timestamp === 'number'
+        )
+      : [];
+  }
+}
+
+/**
+ * Storage key of one day ("YYYY-MM-DD") of a routine's journal
+ */
+export function getJournalDayKey(day: string, routineId: RoutineId): string {
+  return getRoutineStorageKey(`${STORAGE_KEYS.journal.day}/${day}`, routineId);
+}
@@ -0,0 +1,42 @@
+import * as Sharing from 'expo-sharing';
+
+// Lazy load FileSystem to avoid module initialization errors
+async function getFileSystem() {
+  return import('expo-file-system/legacy');
+}
+
+export interface ExportFile {
+  fileName: string;
+  contents: string;
+  mimeType: string;
+  uti?: string; // iOS type identifier for the share sheet
+}
+
+export class FileExport {
+  /**
+   * Write a text file to the cache directory
+   * Returns the file's uri
+   */
+  static async writeToCache(file: ExportFile): Promise<string> {
+    const FS = await getFileSystem();
+    if (!FS.cacheDirectory) {
+      throw new Error('FileSystem not available');
+    }
+
+    const uri = `${FS.cacheDirectory}${file.fileName}`;
+    await FS.writeAsStringAsync(uri, file.contents);
+    return uri;
+  }
+
+  /**
+   * Write a text file and open the share sheet for it
+   */
+  static async share(file: ExportFile, dialogTitle: string): Promise<void> {
+    const uri = await this.writeToCache(file);
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error(`Sharing isn't available here. The file is at ${uri}`);
+    }
+
+    await Sharing.shareAsync(uri, { mimeType: file.mimeType, UTI: file.uti, dialogTitle });
+  }
+}
@@ -0,0 +1,103 @@
+import { HistoryExporter } from './HistoryExporter';
+import { HistoryManager, DailyRecord } from './HistoryManager';
+import { MemoryStorageBackend, StorageAdapter } from './Storage';
+
+const RECORDS: DailyRecord[] = [
+  {
+    date: '2025-01-22',
+    completedItems: [],
+    startedAt: 0,
+    completedAt: new Date(2025, 0, 22, 23, 59).getTime(),
+    totalTime: 0,
+    wasLocked: false,
+    outcome: 'missed',
+  },
+  {
+    date: '2025-01-21',
+    completedItems: ['water', 'coffee'],
+    startedAt: new Date(2025, 0, 21, 7, 0).getTime(),
+    completedAt: new Date(2025, 0, 21, 7, 25, 30).getTime(),
+    totalTime: 25.5 * 60000,
+    wasLocked: true,
+    outcome: 'complete',
+    bonusItems: ['stretch'],
+  },
+  {
+    date: '2025-01-10',
+    completedItems: ['water'],
+    startedAt: 1,
+    completedAt: 2,
+    totalTime: 1,
+    wasLocked: false,
+  },
+];
+
+const NAMES: Record<string, string> = {
+  water: 'Drink "water"',
+  coffee: 'Coffee, black',
+  stretch: 'Stretch',
+};
+
+describe('HistoryExporter', () => {
+  let exporter: HistoryExporter;
+
+  beforeEach(async () => {
+    const historyManager = new HistoryManager(
+      'morning',
+      new StorageAdapter(new MemoryStorageBackend())
+    );
+    for (const record of RECORDS) {
+      await historyManager.recordOutcome(record);
+    }
+    exporter = new HistoryExporter(historyManager, (id) => NAMES[id] ?? id);
+  });
+
+  describe('export', () => {
+    it('should export the chosen range as CSV, oldest first', async () => {
+      const file = await exporter.export('2025-01-15', '2025-01-31', 'csv', 'Morning');
+
+      expect(file.fileName).toBe('morning-history-2025-01-15-to-2025-01-31.csv');
+      expect(file.mimeType).toBe('text/csv');
+      expect(file.contents.split('\r\n')).toEqual([
+        'date,outcome,completed_items,bonus_items,started_at,completed_at,duration_minutes,was_locked',
+        '2025-01-21,complete,"Drink ""water""; Coffee, black",Stretch,2025-01-21 07:00:00,2025-01-21 07:25:30,25.5,yes',
+        '2025-01-22,missed,,,,2025-01-22 23:59:00,0,no',
+        '',
+      ]);
+    });
+
+    it('should export JSON with item names and local times', async () => {
+      const file = await exporter.export('2025-01-01', '2025-01-21', 'json');
+
+      expect(file.fileName).toBe('routine-history-2025-01-01-to-2025-01-21.json');
+      expect(JSON.parse(file.contents)).toEqual([
+        {
+          date: '2025-01-10',
+          outcome: 'complete',
+          completedItems: ['Drink "water"'],
+          bonusItems: [],
+          startedAt: expect.any(String),
+          completedAt: expect.any(String),
+          durationMinutes: 0,
+          wasLocked: false,
+        },
+        {
+          date: '2025-01-21',
+          outcome: 'complete',
+          completedItems: ['Drink "water"', 'Coffee, black'],
+          bonusItems: ['Stretch'],
+          startedAt: '2025-01-21 07:00:00',
+          completedAt: '2025-01-21 07:25:30',
+          durationMinutes: 25.5,
+          wasLocked: true,
+        },
+      ]);
+    });
+
+    it('should produce only a header for an empty range', async () => {
+      const file = await exporter.export('2024-01-01', '2024-01-31', 'csv');
+
+      expect(file.contents.split('\r\n')).toHaveLength(2);
+    });
+  });
+});
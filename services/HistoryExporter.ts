@@ -0,0 +1,122 @@
+import { HistoryManager, DailyRecord } from './HistoryManager';
+import { RoutineItemId } from '../types/RoutineItem';
+import { DateUtils } from './DateUtils';
+import { ExportFile } from './FileExport';
+
+export type HistoryExportFormat = 'csv' | 'json';
+
+const CSV_COLUMNS = [
+  'date',
+  'outcome',
+  'completed_items',
+  'bonus_items',
+  'started_at',
+  'completed_at',
+  'duration_minutes',
+  'was_locked',
+];
+
+/**
+ * One exported day, shaped for spreadsheets and scripts rather than for storage
+ */
+export interface ExportedDay {
+  date: string;
+  outcome: string;
+  completedItems: string[];
+  bonusItems: string[];
+  startedAt: string | null; // Local "YYYY-MM-DD HH:MM:SS"; null if never started
+  completedAt: string | null;
+  durationMinutes: number;
+  wasLocked: boolean;
+}
+
+/**
+ * Turns completion history into CSV or JSON files
+ */
+export class HistoryExporter {
+  private historyManager: HistoryManager;
+  private getItemName: (id: RoutineItemId) => string;
+
+  /**
+   * @param getItemName Display name for an item id (ids are exported as-is without one)
+   */
+  constructor(
+    historyManager: HistoryManager,
+    getItemName: (id: RoutineItemId) => string = (id) => id
+  ) {
+    this.historyManager = historyManager;
+    this.getItemName = getItemName;
+  }
+
+  /**
+   * Build an export of every record between two ISO dates (inclusive), oldest first
+   */
+  async export(
+    startDate: string,
+    endDate: string,
+    format: HistoryExportFormat,
+    routineName = 'routine'
+  ): Promise<ExportFile> {
+    const records = await this.historyManager.getRecordsInRange(startDate, endDate);
+    const days = [...records]
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .map((record) => this.toExportedDay(record));
+    const slug = routineName.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    const fileName = `${slug}-history-${startDate}-to-${endDate}.${format}`;
+
+    return format === 'csv'
+      ? {
+          fileName,
+          contents: HistoryExporter.toCSV(days),
+          mimeType: 'text/csv',
+          uti: 'public.comma-separated-values-text',
+        }
+      : {
+          fileName,
+          contents: JSON.stringify(days, null, 2),
+          mimeType: 'application/json',
+          uti: 'public.json',
+        };
+  }
+
+  toExportedDay(record: DailyRecord): ExportedDay {
+    return {
+      date: record.date,
+      outcome: HistoryManager.getOutcome(record),
+      completedItems: record.completedItems.map(this.getItemName),
+      bonusItems: (record.bonusItems ?? []).map(this.getItemName),
+      startedAt: record.startedAt ? DateUtils.formatDateTime(new Date(record.startedAt)) : null,
+      completedAt: record.completedAt
+        ? DateUtils.formatDateTime(new Date(record.completedAt))
+        : null,
+      durationMinutes: Math.round((record.totalTime / 60000) * 10) / 10,
+      wasLocked: record.wasLocked,
+    };
+  }
+
+  /**
+   * RFC 4180 CSV with a header row; item lists are joined with "; "
+   */
+  static toCSV(days: ExportedDay[]): string {
+    const rows = days.map((day) =>
+      [
+        day.date,
+        day.outcome,
+        day.completedItems.join('; '),
+        day.bonusItems.join('; '),
+        day.startedAt ?? '',
+        day.completedAt ?? '',
+        String(day.durationMinutes),
+        day.wasLocked ? 'yes' : 'no',
+      ]
+        .map(HistoryExporter.escapeCSV)
+        .join(',')
+    );
+
+    return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+  }
+
+  private static escapeCSV(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }
+}
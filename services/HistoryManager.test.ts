@@ -2,10 +2,49 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import { HistoryManager, DailyRecord, StreakData } from './HistoryManager';
 import { RoutineItem } from '../types/RoutineItem';
 import { DateUtils } from './DateUtils';
+import { MemoryStorageBackend, StorageAdapter } from './Storage';
+import { ScheduleHistory } from './ScheduleHistory';
+import { ScheduleExceptions } from './ScheduleExceptions';
+import { AppSettings, SettingsManager } from './SettingsManager';
 
 // Mock AsyncStorage
 jest.mock('@react-native-async-storage/async-storage');
 
+/**
+ * Serve records from the monthly history keys, plus any other stored values
+ */
+const mockStoredHistory = (records: DailyRecord[], values: Record<string, unknown> = {}) => {
+  const months = new Map<string, DailyRecord[]>();
+  for (const record of records) {
+    const month = record.date.slice(0, 7);
+    months.set(month, [...(months.get(month) ?? []), record]);
+  }
+
+  (AsyncStorage.getItem as jest.Mock).mockImplementation((key: string) => {
+    if (key === 'historyMonths') {
+      return Promise.resolve(JSON.stringify([...months.keys()].sort().reverse()));
+    }
+    if (key.startsWith('historyMonth/')) {
+      const month = months.get(key.slice('historyMonth/'.length));
+      return Promise.resolve(month ? JSON.stringify(month) : null);
+    }
+    return Promise.resolve(key in values ? JSON.stringify(values[key]) : null);
+  });
+};
+
+/**
+ * Records from the latest write to each history month, most recent first
+ */
+const savedHistory = (): DailyRecord[] => {
+  const months = new Map<string, DailyRecord[]>();
+  for (const [key, value] of (AsyncStorage.setItem as jest.Mock).mock.calls) {
+    if (key.startsWith('historyMonth/')) {
+      months.set(key, JSON.parse(value));
+    }
+  }
+  return [...months.values()].flat().sort((a, b) => b.date.localeCompare(a.date));
+};
+
 describe('HistoryManager', () => {
   let historyManager: HistoryManager;
 
@@ -25,12 +64,11 @@ describe('HistoryManager', () => {
       await historyManager.recordCompletion(items, startTime, endTime, true);
 
       expect(AsyncStorage.setItem).toHaveBeenCalledWith(
-        'dailyCompletionHistory',
+        `historyMonth/${DateUtils.getTodayISO().slice(0, 7)}`,
         expect.any(String)
       );
 
-      const savedData = (AsyncStorage.setItem as jest.Mock).mock.calls[0][1];
-      const history: DailyRecord[] = JSON.parse(savedData);
+      const history = savedHistory();
 
       expect(history).toHaveLength(1);
       expect(history[0].date).toBe(DateUtils.getTodayISO());
@@ -50,7 +88,7 @@ describe('HistoryManager', () => {
         wasLocked: false,
       };
 
-      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(JSON.stringify([existingRecord]));
+      mockStoredHistory([existingRecord]);
 
       const items = [RoutineItem.PUSHUPS, RoutineItem.WATER, RoutineItem.COFFEE_BREAKFAST];
       const startTime = Date.now() - 400000;
@@ -58,18 +96,16 @@ describe('HistoryManager', () => {
 
       await historyManager.recordCompletion(items, startTime, endTime, true);
 
-      const savedData = (AsyncStorage.setItem as jest.Mock).mock.calls[0][1];
-      const history: DailyRecord[] = JSON.parse(savedData);
+      const history = savedHistory();
 
       expect(history).toHaveLength(1);
       expect(history[0].completedItems).toEqual(items);
       expect(history[0].wasLocked).toBe(true);
     });
 
-    it('should keep only last 90 days of records', async () => {
-      // Create 95 days of records
+    it('should keep all history and only rewrite the current month', async () => {
       const records: DailyRecord[] = [];
-      for (let i = 0; i < 95; i++) {
+      for (let i = 1; i < 400; i++) {
         records.push({
           date: DateUtils.getDateDaysAgo(i),
           completedItems: [RoutineItem.PUSHUPS],
@@ -80,15 +116,258 @@ describe('HistoryManager', () => {
         });
       }
 
-      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(JSON.stringify(records));
+      mockStoredHistory(records);
+
+      await historyManager.recordCompletion([RoutineItem.PUSHUPS], Date.now(), Date.now(), false);
+
+      const writtenMonths = (AsyncStorage.setItem as jest.Mock).mock.calls
+        .map(([key]) => key)
+        .filter((key: string) => key.startsWith('historyMonth/'));
+      expect(writtenMonths).toEqual([`historyMonth/${DateUtils.getTodayISO().slice(0, 7)}`]);
+      expect(AsyncStorage.removeItem).not.toHaveBeenCalledWith(
+        expect.stringMatching(/^historyMonth\//)
+      );
+    });
+  });
+
+  describe('outcomes', () => {
+    const makeRecord = (
+      date: string,
+      outcome: DailyRecord['outcome'],
+      completedItems = [RoutineItem.PUSHUPS]
+    ): DailyRecord => ({
+      date,
+      completedItems,
+      startedAt: 1000,
+      completedAt: 2000,
+      totalTime: 1000,
+      wasLocked: false,
+      outcome,
+    });
+
+    it('should treat records without an outcome as complete', () => {
+      expect(HistoryManager.getOutcome(makeRecord('2025-01-21', undefined))).toBe('complete');
+    });
+
+    it('should record partial and missed days', async () => {
+      mockStoredHistory([makeRecord('2025-01-20', 'missed', [])]);
+
+      await historyManager.recordOutcome(makeRecord('2025-01-21', 'partial'));
+
+      expect(savedHistory().map((r) => [r.date, r.outcome])).toEqual([
+        ['2025-01-21', 'partial'],
+        ['2025-01-20', 'missed'],
+      ]);
+    });
+
+    it('should not downgrade a better outcome for the same day', async () => {
+      mockStoredHistory([makeRecord('2025-01-21', 'complete')]);
+
+      await historyManager.recordOutcome(makeRecord('2025-01-21', 'partial'));
+
+      expect(AsyncStorage.setItem).not.toHaveBeenCalled();
+    });
 
-      const items = [RoutineItem.PUSHUPS];
-      await historyManager.recordCompletion(items, Date.now(), Date.now(), false);
+    it('should upgrade a partial day to complete', async () => {
+      mockStoredHistory([makeRecord('2025-01-21', 'partial')]);
 
-      const savedData = (AsyncStorage.setItem as jest.Mock).mock.calls[0][1];
-      const history: DailyRecord[] = JSON.parse(savedData);
+      await historyManager.recordOutcome(makeRecord('2025-01-21', 'complete'));
 
-      expect(history).toHaveLength(90);
+      expect(savedHistory()).toHaveLength(1);
+      expect(savedHistory()[0].outcome).toBe('complete');
+    });
+
+    it('should keep the locked flag when the same outcome is recorded again', async () => {
+      mockStoredHistory([{ ...makeRecord('2025-01-21', 'complete'), wasLocked: true }]);
+
+      await historyManager.recordOutcome({
+        ...makeRecord('2025-01-21', 'complete'),
+        bonusItems: [RoutineItem.MUSIC],
+      });
+
+      expect(savedHistory()[0].wasLocked).toBe(true);
+      expect(savedHistory()[0].bonusItems).toEqual([RoutineItem.MUSIC]);
+    });
+
+    it('should only count complete days towards rate, streak and today', async () => {
+      const records = [
+        makeRecord(DateUtils.getTodayISO(), 'partial'),
+        makeRecord(DateUtils.getDateDaysAgo(1), 'complete'),
+        makeRecord(DateUtils.getDateDaysAgo(2), 'emergency_unlocked'),
+        makeRecord(DateUtils.getDateDaysAgo(3), 'missed', []),
+      ];
+      mockStoredHistory(records);
+
+      // Today is still in progress, so 1 of the 3 earlier days
+      expect(await historyManager.getCompletionRate(4)).toBe(33);
+      expect(await historyManager.wasCompletedToday()).toBe(false);
+
+      const streak = await historyManager.getStreakData();
+      expect(streak.currentStreak).toBe(1);
+      expect(streak.longestStreak).toBe(1);
+      expect(streak.totalCompletions).toBe(1);
+    });
+  });
+
+  describe('getBonusStats', () => {
+    it('should total bonus items and the days they were done', async () => {
+      const records: DailyRecord[] = [
+        {
+          date: '2025-01-21',
+          completedItems: [],
+          startedAt: 0,
+          completedAt: 0,
+          totalTime: 0,
+          wasLocked: false,
+          bonusItems: [RoutineItem.MUSIC, 'stretch'],
+        },
+        {
+          date: '2025-01-20',
+          completedItems: [],
+          startedAt: 0,
+          completedAt: 0,
+          totalTime: 0,
+          wasLocked: false,
+        },
+        {
+          date: '2025-01-19',
+          completedItems: [],
+          startedAt: 0,
+          completedAt: 0,
+          totalTime: 0,
+          wasLocked: false,
+          bonusItems: ['stretch'],
+        },
+      ];
+      mockStoredHistory(records);
+
+      expect(await historyManager.getBonusStats()).toEqual({
+        totalBonusItems: 3,
+        daysWithBonus: 2,
+      });
+    });
+  });
+
+  describe('getQuantityTrends', () => {
+    it('should list quantities per item oldest first with the average', async () => {
+      const makeRecord = (daysAgo: number, quantities?: Record<string, number>): DailyRecord => ({
+        date: DateUtils.getDateDaysAgo(daysAgo),
+        completedItems: [],
+        startedAt: 0,
+        completedAt: 0,
+        totalTime: 0,
+        wasLocked: false,
+        quantities,
+      });
+      const records = [
+        makeRecord(0, { [RoutineItem.WATER]: 3 }),
+        makeRecord(1),
+        makeRecord(2, { [RoutineItem.WATER]: 1, pages: 10 }),
+        makeRecord(20, { [RoutineItem.WATER]: 8 }),
+      ];
+      mockStoredHistory(records);
+
+      const trends = await historyManager.getQuantityTrends(7);
+
+      expect(trends).toEqual([
+        {
+          itemId: RoutineItem.WATER,
+          values: [
+            { date: DateUtils.getDateDaysAgo(2), value: 1 },
+            { date: DateUtils.getDateDaysAgo(0), value: 3 },
+          ],
+          average: 2,
+        },
+        {
+          itemId: 'pages',
+          values: [{ date: DateUtils.getDateDaysAgo(2), value: 10 }],
+          average: 10,
+        },
+      ]);
+    });
+  });
+
+  describe('timeline', () => {
+    const baseRecord: DailyRecord = {
+      date: '2025-01-21',
+      completedItems: [RoutineItem.WATER, RoutineItem.PUSHUPS],
+      startedAt: 1000,
+      completedAt: 400000,
+      totalTime: 399000,
+      wasLocked: false,
+    };
+
+    it('should store the timeline with the record', async () => {
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
+      const timeline = [
+        {
+          itemId: RoutineItem.WATER,
+          action: 'completed' as const,
+          timestamp: 1000,
+          method: 'photo',
+        },
+      ];
+
+      await historyManager.recordCompletion([RoutineItem.WATER], 1000, 2000, false, timeline);
+
+      const history = savedHistory();
+      expect(history[0].timeline).toEqual(timeline);
+    });
+
+    it('should build steps from the final completion of each item', () => {
+      const steps = HistoryManager.getTimelineSteps({
+        ...baseRecord,
+        timeline: [
+          { itemId: RoutineItem.WATER, action: 'completed', timestamp: 1000, method: 'photo' },
+          { itemId: RoutineItem.PUSHUPS, action: 'completed', timestamp: 60000, method: 'none' },
+          { itemId: RoutineItem.PUSHUPS, action: 'uncompleted', timestamp: 61000, method: 'none' },
+          {
+            itemId: RoutineItem.PUSHUPS,
+            action: 'completed',
+            timestamp: 400000,
+            method: 'motion-reps',
+          },
+        ],
+      });
+
+      expect(steps).toEqual([
+        { itemId: RoutineItem.WATER, completedAt: 1000, duration: 0, method: 'photo' },
+        {
+          itemId: RoutineItem.PUSHUPS,
+          completedAt: 400000,
+          duration: 399000,
+          method: 'motion-reps',
+        },
+      ]);
+    });
+
+    it('should return no steps for records without a timeline', () => {
+      expect(HistoryManager.getTimelineSteps(baseRecord)).toEqual([]);
+    });
+
+    it('should average step durations across days', async () => {
+      const records: DailyRecord[] = [
+        {
+          ...baseRecord,
+          timeline: [
+            { itemId: RoutineItem.WATER, action: 'completed', timestamp: 0, method: 'photo' },
+            { itemId: RoutineItem.PUSHUPS, action: 'completed', timestamp: 100, method: 'none' },
+          ],
+        },
+        {
+          ...baseRecord,
+          date: '2025-01-20',
+          timeline: [
+            { itemId: RoutineItem.WATER, action: 'completed', timestamp: 0, method: 'photo' },
+            { itemId: RoutineItem.PUSHUPS, action: 'completed', timestamp: 300, method: 'none' },
+          ],
+        },
+      ];
+      mockStoredHistory(records);
+
+      const averages = await historyManager.getAverageStepDurations();
+
+      expect(averages).toEqual({ [RoutineItem.PUSHUPS]: 200 });
     });
   });
 
@@ -104,7 +383,7 @@ describe('HistoryManager', () => {
         wasLocked: true,
       };
 
-      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(JSON.stringify([todayRecord]));
+      mockStoredHistory([todayRecord]);
 
       const record = await historyManager.getTodayRecord();
 
@@ -123,7 +402,7 @@ describe('HistoryManager', () => {
         wasLocked: false,
       };
 
-      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(JSON.stringify([yesterdayRecord]));
+      mockStoredHistory([yesterdayRecord]);
 
       const record = await historyManager.getTodayRecord();
 
@@ -145,7 +424,7 @@ describe('HistoryManager', () => {
         });
       }
 
-      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(JSON.stringify(records));
+      mockStoredHistory(records);
 
       const last30 = await historyManager.getLast30Days();
 
@@ -161,6 +440,7 @@ describe('HistoryManager', () => {
         lastCompletionDate: DateUtils.getTodayISO(),
         totalCompletions: 20,
         completionDates: [],
+        computedOn: DateUtils.getTodayISO(),
       };
 
       (AsyncStorage.getItem as jest.Mock).mockImplementation((key: string) => {
@@ -176,6 +456,37 @@ describe('HistoryManager', () => {
       expect(data.longestStreak).toBe(10);
     });
 
+    it('should recalculate a streak cached on an earlier day', async () => {
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date(2025, 0, 24, 9, 0));
+      const completed = (date: string): DailyRecord => ({
+        date,
+        completedItems: [RoutineItem.PUSHUPS],
+        startedAt: 0,
+        completedAt: 0,
+        totalTime: 0,
+        wasLocked: false,
+      });
+      // Counted on the 21st; the 22nd and 23rd were missed since
+      mockStoredHistory([completed('2025-01-21'), completed('2025-01-20')], {
+        streakData: {
+          currentStreak: 2,
+          longestStreak: 2,
+          lastCompletionDate: '2025-01-21',
+          totalCompletions: 2,
+          completionDates: ['2025-01-21', '2025-01-20'],
+          computedOn: '2025-01-21',
+        },
+      });
+
+      const data = await historyManager.getStreakData();
+      jest.useRealTimers();
+
+      expect(data.currentStreak).toBe(0);
+      expect(data.longestStreak).toBe(2);
+      expect(data.computedOn).toBe('2025-01-24');
+    });
+
     it('should calculate streak data if not cached', async () => {
       const today = DateUtils.getTodayISO();
       const yesterday = DateUtils.getDateDaysAgo(1);
@@ -198,12 +509,7 @@ describe('HistoryManager', () => {
         },
       ];
 
-      (AsyncStorage.getItem as jest.Mock).mockImplementation((key: string) => {
-        if (key === 'dailyCompletionHistory') {
-          return Promise.resolve(JSON.stringify(records));
-        }
-        return Promise.resolve(null);
-      });
+      mockStoredHistory(records);
 
       const data = await historyManager.getStreakData();
 
@@ -211,21 +517,194 @@ describe('HistoryManager', () => {
       expect(data.totalCompletions).toBe(2);
     });
 
+    it('should keep the streak through yesterday before today is finished', async () => {
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date(2025, 0, 21, 6, 0));
+
+      mockStoredHistory(
+        [1, 2, 3, 4, 5].map((daysAgo) => ({
+          date: DateUtils.getDateDaysAgo(daysAgo),
+          completedItems: [RoutineItem.PUSHUPS],
+          startedAt: 1000,
+          completedAt: 2000,
+          totalTime: 1000,
+          wasLocked: false,
+        }))
+      );
+
+      const data = await historyManager.getStreakData();
+      jest.useRealTimers();
+
+      expect(data.currentStreak).toBe(5);
+      expect(data.longestStreak).toBe(5);
+    });
+
     it('should return zero values for empty history', async () => {
       (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
 
       const data = await historyManager.getStreakData();
+      jest.useRealTimers();
 
       expect(data.currentStreak).toBe(0);
       expect(data.longestStreak).toBe(0);
       expect(data.totalCompletions).toBe(0);
     });
+
+    describe('streak freezes', () => {
+      let storage: StorageAdapter;
+
+      const complete = (daysAgo: number): DailyRecord => ({
+        date: DateUtils.getDateDaysAgo(daysAgo),
+        completedItems: [RoutineItem.PUSHUPS],
+        startedAt: 0,
+        completedAt: 0,
+        totalTime: 0,
+        wasLocked: false,
+        outcome: 'complete',
+      });
+
+      const recordDays = async (daysAgo: number[]) => {
+        for (const days of daysAgo) {
+          await historyManager.recordOutcome(complete(days));
+        }
+      };
+
+      const setFreezeCap = async (streakFreezeCap: number) => {
+        await new SettingsManager('morning', storage).saveSettings({
+          ...SettingsManager.getDefaultSettings(),
+          streakFreezeCap,
+        });
+      };
+
+      beforeEach(() => {
+        storage = new StorageAdapter(new MemoryStorageBackend());
+        historyManager = new HistoryManager('morning', storage);
+      });
+
+      it('should spend a freeze earned by a 7-day streak on a missed day', async () => {
+        // Done 10 to 4 days ago, missed 3 days ago, done since
+        await recordDays([10, 9, 8, 7, 6, 5, 4, 2, 1, 0]);
+        await historyManager.recordOutcome({ ...complete(3), outcome: 'missed' });
+
+        const streak = await historyManager.getStreakData();
+        expect(streak.currentStreak).toBe(10);
+        expect(streak.freezeTokens).toBe(0);
+        expect(streak.frozenDates).toEqual([DateUtils.getDateDaysAgo(3)]);
+
+        // Recalculating from history spends it the same way
+        await storage.remove('streakData');
+        expect(await historyManager.getStreakData()).toEqual(streak);
+      });
+
+      it('should keep a streak with a frozen day before today is done', async () => {
+        await recordDays([10, 9, 8, 7, 6, 5, 4, 2, 1]);
+        await historyManager.recordOutcome({ ...complete(3), outcome: 'missed' });
+
+        const streak = await historyManager.getStreakData();
+        expect(streak.currentStreak).toBe(9);
+        expect(streak.frozenDates).toEqual([DateUtils.getDateDaysAgo(3)]);
+      });
+
+      it('should not hold more freezes than the cap', async () => {
+        await setFreezeCap(1);
+        await recordDays(Array.from({ length: 21 }, (_, i) => i));
+
+        const streak = await historyManager.getStreakData();
+        expect(streak.currentStreak).toBe(21);
+        expect(streak.freezeTokens).toBe(1);
+      });
+
+      it('should end the streak on a miss without a freeze', async () => {
+        await recordDays([5, 4, 3, 1, 0]);
+
+        const streak = await historyManager.getStreakData();
+        expect(streak.currentStreak).toBe(2);
+        expect(streak.frozenDates).toEqual([]);
+      });
+
+      it('should not earn freezes when they are turned off', async () => {
+        await setFreezeCap(0);
+        await recordDays([10, 9, 8, 7, 6, 5, 4, 2, 1, 0]);
+
+        const streak = await historyManager.getStreakData();
+        expect(streak.currentStreak).toBe(3);
+        expect(streak.freezeTokens).toBe(0);
+      });
+
+      it('should not spend a freeze on today before it is over', async () => {
+        await recordDays([7, 6, 5, 4, 3, 2, 1]);
+
+        const streak = await historyManager.getStreakData();
+        expect(streak.freezeTokens).toBe(1);
+        expect(streak.frozenDates).toEqual([]);
+      });
+    });
+
+    describe('across time zones', () => {
+      let storage: StorageAdapter;
+
+      const complete = (daysAgo: number, timeZone?: string): DailyRecord => ({
+        date: DateUtils.getDateDaysAgo(daysAgo),
+        completedItems: [RoutineItem.PUSHUPS],
+        startedAt: 0,
+        completedAt: 0,
+        totalTime: 0,
+        wasLocked: false,
+        outcome: 'complete',
+        timeZone,
+      });
+
+      beforeEach(() => {
+        storage = new StorageAdapter(new MemoryStorageBackend());
+        historyManager = new HistoryManager('morning', storage);
+      });
+
+      it('should stamp each record with the time zone it was recorded in', async () => {
+        await historyManager.recordOutcome(complete(0));
+
+        const record = await historyManager.getTodayRecord();
+        expect(record?.timeZone).toBe(DateUtils.getTimeZone());
+      });
+
+      it('should keep the streak over a date skipped by travel', async () => {
+        await historyManager.recordOutcome(complete(3, 'America/Los_Angeles'));
+        await historyManager.recordOutcome(complete(2, 'America/Los_Angeles'));
+        await historyManager.recordOutcome(complete(0, 'Asia/Tokyo'));
+
+        const streak = await historyManager.getStreakData();
+        expect(streak.currentStreak).toBe(3);
+        expect(streak.travelDates).toEqual([DateUtils.getDateDaysAgo(1)]);
+
+        // Recalculating from history finds the same gap
+        await storage.remove('streakData');
+        expect((await historyManager.getStreakData()).currentStreak).toBe(3);
+      });
+
+      it('should still break the streak on a missed day in one zone', async () => {
+        await historyManager.recordOutcome(complete(2, 'Asia/Tokyo'));
+        await historyManager.recordOutcome(complete(0, 'Asia/Tokyo'));
+
+        const streak = await historyManager.getStreakData();
+        expect(streak.currentStreak).toBe(1);
+        expect(streak.travelDates).toEqual([]);
+      });
+    });
   });
 
   describe('getCompletionRate', () => {
     it('should calculate completion rate correctly', async () => {
-      // Create records for 7 out of last 10 days
-      const records: DailyRecord[] = [];
+      // Complete on 7 of the last 10 days; history starts 10 days back
+      const records: DailyRecord[] = [
+        {
+          date: DateUtils.getDateDaysAgo(9),
+          completedItems: [],
+          startedAt: 0,
+          completedAt: 0,
+          totalTime: 0,
+          wasLocked: false,
+          outcome: 'missed',
+        },
+      ];
       for (let i = 0; i < 7; i++) {
         records.push({
           date: DateUtils.getDateDaysAgo(i),
@@ -237,7 +716,7 @@ describe('HistoryManager', () => {
         });
       }
 
-      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(JSON.stringify(records));
+      mockStoredHistory(records);
 
       const rate = await historyManager.getCompletionRate(10);
 
@@ -251,6 +730,130 @@ describe('HistoryManager', () => {
 
       expect(rate).toBe(0);
     });
+
+    describe('on scheduled days only', () => {
+      let storage: StorageAdapter;
+      let schedules: ScheduleHistory;
+
+      const complete = (daysAgo: number): DailyRecord => ({
+        date: DateUtils.getDateDaysAgo(daysAgo),
+        completedItems: [RoutineItem.PUSHUPS],
+        startedAt: 0,
+        completedAt: 0,
+        totalTime: 0,
+        wasLocked: false,
+        outcome: 'complete',
+      });
+
+      // Every day enabled except the weekday of the given date
+      const scheduleWithout = (date: string): AppSettings['schedule'] => {
+        const schedule = SettingsManager.getDefaultSettings().schedule;
+        const day = DateUtils.getDayOfWeek(DateUtils.parseISO(date));
+        return { ...schedule, [day]: { ...schedule[day], enabled: false } };
+      };
+
+      beforeEach(() => {
+        storage = new StorageAdapter(new MemoryStorageBackend());
+        schedules = new ScheduleHistory('morning', storage);
+        historyManager = new HistoryManager('morning', storage, undefined, schedules);
+      });
+
+      it('should leave out days the schedule disabled', async () => {
+        // 7 days of history, done every day but one whose weekday is switched off
+        for (const daysAgo of [1, 2, 3, 4, 5, 6]) {
+          await historyManager.recordOutcome(complete(daysAgo));
+        }
+        await schedules.record(scheduleWithout(DateUtils.getDateDaysAgo(7)), '');
+        await historyManager.recordOutcome({ ...complete(7), outcome: 'missed' });
+
+        expect(await historyManager.getCompletionRate(30)).toBe(100);
+        expect(await historyManager.getAllTimeCompletionRate()).toBe(100);
+      });
+
+      it('should judge each day by the schedule in force on it', async () => {
+        const disabledDay = DateUtils.getDateDaysAgo(7);
+        await historyManager.recordOutcome({ ...complete(7), outcome: 'missed' });
+        await historyManager.recordOutcome(complete(1));
+
+        // The day was scheduled then; switching it off now doesn't excuse the miss
+        await schedules.record(SettingsManager.getDefaultSettings().schedule, '');
+        await schedules.record(scheduleWithout(disabledDay));
+
+        // Of the 7 days before today only yesterday was done; today is off under the new schedule
+        expect(await historyManager.getAllTimeCompletionRate()).toBe(14);
+      });
+
+      it('should keep streaks across days the schedule had off', async () => {
+        const offDay = DateUtils.getDateDaysAgo(2);
+        await schedules.record(scheduleWithout(offDay), '');
+        for (const daysAgo of [0, 1, 3, 4]) {
+          await historyManager.recordOutcome(complete(daysAgo));
+        }
+
+        const streak = await historyManager.getStreakData();
+        expect(streak.currentStreak).toBe(4);
+        expect(streak.longestStreak).toBe(4);
+      });
+
+      it('should recalculate the same streak after an unrelated holiday drops it', async () => {
+        const exceptions = new ScheduleExceptions(storage);
+        historyManager = new HistoryManager('morning', storage, undefined, schedules, exceptions);
+        await schedules.record(scheduleWithout(DateUtils.getDateDaysAgo(2)), '');
+        for (const daysAgo of [0, 1, 3, 4]) {
+          await historyManager.recordOutcome(complete(daysAgo));
+        }
+        const before = await historyManager.getStreakData();
+
+        await exceptions.addException({
+          kind: 'holiday',
+          startDate: DateUtils.getDateDaysAgo(60),
+          endDate: DateUtils.getDateDaysAgo(60),
+        });
+
+        expect(await storage.getJSON('streakData')).toBeNull();
+        const after = await historyManager.getStreakData();
+        expect(after.currentStreak).toBe(4);
+        expect(after).toEqual(before);
+      });
+
+      it('should not let a later schedule edit excuse an earlier miss', async () => {
+        for (const daysAgo of [0, 1, 3, 4]) {
+          await historyManager.recordOutcome(complete(daysAgo));
+        }
+        await schedules.record(SettingsManager.getDefaultSettings().schedule, '');
+        await schedules.record(scheduleWithout(DateUtils.getDateDaysAgo(2)));
+        await storage.remove('streakData');
+
+        const streak = await historyManager.getStreakData();
+        expect(streak.currentStreak).toBe(2);
+        expect(streak.longestStreak).toBe(2);
+      });
+
+      it('should leave out vacations and sick days', async () => {
+        const exceptions = new ScheduleExceptions(storage);
+        historyManager = new HistoryManager('morning', storage, undefined, schedules, exceptions);
+        for (const daysAgo of [0, 1, 4, 5]) {
+          await historyManager.recordOutcome(complete(daysAgo));
+        }
+        await historyManager.recordOutcome({ ...complete(3), outcome: 'missed' });
+        await exceptions.addException({
+          kind: 'sick',
+          startDate: DateUtils.getDateDaysAgo(3),
+          endDate: DateUtils.getDateDaysAgo(2),
+        });
+
+        expect(await historyManager.getCompletionRate(30)).toBe(100);
+        const streak = await historyManager.getStreakData();
+        expect(streak.currentStreak).toBe(4);
+        expect(streak.longestStreak).toBe(4);
+      });
+
+      it('should count today once it is complete', async () => {
+        await historyManager.recordOutcome(complete(0));
+
+        expect(await historyManager.getCompletionRate(30)).toBe(100);
+      });
+    });
   });
 
   describe('getAverageCompletionTime', () => {
@@ -274,7 +877,7 @@ describe('HistoryManager', () => {
         },
       ];
 
-      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(JSON.stringify(records));
+      mockStoredHistory(records);
 
       const avgTime = await historyManager.getAverageCompletionTime();
 
@@ -302,7 +905,7 @@ describe('HistoryManager', () => {
         wasLocked: false,
       };
 
-      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(JSON.stringify([record]));
+      mockStoredHistory([record]);
 
       const wasCompleted = await historyManager.wasCompletedToday();
 
@@ -340,15 +943,7 @@ describe('HistoryManager', () => {
         completionDates: [today],
       };
 
-      (AsyncStorage.getItem as jest.Mock).mockImplementation((key: string) => {
-        if (key === 'dailyCompletionHistory') {
-          return Promise.resolve(JSON.stringify(records));
-        }
-        if (key === 'streakData') {
-          return Promise.resolve(JSON.stringify(streakData));
-        }
-        return Promise.resolve(null);
-      });
+      mockStoredHistory(records, { streakData });
 
       const stats = await historyManager.getStatistics();
 
@@ -373,16 +968,86 @@ describe('HistoryManager', () => {
         });
       }
 
-      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(JSON.stringify(records));
+      mockStoredHistory(records);
 
       await historyManager.cleanupOldRecords(30);
 
-      const savedData = (AsyncStorage.setItem as jest.Mock).mock.calls[0][1];
-      const cleanedHistory: DailyRecord[] = JSON.parse(savedData);
+      const cleanedHistory = savedHistory();
 
       // Should keep records from today to 30 days ago (31 records total: day 0 through day 30)
       expect(cleanedHistory.length).toBeLessThanOrEqual(31);
       expect(cleanedHistory.every((r) => r.date >= DateUtils.getDateDaysAgo(30))).toBe(true);
     });
   });
+  describe('monthly partitions', () => {
+    const makeRecord = (date: string): DailyRecord => ({
+      date,
+      completedItems: [RoutineItem.PUSHUPS],
+      startedAt: 1000,
+      completedAt: 2000,
+      totalTime: 1000,
+      wasLocked: false,
+    });
+
+    it('should only load the months a range overlaps', async () => {
+      mockStoredHistory([
+        makeRecord('2025-03-02'),
+        makeRecord('2025-02-14'),
+        makeRecord('2025-01-31'),
+        makeRecord('2024-12-25'),
+      ]);
+
+      const records = await historyManager.getRecordsInRange('2025-01-15', '2025-02-20');
+
+      expect(records.map((r) => r.date)).toEqual(['2025-02-14', '2025-01-31']);
+      const loadedMonths = (AsyncStorage.getItem as jest.Mock).mock.calls
+        .map(([key]) => key)
+        .filter((key: string) => key.startsWith('historyMonth/'));
+      expect(loadedMonths).toEqual(['historyMonth/2025-02', 'historyMonth/2025-01']);
+    });
+
+    it('should add a new month to the index', async () => {
+      mockStoredHistory([makeRecord('2025-01-31')]);
+
+      await historyManager.recordOutcome(makeRecord('2025-02-01'));
+
+      expect(AsyncStorage.setItem).toHaveBeenCalledWith(
+        'historyMonths',
+        JSON.stringify(['2025-02', '2025-01'])
+      );
+    });
+
+    it('should drop months outside the retention policy', async () => {
+      const thisMonth = DateUtils.parseISO(DateUtils.getTodayISO());
+      thisMonth.setDate(1);
+      const monthsAgo = (n: number) => {
+        const date = new Date(thisMonth);
+        date.setMonth(date.getMonth() - n);
+        return DateUtils.getDateISO(date);
+      };
+      mockStoredHistory([
+        makeRecord(monthsAgo(0)),
+        makeRecord(monthsAgo(2)),
+        makeRecord(monthsAgo(3)),
+      ]);
+
+      await historyManager.applyRetention(3);
+
+      expect(AsyncStorage.removeItem).toHaveBeenCalledWith(
+        `historyMonth/${monthsAgo(3).slice(0, 7)}`
+      );
+      expect(AsyncStorage.removeItem).not.toHaveBeenCalledWith(
+        `historyMonth/${monthsAgo(2).slice(0, 7)}`
+      );
+      expect(AsyncStorage.removeItem).toHaveBeenCalledWith('streakData');
+    });
+
+    it('should keep everything without a retention policy', async () => {
+      mockStoredHistory([makeRecord('2020-01-01')]);
+
+      await historyManager.applyRetention(undefined);
+
+      expect(AsyncStorage.removeItem).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -1,17 +1,62 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { RoutineItem } from '../types/RoutineItem';
+import { RoutineItemId, VerificationKind } from '../types/RoutineItem';
 import { DateUtils } from './DateUtils';
+import { DEFAULT_ROUTINE_ID, RoutineId, getRoutineStorageKey } from './RoutineCatalog';
+import { EventJournal } from './EventJournal';
+import { ScheduleHistory, ScheduleSnapshot } from './ScheduleHistory';
+import { ScheduleException, ScheduleExceptions } from './ScheduleExceptions';
+import { DEFAULT_STREAK_FREEZE_CAP, SettingsManager } from './SettingsManager';
+import { StorageAdapter, StorageChange } from './Storage';
+import { STORAGE_KEYS } from './StorageKeys';
+
+export interface ItemTimelineEvent {
+  itemId: RoutineItemId;
+  action: 'completed' | 'uncompleted';
+  timestamp: number;
+  method: VerificationKind; // How the item was verified ('none' for manual toggles)
+}
+
+export interface TimelineStep {
+  itemId: RoutineItemId;
+  completedAt: number;
+  duration: number; // ms since the previous step (0 for the first step)
+  method: VerificationKind;
+}
 
-const HISTORY_KEY = 'dailyCompletionHistory';
-const STREAK_KEY = 'streakData';
+/**
+ * How a scheduled day ended
+ * - complete: every item done
+ * - partial: some items done when the day was reset
+ * - missed: nothing done on a scheduled day
+ * - emergency_unlocked: the lock was overridden before finishing
+ */
+export type DayOutcome = 'complete' | 'partial' | 'missed' | 'emergency_unlocked';
+
+// Higher ranks win when two outcomes are recorded for the same day
+const OUTCOME_RANK: Record<DayOutcome, number> = {
+  missed: 0,
+  partial: 1,
+  emergency_unlocked: 2,
+  complete: 3,
+};
 
 export interface DailyRecord {
   date: string; // ISO: "2025-01-21"
-  completedItems: RoutineItem[];
-  startedAt: number; // Timestamp when first item marked
-  completedAt: number; // Timestamp when routine finished
+  completedItems: RoutineItemId[]; // Required item ids; legacy records hold the old enum strings
+  startedAt: number; // Timestamp when first item marked (0 if none)
+  completedAt: number; // Timestamp when routine finished or the day was closed
   totalTime: number; // Duration in ms
   wasLocked: boolean; // Was app locked during this routine?
+  timeline?: ItemTimelineEvent[]; // Per-item events; missing on older records
+  outcome?: DayOutcome; // Missing on older records, which only stored full completions
+  bonusItems?: RoutineItemId[]; // Optional items also completed that day
+  quantities?: Record<RoutineItemId, number>; // Amount reached for quantity items
+  timeZone?: string; // IANA zone the date was read in; missing on older records
+}
+
+export interface QuantityTrend {
+  itemId: RoutineItemId;
+  values: { date: string; value: number }[]; // Oldest first
+  average: number;
 }
 
 export interface StreakData {
@@ -20,51 +65,224 @@ export interface StreakData {
   lastCompletionDate: string;
   totalCompletions: number;
   completionDates: string[]; // All dates with 100% completion (sorted desc)
+  travelDates?: string[]; // Dates a time-zone change skipped; they don't break the streak
+  freezeTokens?: number; // Streak freezes held now
+  frozenDates?: string[]; // Missed days a streak freeze covered (sorted desc)
+  computedOn?: string; // Day it was calculated; the current streak can lapse after it
+}
+
+/**
+ * Days of unbroken streak that earn one streak freeze
+ */
+export const STREAK_FREEZE_INTERVAL = 7;
+
+/**
+ * Storage key of one month ("YYYY-MM") of a routine's history
+ */
+export function getHistoryMonthKey(month: string, routineId: RoutineId): string {
+  return getRoutineStorageKey(`${STORAGE_KEYS.history.month}/${month}`, routineId);
 }
 
+const EMPTY_STREAK: StreakData = {
+  currentStreak: 0,
+  longestStreak: 0,
+  lastCompletionDate: '',
+  totalCompletions: 0,
+  completionDates: [],
+  freezeTokens: 0,
+  frozenDates: [],
+};
+
+/**
+ * Records are stored in monthly partitions plus an index of the months that exist,
+ * so queries only load the months they need and history is never trimmed
+ * unless a retention policy asks for it
+ */
 export class HistoryManager {
+  private routineId: RoutineId;
+  private storage: StorageAdapter;
+  private journal: EventJournal;
+  private schedules: ScheduleHistory;
+  private exceptions: ScheduleExceptions;
+  private settingsManager: SettingsManager;
+
+  /**
+   * @param routineId Routine whose history and streak this manager tracks
+   * @param journal Where each recorded day is logged; history can be rebuilt from it
+   * @param schedules Which days were scheduled, for streaks and completion rates
+   * @param exceptions Vacations, sick days and holidays, left out like unscheduled days
+   * @param settingsManager Where the streak freeze cap is read from
+   */
+  constructor(
+    routineId: RoutineId = DEFAULT_ROUTINE_ID,
+    storage: StorageAdapter = new StorageAdapter(),
+    journal: EventJournal = new EventJournal(routineId, storage),
+    schedules: ScheduleHistory = new ScheduleHistory(routineId, storage),
+    exceptions: ScheduleExceptions = new ScheduleExceptions(storage),
+    settingsManager: SettingsManager = new SettingsManager(routineId, storage, journal, schedules)
+  ) {
+    this.routineId = routineId;
+    this.storage = storage;
+    this.journal = journal;
+    this.schedules = schedules;
+    this.exceptions = exceptions;
+    this.settingsManager = settingsManager;
+  }
+
+  getRoutineId(): RoutineId {
+    return this.routineId;
+  }
+
+  /**
+   * The routine's event journal, for the activity log
+   */
+  getJournal(): EventJournal {
+    return this.journal;
+  }
+
   /**
    * Record a completed routine
    */
   async recordCompletion(
-    items: RoutineItem[],
+    items: RoutineItemId[],
     startTime: number,
     endTime: number,
-    locked: boolean
+    locked: boolean,
+    timeline: ItemTimelineEvent[] = [],
+    bonusItems: RoutineItemId[] = [],
+    quantities: Record<RoutineItemId, number> = {}
   ): Promise<void> {
+    await this.recordOutcome({
+      date: DateUtils.getTodayISO(),
+      completedItems: items,
+      startedAt: startTime,
+      completedAt: endTime,
+      totalTime: endTime - startTime,
+      wasLocked: locked,
+      timeline,
+      outcome: 'complete',
+      bonusItems,
+      quantities,
+    });
+  }
+
+  /**
+   * Record how a day ended
+   * An existing record for the same date is only replaced by an equal or better
+   * outcome, so closing a day at reset never downgrades a completion
+   */
+  async recordOutcome(record: DailyRecord): Promise<void> {
+    record = record.timeZone ? record : { ...record, timeZone: DateUtils.getTimeZone() };
     try {
-      const today = DateUtils.getTodayISO();
+      const month = HistoryManager.getMonth(record.date);
+      const records = await this.getMonthRecords(month);
+      const existing = records.find((r) => r.date === record.date);
+      const merged = HistoryManager.pickRecord(existing, record);
+      if (merged === existing) {
+        return;
+      }
 
-      // Create daily record
-      const record: DailyRecord = {
-        date: today,
-        completedItems: items,
-        startedAt: startTime,
-        completedAt: endTime,
-        totalTime: endTime - startTime,
-        wasLocked: locked,
-      };
+      await this.journal.append({ type: 'day_recorded', timestamp: Date.now(), record: merged });
 
-      // Add to history
-      const history = await this.getHistory();
+      // Replace any existing record for the date; the streak is updated with it
+      const monthChanges = await this.getMonthChanges(
+        new Map([[month, [...records.filter((r) => r.date !== record.date), merged]]])
+      );
+      const streak = await this.getUpdatedStreak(merged);
+      await this.storage.transaction([...monthChanges, { key: this.key('streak'), value: streak }]);
+    } catch (error) {
+      console.error('Error recording outcome:', error);
+    }
+  }
 
-      // Remove any existing record for today (replace)
-      const filteredHistory = history.filter((r) => r.date !== today);
+  /**
+   * Restore every day the journal recorded
+   * Days missing from history or stored with a worse outcome are brought back; days from
+   * before journaling began are left alone. The streak is recalculated afterwards.
+   * Returns how many days changed.
+   */
+  async rebuildFromJournal(): Promise<number> {
+    try {
+      const journaled = (await this.journal.getAllEvents()).flatMap((event) =>
+        event.type === 'day_recorded' ? [event.record] : []
+      );
+
+      const byMonth = new Map<string, DailyRecord[]>();
+      for (const record of journaled) {
+        const month = HistoryManager.getMonth(record.date);
+        byMonth.set(month, [...(byMonth.get(month) ?? []), record]);
+      }
+
+      let changed = 0;
+      const updates = new Map<string, DailyRecord[]>();
+      for (const [month, records] of byMonth) {
+        const current = await this.getMonthRecords(month);
+        const merged = HistoryManager.mergeHistories(current, records);
+        const before = new Map(current.map((r) => [r.date, JSON.stringify(r)]));
+        const count = merged.filter((r) => before.get(r.date) !== JSON.stringify(r)).length;
+        if (count > 0) {
+          changed += count;
+          updates.set(month, merged);
+        }
+      }
 
-      // Add new record at beginning (most recent first)
-      filteredHistory.unshift(record);
+      if (changed > 0) {
+        await this.storage.transaction([
+          ...(await this.getMonthChanges(updates)),
+          { key: this.key('streak'), value: undefined },
+        ]);
+      }
+      return changed;
+    } catch (error) {
+      console.error('Error rebuilding history from journal:', error);
+      return 0;
+    }
+  }
 
-      // Keep only last 90 days
-      const trimmedHistory = filteredHistory.slice(0, 90);
+  /**
+   * Combine two histories (e.g. when restoring a backup)
+   * Days in both keep the better outcome, as when recording
+   */
+  static mergeHistories(current: DailyRecord[], incoming: DailyRecord[]): DailyRecord[] {
+    const byDate = new Map(current.map((record) => [record.date, record]));
+    for (const record of incoming) {
+      byDate.set(record.date, HistoryManager.pickRecord(byDate.get(record.date), record));
+    }
 
-      // Save history
-      await AsyncStorage.setItem(HISTORY_KEY, JSON.stringify(trimmedHistory));
+    return [...byDate.values()].sort((a, b) => b.date.localeCompare(a.date));
+  }
 
-      // Update streak data
-      await this.updateStreakData(trimmedHistory);
-    } catch (error) {
-      console.error('Error recording completion:', error);
+  /**
+   * Which of two records for the same date to keep
+   * A later record (e.g. items finished after unlocking) must not forget that the
+   * day was locked, and an emergency unlock stays the day's outcome
+   */
+  private static pickRecord(existing: DailyRecord | undefined, record: DailyRecord): DailyRecord {
+    if (!existing) {
+      return record;
     }
+
+    const existingOutcome = HistoryManager.getOutcome(existing);
+    if (OUTCOME_RANK[existingOutcome] > OUTCOME_RANK[HistoryManager.getOutcome(record)]) {
+      return existing;
+    }
+
+    const wasLocked = record.wasLocked || existing.wasLocked;
+    if (existingOutcome === 'emergency_unlocked') {
+      return { ...record, wasLocked, outcome: existingOutcome };
+    }
+    return { ...record, wasLocked };
+  }
+
+  private key(name: keyof typeof STORAGE_KEYS.history): string {
+    return getRoutineStorageKey(STORAGE_KEYS.history[name], this.routineId);
+  }
+
+  /**
+   * Outcome of a record; records from before outcomes existed were full completions
+   */
+  static getOutcome(record: DailyRecord): DayOutcome {
+    return record.outcome ?? 'complete';
   }
 
   /**
@@ -73,21 +291,34 @@ export class HistoryManager {
   async getTodayRecord(): Promise<DailyRecord | null> {
     try {
       const today = DateUtils.getTodayISO();
-      const history = await this.getHistory();
-      return history.find((r) => r.date === today) || null;
+      const records = await this.getMonthRecords(HistoryManager.getMonth(today));
+      return records.find((r) => r.date === today) || null;
     } catch (error) {
       console.error('Error getting today record:', error);
       return null;
     }
   }
 
+  private async getRecord(date: string): Promise<DailyRecord | null> {
+    const records = await this.getMonthRecords(HistoryManager.getMonth(date));
+    return records.find((r) => r.date === date) ?? null;
+  }
+
   /**
-   * Get all records in date range
+   * Get all records in date range (inclusive), most recent first
+   * Only the months overlapping the range are loaded
    */
   async getRecordsInRange(startDate: string, endDate: string): Promise<DailyRecord[]> {
     try {
-      const history = await this.getHistory();
-      return history.filter((r) => r.date >= startDate && r.date <= endDate);
+      const first = HistoryManager.getMonth(startDate);
+      const last = HistoryManager.getMonth(endDate);
+      const months = (await this.getMonths()).filter((m) => m >= first && m <= last);
+
+      const records: DailyRecord[] = [];
+      for (const month of months) {
+        records.push(...(await this.getMonthRecords(month)));
+      }
+      return records.filter((r) => r.date >= startDate && r.date <= endDate);
     } catch (error) {
       console.error('Error getting records in range:', error);
       return [];
@@ -99,8 +330,14 @@ export class HistoryManager {
    */
   async getLast30Days(): Promise<DailyRecord[]> {
     try {
-      const history = await this.getHistory();
-      return history.slice(0, 30);
+      const records: DailyRecord[] = [];
+      for (const month of await this.getMonths()) {
+        if (records.length >= 30) {
+          break;
+        }
+        records.push(...(await this.getMonthRecords(month)));
+      }
+      return records.slice(0, 30);
     } catch (error) {
       console.error('Error getting last 30 days:', error);
       return [];
@@ -109,55 +346,147 @@ export class HistoryManager {
 
   /**
    * Get streak data
+   * The cached copy is only used on the day it was calculated
    */
   async getStreakData(): Promise<StreakData> {
     try {
-      const data = await AsyncStorage.getItem(STREAK_KEY);
-      if (data) {
-        return JSON.parse(data);
+      const data = await this.storage.getJSON<StreakData>(this.key('streak'));
+      if (data && data.computedOn === DateUtils.getTodayISO()) {
+        return data;
       }
 
-      // No cached streak data, calculate from history
-      const history = await this.getHistory();
-      return this.calculateStreakData(history);
+      // No cached streak data from today, calculate from history
+      const completions = await this.getCompletions();
+      return HistoryManager.calculateStreakData(
+        completions.map((r) => r.date),
+        await this.schedules.getSnapshots(),
+        HistoryManager.getTravelDates(completions),
+        await this.exceptions.getExceptions(),
+        await this.getFreezeCap()
+      );
     } catch (error) {
       console.error('Error getting streak data:', error);
+      return { ...EMPTY_STREAK };
+    }
+  }
+
+  /**
+   * Get bonus (optional item) totals across all stored history
+   */
+  async getBonusStats(): Promise<{ totalBonusItems: number; daysWithBonus: number }> {
+    try {
+      const history = await this.getHistory();
+      const counts = history.map((r) => r.bonusItems?.length ?? 0);
+
       return {
-        currentStreak: 0,
-        longestStreak: 0,
-        lastCompletionDate: '',
-        totalCompletions: 0,
-        completionDates: [],
+        totalBonusItems: counts.reduce((sum, count) => sum + count, 0),
+        daysWithBonus: counts.filter((count) => count > 0).length,
       };
+    } catch (error) {
+      console.error('Error getting bonus stats:', error);
+      return { totalBonusItems: 0, daysWithBonus: 0 };
+    }
+  }
+
+  /**
+   * Get per-item quantities over the last N days, for items tracked by amount
+   */
+  async getQuantityTrends(days: number): Promise<QuantityTrend[]> {
+    try {
+      const cutoffDate = DateUtils.getDateDaysAgo(days - 1);
+      const history = (await this.getRecordsInRange(cutoffDate, DateUtils.getTodayISO()))
+        .filter((r) => r.quantities)
+        .reverse();
+
+      const trends = new Map<RoutineItemId, QuantityTrend>();
+      for (const record of history) {
+        for (const [itemId, value] of Object.entries(record.quantities ?? {})) {
+          const trend = trends.get(itemId) ?? { itemId, values: [], average: 0 };
+          trend.values.push({ date: record.date, value });
+          trends.set(itemId, trend);
+        }
+      }
+
+      return Array.from(trends.values()).map((trend) => ({
+        ...trend,
+        average: trend.values.reduce((sum, v) => sum + v.value, 0) / trend.values.length,
+      }));
+    } catch (error) {
+      console.error('Error getting quantity trends:', error);
+      return [];
     }
   }
 
   /**
    * Get completion rate percentage for last N days
+   * Only days the schedule in force at the time enabled count, minus exceptions, starting
+   * from the first recorded day; today counts once it is complete
    */
   async getCompletionRate(days: number): Promise<number> {
     try {
-      const history = await this.getHistory();
-      const recentHistory = history.slice(0, days);
-
-      if (recentHistory.length === 0) {
+      const firstDate = await this.getFirstRecordDate();
+      const cutoffDate = DateUtils.getDateDaysAgo(days - 1);
+      if (!firstDate) {
         return 0;
       }
+      return await this.getCompletionRateSince(firstDate > cutoffDate ? firstDate : cutoffDate);
+    } catch (error) {
+      console.error('Error calculating completion rate:', error);
+      return 0;
+    }
+  }
 
-      const completedDays = recentHistory.length;
-      return Math.round((completedDays / days) * 100);
+  /**
+   * Get completion rate percentage over all stored history, on scheduled days only
+   */
+  async getAllTimeCompletionRate(): Promise<number> {
+    try {
+      const firstDate = await this.getFirstRecordDate();
+      return firstDate ? await this.getCompletionRateSince(firstDate) : 0;
     } catch (error) {
       console.error('Error calculating completion rate:', error);
       return 0;
     }
   }
 
+  private async getCompletionRateSince(startDate: string): Promise<number> {
+    const today = DateUtils.getTodayISO();
+    const records = await this.getRecordsInRange(startDate, today);
+    const completed = new Set(
+      records.filter((r) => HistoryManager.getOutcome(r) === 'complete').map((r) => r.date)
+    );
+    const snapshots = await this.schedules.getSnapshots();
+    const exceptions = await this.exceptions.getExceptions();
+
+    let scheduledDays = 0;
+    let completedDays = 0;
+    for (let date = startDate; date <= today; date = DateUtils.addDays(date, 1)) {
+      if (
+        !ScheduleHistory.isScheduled(snapshots, date) ||
+        ScheduleExceptions.findException(exceptions, date)
+      ) {
+        continue;
+      }
+      if (completed.has(date)) {
+        completedDays++;
+        scheduledDays++;
+      } else if (date !== today) {
+        scheduledDays++;
+      }
+    }
+
+    return scheduledDays === 0 ? 0 : Math.round((completedDays / scheduledDays) * 100);
+  }
+
   /**
    * Get average completion time in milliseconds
+   * Only full completions are averaged
    */
   async getAverageCompletionTime(): Promise<number> {
     try {
-      const history = await this.getHistory();
+      const history = (await this.getHistory()).filter(
+        (r) => HistoryManager.getOutcome(r) === 'complete'
+      );
 
       if (history.length === 0) {
         return 0;
@@ -176,27 +505,69 @@ export class HistoryManager {
    */
   async cleanupOldRecords(daysToKeep: number): Promise<void> {
     try {
-      const history = await this.getHistory();
       const cutoffDate = DateUtils.getDateDaysAgo(daysToKeep);
+      const cutoffMonth = HistoryManager.getMonth(cutoffDate);
+
+      const updates = new Map<string, DailyRecord[]>();
+      for (const month of await this.getMonths()) {
+        if (month < cutoffMonth) {
+          updates.set(month, []);
+        } else if (month === cutoffMonth) {
+          const records = await this.getMonthRecords(month);
+          updates.set(
+            month,
+            records.filter((r) => r.date >= cutoffDate)
+          );
+        }
+      }
 
-      const filteredHistory = history.filter((r) => r.date >= cutoffDate);
-
-      await AsyncStorage.setItem(HISTORY_KEY, JSON.stringify(filteredHistory));
+      // The streak is recalculated from what is left
+      await this.storage.transaction([
+        ...(await this.getMonthChanges(updates)),
+        { key: this.key('streak'), value: undefined },
+      ]);
     } catch (error) {
       console.error('Error cleaning up old records:', error);
     }
   }
 
   /**
-   * Get all history records (internal use)
+   * Apply a retention policy of whole months
+   * Keeps the current month plus the previous (months - 1); no limit when unset
+   */
+  async applyRetention(months?: number): Promise<void> {
+    if (!months || months < 1) {
+      return;
+    }
+
+    try {
+      const cutoffMonth = DateUtils.getMonthsAgo(months - 1);
+
+      const expired = (await this.getMonths()).filter((month) => month < cutoffMonth);
+      if (expired.length === 0) {
+        return;
+      }
+
+      await this.storage.transaction([
+        ...(await this.getMonthChanges(new Map(expired.map((month) => [month, []])))),
+        { key: this.key('streak'), value: undefined },
+      ]);
+    } catch (error) {
+      console.error('Error applying history retention:', error);
+    }
+  }
+
+  /**
+   * Get all history records, most recent first (internal use)
+   * Loads every month; prefer getRecordsInRange when a range is known
    */
   private async getHistory(): Promise<DailyRecord[]> {
     try {
-      const data = await AsyncStorage.getItem(HISTORY_KEY);
-      if (data) {
-        return JSON.parse(data);
+      const records: DailyRecord[] = [];
+      for (const month of await this.getMonths()) {
+        records.push(...(await this.getMonthRecords(month)));
       }
-      return [];
+      return records;
     } catch (error) {
       console.error('Error loading history:', error);
       return [];
@@ -204,31 +575,130 @@ export class HistoryManager {
   }
 
   /**
-   * Calculate streak data from history
+   * Date of the oldest stored record, or null without any history
    */
-  private calculateStreakData(history: DailyRecord[]): StreakData {
-    if (history.length === 0) {
-      return {
-        currentStreak: 0,
-        longestStreak: 0,
-        lastCompletionDate: '',
-        totalCompletions: 0,
-        completionDates: [],
-      };
+  private async getFirstRecordDate(): Promise<string | null> {
+    const months = await this.getMonths();
+    const oldest = months.length > 0 ? await this.getMonthRecords(months[months.length - 1]) : [];
+    return oldest.length > 0 ? oldest.map((r) => r.date).sort()[0] : null;
+  }
+
+  /**
+   * Months with stored records, most recent first
+   */
+  private async getMonths(): Promise<string[]> {
+    const months = (await this.storage.getJSON<string[]>(this.key('months'))) ?? [];
+    return [...months].sort().reverse();
+  }
+
+  private async getMonthRecords(month: string): Promise<DailyRecord[]> {
+    return (
+      (await this.storage.getJSON<DailyRecord[]>(getHistoryMonthKey(month, this.routineId))) ?? []
+    );
+  }
+
+  /**
+   * Changes that replace whole months' records (stored most recent first) and keep the
+   * month index in step; empty months are deleted
+   */
+  private async getMonthChanges(updates: Map<string, DailyRecord[]>): Promise<StorageChange[]> {
+    const stored = await this.getMonths();
+    const months = new Set(stored);
+    const changes: StorageChange[] = [];
+
+    for (const [month, records] of updates) {
+      const key = getHistoryMonthKey(month, this.routineId);
+      if (records.length === 0) {
+        changes.push({ key, value: undefined });
+        months.delete(month);
+      } else {
+        changes.push({ key, value: [...records].sort((a, b) => b.date.localeCompare(a.date)) });
+        months.add(month);
+      }
     }
 
-    // Extract completion dates (sorted most recent first)
-    const completionDates = history.map((r) => r.date);
+    const index = [...months].sort().reverse();
+    if (index.join() !== stored.join()) {
+      changes.push({ key: this.key('months'), value: index.length > 0 ? index : undefined });
+    }
+    return changes;
+  }
+
+  /**
+   * "YYYY-MM" month of an ISO date
+   */
+  private static getMonth(date: string): string {
+    return date.slice(0, 7);
+  }
+
+  /**
+   * Every complete day, most recent first
+   */
+  private async getCompletions(): Promise<DailyRecord[]> {
+    return (await this.getHistory()).filter((r) => HistoryManager.getOutcome(r) === 'complete');
+  }
+
+  /**
+   * Dates that travel skipped between completions (most recent first)
+   * Flying east across enough zones can jump a whole date: Monday is done in one zone
+   * and the next day there, in another zone, is already Wednesday. When two completions
+   * in different zones are two dates apart, the date between them doesn't count.
+   */
+  private static getTravelDates(completions: DailyRecord[]): string[] {
+    const travelDates: string[] = [];
+    for (let i = 0; i < completions.length - 1; i++) {
+      if (HistoryManager.isTravelGap(completions[i + 1], completions[i])) {
+        travelDates.push(DateUtils.addDays(completions[i + 1].date, 1));
+      }
+    }
+    return travelDates;
+  }
+
+  private static isTravelGap(earlier: DailyRecord, later: DailyRecord): boolean {
+    return (
+      DateUtils.diffDays(earlier.date, later.date) === 2 &&
+      !!earlier.timeZone &&
+      !!later.timeZone &&
+      earlier.timeZone !== later.timeZone
+    );
+  }
+
+  /**
+   * Calculate streak data from completion dates (most recent first)
+   * Days the schedule in force at the time had switched off are skipped, as are dates
+   * travel skipped, vacations, sick days and holidays, and misses a streak freeze covered
+   */
+  private static calculateStreakData(
+    completionDates: string[],
+    snapshots: ScheduleSnapshot[],
+    travelDates: string[] = [],
+    exceptions: ScheduleException[] = [],
+    freezeCap = 0
+  ): StreakData {
+    if (completionDates.length === 0) {
+      return { ...EMPTY_STREAK };
+    }
+
+    const isDue = (date: string) =>
+      !travelDates.includes(date) &&
+      !ScheduleExceptions.findException(exceptions, date) &&
+      ScheduleHistory.isScheduled(snapshots, date);
+    const { freezeTokens, frozenDates } = HistoryManager.replayFreezes(
+      completionDates,
+      isDue,
+      freezeCap
+    );
+    const isScheduled = (date: string) => !frozenDates.includes(date) && isDue(date);
 
     // Calculate current streak
-    const currentStreak = DateUtils.calculateStreak(completionDates);
+    const currentStreak = DateUtils.calculateStreak(completionDates, isScheduled);
 
     // Calculate longest streak
     let longestStreak = 0;
     let tempStreak = 1;
 
     for (let i = 0; i < completionDates.length - 1; i++) {
-      if (DateUtils.isConsecutiveDay(completionDates[i + 1], completionDates[i])) {
+      if (DateUtils.isConsecutiveDay(completionDates[i + 1], completionDates[i], isScheduled)) {
         tempStreak++;
         longestStreak = Math.max(longestStreak, tempStreak);
       } else {
@@ -243,20 +713,110 @@ export class HistoryManager {
       currentStreak,
       longestStreak,
       lastCompletionDate: completionDates[0],
-      totalCompletions: history.length,
+      totalCompletions: completionDates.length,
       completionDates,
+      travelDates,
+      freezeTokens,
+      frozenDates,
+      computedOn: DateUtils.getTodayISO(),
     };
   }
 
   /**
-   * Update streak data cache
+   * Streak freezes earned and spent, replaying every day since the first completion
+   * One is earned each time the streak reaches a multiple of STREAK_FREEZE_INTERVAL days,
+   * up to the cap. While the streak is running, each missed due day spends one instead of
+   * ending it. Today isn't missed until it is over.
    */
-  private async updateStreakData(history: DailyRecord[]): Promise<void> {
+  private static replayFreezes(
+    completionDates: string[],
+    isDue: (date: string) => boolean,
+    freezeCap: number
+  ): { freezeTokens: number; frozenDates: string[] } {
+    const frozenDates: string[] = [];
+    if (freezeCap <= 0) {
+      return { freezeTokens: 0, frozenDates };
+    }
+
+    const completed = new Set(completionDates);
+    const today = DateUtils.getTodayISO();
+    let streak = 0;
+    let tokens = 0;
+    for (
+      let date = completionDates[completionDates.length - 1];
+      date <= today;
+      date = DateUtils.addDays(date, 1)
+    ) {
+      if (completed.has(date)) {
+        streak++;
+        if (streak % STREAK_FREEZE_INTERVAL === 0) {
+          tokens = Math.min(freezeCap, tokens + 1);
+        }
+      } else if (date !== today && isDue(date)) {
+        if (streak > 0 && tokens > 0) {
+          tokens--;
+          frozenDates.push(date);
+        } else {
+          streak = 0;
+        }
+      }
+    }
+
+    return { freezeTokens: tokens, frozenDates: frozenDates.reverse() };
+  }
+
+  /**
+   * Most streak freezes this routine may hold
+   */
+  private async getFreezeCap(): Promise<number> {
+    const settings = await this.settingsManager.loadSettings();
+    return settings.streakFreezeCap ?? DEFAULT_STREAK_FREEZE_CAP;
+  }
+
+  /**
+   * The streak cache after a day's outcome changes (before the change is saved)
+   * Uses the cached completion dates so older months don't need loading.
+   * Returns undefined, dropping the cache so it is recalculated, if it can't be updated.
+   */
+  private async getUpdatedStreak(record: DailyRecord): Promise<StreakData | undefined> {
     try {
-      const streakData = this.calculateStreakData(history);
-      await AsyncStorage.setItem(STREAK_KEY, JSON.stringify(streakData));
+      const cached = await this.storage.getJSON<StreakData>(this.key('streak'));
+      let completionDates: string[];
+      let travelDates: string[];
+      if (cached) {
+        completionDates = cached.completionDates;
+        travelDates = cached.travelDates ?? [];
+      } else {
+        const completions = await this.getCompletions();
+        completionDates = completions.map((r) => r.date);
+        travelDates = HistoryManager.getTravelDates(completions);
+      }
+      completionDates = completionDates.filter((d) => d !== record.date);
+
+      if (HistoryManager.getOutcome(record) === 'complete') {
+        completionDates.push(record.date);
+
+        const before = await this.getRecord(DateUtils.addDays(record.date, -2));
+        if (
+          before &&
+          HistoryManager.getOutcome(before) === 'complete' &&
+          HistoryManager.isTravelGap(before, record)
+        ) {
+          travelDates.push(DateUtils.addDays(record.date, -1));
+        }
+      }
+      completionDates.sort().reverse();
+
+      return HistoryManager.calculateStreakData(
+        completionDates,
+        await this.schedules.getSnapshots(),
+        [...new Set(travelDates)].sort().reverse(),
+        await this.exceptions.getExceptions(),
+        await this.getFreezeCap()
+      );
     } catch (error) {
       console.error('Error updating streak data:', error);
+      return undefined;
     }
   }
 
@@ -265,7 +825,67 @@ export class HistoryManager {
    */
   async wasCompletedToday(): Promise<boolean> {
     const todayRecord = await this.getTodayRecord();
-    return todayRecord !== null;
+    return todayRecord !== null && HistoryManager.getOutcome(todayRecord) === 'complete';
+  }
+
+  /**
+   * Get average time spent on each step, keyed by item id
+   * Only records with a timeline contribute
+   */
+  async getAverageStepDurations(): Promise<Record<RoutineItemId, number>> {
+    try {
+      const history = await this.getHistory();
+      const totals: Record<RoutineItemId, { sum: number; count: number }> = {};
+
+      history.forEach((record) => {
+        HistoryManager.getTimelineSteps(record)
+          .slice(1) // The first step has no measurable duration
+          .forEach((step) => {
+            const total = totals[step.itemId] ?? { sum: 0, count: 0 };
+            total.sum += step.duration;
+            total.count++;
+            totals[step.itemId] = total;
+          });
+      });
+
+      const averages: Record<RoutineItemId, number> = {};
+      Object.entries(totals).forEach(([itemId, total]) => {
+        averages[itemId] = Math.round(total.sum / total.count);
+      });
+      return averages;
+    } catch (error) {
+      console.error('Error calculating step durations:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Turn a record's raw events into ordered steps
+   * Items that were completed, undone and completed again count from their final completion
+   */
+  static getTimelineSteps(record: DailyRecord): TimelineStep[] {
+    const finalCompletions = new Map<RoutineItemId, ItemTimelineEvent>();
+
+    [...(record.timeline ?? [])]
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .forEach((event) => {
+        if (event.action === 'completed') {
+          finalCompletions.set(event.itemId, event);
+        } else {
+          finalCompletions.delete(event.itemId);
+        }
+      });
+
+    const completions = Array.from(finalCompletions.values()).sort(
+      (a, b) => a.timestamp - b.timestamp
+    );
+
+    return completions.map((event, index) => ({
+      itemId: event.itemId,
+      completedAt: event.timestamp,
+      duration: index === 0 ? 0 : event.timestamp - completions[index - 1].timestamp,
+      method: event.method,
+    }));
   }
 
   /**
@@ -276,11 +896,15 @@ export class HistoryManager {
     longestStreak: number;
     totalCompletions: number;
     completionRate: number;
+    allTimeCompletionRate: number;
     averageTime: string;
+    freezeTokens: number;
+    freezesUsed: number;
   }> {
     try {
       const streakData = await this.getStreakData();
       const completionRate = await this.getCompletionRate(30); // Last 30 days
+      const allTimeCompletionRate = await this.getAllTimeCompletionRate();
       const avgTimeMs = await this.getAverageCompletionTime();
 
       return {
@@ -288,7 +912,10 @@ export class HistoryManager {
         longestStreak: streakData.longestStreak,
         totalCompletions: streakData.totalCompletions,
         completionRate,
+        allTimeCompletionRate,
         averageTime: DateUtils.formatDuration(avgTimeMs),
+        freezeTokens: streakData.freezeTokens ?? 0,
+        freezesUsed: streakData.frozenDates?.length ?? 0,
       };
     } catch (error) {
       console.error('Error getting statistics:', error);
@@ -297,7 +924,10 @@ export class HistoryManager {
         longestStreak: 0,
         totalCompletions: 0,
         completionRate: 0,
+        allTimeCompletionRate: 0,
         averageTime: '0s',
+        freezeTokens: 0,
+        freezesUsed: 0,
       };
     }
   }
@@ -1,8 +1,11 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { SettingsManager } from './SettingsManager';
 import { RoutineManager } from './RoutineManager';
-
-const LOCK_STATE_KEY = 'lockingState';
+import { HistoryManager } from './HistoryManager';
+import { getRoutineStorageKey } from './RoutineCatalog';
+import { EventJournal, JournalEvent } from './EventJournal';
+import { ScheduleExceptions } from './ScheduleExceptions';
+import { StorageAdapter } from './Storage';
+import { STORAGE_KEYS } from './StorageKeys';
 
 export interface LockState {
   isLocked: boolean;
@@ -15,10 +18,43 @@ export interface LockState {
 export class LockingService {
   private settingsManager: SettingsManager;
   private routineManager: RoutineManager;
-
-  constructor(settingsManager: SettingsManager, routineManager: RoutineManager) {
+  private historyManager?: HistoryManager;
+  private storage: StorageAdapter;
+  private journal: EventJournal;
+  private exceptions: ScheduleExceptions;
+
+  constructor(
+    settingsManager: SettingsManager,
+    routineManager: RoutineManager,
+    historyManager?: HistoryManager,
+    storage: StorageAdapter = new StorageAdapter(),
+    journal: EventJournal = new EventJournal(routineManager.getRoutineId(), storage),
+    exceptions: ScheduleExceptions = new ScheduleExceptions(storage)
+  ) {
     this.settingsManager = settingsManager;
     this.routineManager = routineManager;
+    this.historyManager = historyManager;
+    this.storage = storage;
+    this.journal = journal;
+    this.exceptions = exceptions;
+  }
+
+  /**
+   * Each routine keeps its own lock
+   */
+  private lockStateKey(): string {
+    return getRoutineStorageKey(STORAGE_KEYS.locking.state, this.routineManager.getRoutineId());
+  }
+
+  /**
+   * Journal a lock change; a failed write is logged so it never keeps the app locked
+   */
+  private async record(event: JournalEvent): Promise<void> {
+    try {
+      await this.journal.append(event);
+    } catch (error) {
+      console.error('Error journaling lock change:', error);
+    }
   }
 
   /**
@@ -26,7 +62,8 @@ export class LockingService {
    * Returns true if:
    * 1. Locking is enabled in settings
    * 2. Current time is within morning window
-   * 3. Routine is not yet completed today
+   * 3. The day isn't a vacation, sick day or holiday
+   * 4. Routine is not yet completed today
    */
   async shouldLockNow(): Promise<boolean> {
     try {
@@ -36,6 +73,12 @@ export class LockingService {
         return false;
       }
 
+      // The window's day may be yesterday when it crosses midnight
+      const settings = await this.settingsManager.loadSettings();
+      if (await this.exceptions.getExceptionOn(SettingsManager.getScheduleDate(settings))) {
+        return false;
+      }
+
       // Check if routine is already completed
       const isComplete = this.routineManager.isRoutineComplete();
       if (isComplete) {
@@ -68,7 +111,8 @@ export class LockingService {
         routineStartTime: Date.now(),
       };
 
-      await AsyncStorage.setItem(LOCK_STATE_KEY, JSON.stringify(lockState));
+      await this.storage.setJSON(this.lockStateKey(), lockState);
+      await this.record({ type: 'locked', timestamp: lockState.lockedAt });
     } catch (error) {
       console.error('Error locking app:', error);
     }
@@ -79,7 +123,8 @@ export class LockingService {
    */
   async unlockApp(): Promise<void> {
     try {
-      await AsyncStorage.removeItem(LOCK_STATE_KEY);
+      await this.storage.remove(this.lockStateKey());
+      await this.record({ type: 'unlocked', timestamp: Date.now() });
     } catch (error) {
       console.error('Error unlocking app:', error);
     }
@@ -117,6 +162,10 @@ export class LockingService {
         throw new Error('Emergency unlock not yet available');
       }
 
+      await this.record({ type: 'emergency_unlock', timestamp: Date.now() });
+      if (this.historyManager) {
+        await this.routineManager.recordDayOutcome(this.historyManager, 'emergency_unlocked', true);
+      }
       await this.unlockApp();
     } catch (error) {
       console.error('Error performing emergency unlock:', error);
@@ -129,11 +178,7 @@ export class LockingService {
    */
   async getLockState(): Promise<LockState | null> {
     try {
-      const data = await AsyncStorage.getItem(LOCK_STATE_KEY);
-      if (data) {
-        return JSON.parse(data);
-      }
-      return null;
+      return await this.storage.getJSON<LockState>(this.lockStateKey());
     } catch (error) {
       console.error('Error getting lock state:', error);
       return null;
@@ -176,7 +221,7 @@ export class LockingService {
       }
 
       lockState.emergencyUnlockAvailable = true;
-      await AsyncStorage.setItem(LOCK_STATE_KEY, JSON.stringify(lockState));
+      await this.storage.setJSON(this.lockStateKey(), lockState);
     } catch (error) {
       console.error('Error marking emergency unlock available:', error);
     }
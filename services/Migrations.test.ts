@@ -0,0 +1,275 @@
+import { CURRENT_SCHEMA_VERSION, MIGRATIONS, Migration, MigrationRunner } from './Migrations';
+import { MemoryStorageBackend, StorageAdapter } from './Storage';
+import { HistoryManager } from './HistoryManager';
+import { SettingsManager } from './SettingsManager';
+
+/**
+ * Data as an install from before schema versioning stored it
+ */
+const LEGACY_DATA: Record<string, string> = {
+  routineCatalog: JSON.stringify([
+    { id: 'morning', name: 'Morning' },
+    { id: 'evening', name: 'Evening' },
+  ]),
+  appSettings: JSON.stringify({
+    schedule: {
+      1: { enabled: false, startTime: '06:00', endTime: '09:00' },
+    },
+    resetBehavior: 'custom',
+    customResetTime: '04:00',
+  }),
+  'appSettings:evening': JSON.stringify({
+    schedule: {},
+    resetBehavior: 'midnight',
+    emergencyUnlockDelay: 5,
+  }),
+  dailyCompletionHistory: JSON.stringify([
+    {
+      date: '2025-01-20',
+      completedItems: ['make_bed'],
+      startedAt: 1,
+      completedAt: 2,
+      totalTime: 1,
+      wasLocked: false,
+    },
+    {
+      date: '2025-01-21',
+      completedItems: ['make_bed'],
+      startedAt: 1,
+      completedAt: 2,
+      totalTime: 1,
+      wasLocked: true,
+    },
+    null,
+  ]),
+  streakData: JSON.stringify({ currentStreak: 99 }),
+  photoVerificationRecords: JSON.stringify([
+    { uri: 'file://a.jpg', timestamp: 1, routineItem: 'make_bed' },
+    { uri: 42 },
+  ]),
+};
+
+describe('MigrationRunner', () => {
+  let backend: MemoryStorageBackend;
+  let storage: StorageAdapter;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    backend = new MemoryStorageBackend(LEGACY_DATA);
+    storage = new StorageAdapter(backend);
+  });
+
+  it('should end at the current schema version', () => {
+    expect(MIGRATIONS[MIGRATIONS.length - 1].version).toBe(CURRENT_SCHEMA_VERSION);
+  });
+
+  it('should treat unversioned data as version 0', async () => {
+    expect(await new MigrationRunner(storage).getVersion()).toBe(0);
+  });
+
+  it('should stamp fresh installs without writing any data', async () => {
+    backend = new MemoryStorageBackend();
+    storage = new StorageAdapter(backend);
+
+    expect(await new MigrationRunner(storage).run()).toBe(CURRENT_SCHEMA_VERSION);
+    expect(backend.dump()).toEqual({ schemaVersion: String(CURRENT_SCHEMA_VERSION) });
+  });
+
+  describe('from the unversioned format', () => {
+    beforeEach(async () => {
+      await new MigrationRunner(storage).run();
+    });
+
+    it('should record the new version', async () => {
+      expect(await new MigrationRunner(storage).getVersion()).toBe(CURRENT_SCHEMA_VERSION);
+    });
+
+    it('should fill missing settings from the defaults and keep stored values', async () => {
+      const settings = await new SettingsManager('morning', storage).loadSettings();
+      const defaults = SettingsManager.getDefaultSettings();
+
+      expect(settings.schedule[1]).toEqual({
+        enabled: false,
+        startTime: '06:00',
+        endTime: '09:00',
+      });
+      expect(settings.schedule[2]).toEqual(defaults.schedule[2]);
+      expect(settings.customResetTime).toBe('04:00');
+      expect(settings.lockingEnabled).toBe(true);
+      expect(settings.emergencyUnlockDelay).toBe(defaults.emergencyUnlockDelay);
+    });
+
+    it('should migrate the settings of every routine', async () => {
+      const settings = await new SettingsManager('evening', storage).loadSettings();
+
+      expect(Object.keys(settings.schedule)).toHaveLength(7);
+      expect(settings.lockingEnabled).toBe(false);
+      expect(settings.emergencyUnlockDelay).toBe(5);
+    });
+
+    it('should mark legacy history records complete, newest first', async () => {
+      const history = await new HistoryManager('morning', storage).getLast30Days();
+
+      expect(history.map((record) => [record.date, record.outcome])).toEqual([
+        ['2025-01-21', 'complete'],
+        ['2025-01-20', 'complete'],
+      ]);
+    });
+
+    it('should drop the cached streak so it is recalculated', async () => {
+      expect(backend.dump().streakData).toBeUndefined();
+
+      const streak = await new HistoryManager('morning', storage).getStreakData();
+      expect(streak.totalCompletions).toBe(2);
+    });
+
+    it('should drop invalid photo records', async () => {
+      expect(JSON.parse(backend.dump().photoVerificationRecords)).toEqual([
+        { uri: 'file://a.jpg', timestamp: 1, routineItem: 'make_bed' },
+      ]);
+    });
+  });
+
+  describe('to monthly history partitions', () => {
+    beforeEach(async () => {
+      backend = new MemoryStorageBackend({
+        schemaVersion: '1',
+        'dailyCompletionHistory:evening': JSON.stringify([
+          { date: '2025-02-01', completedItems: [], outcome: 'missed' },
+          { date: '2025-01-31', completedItems: [], outcome: 'complete' },
+          { date: '2025-01-30', completedItems: [], outcome: 'partial' },
+        ]),
+        routineCatalog: LEGACY_DATA.routineCatalog,
+      });
+      storage = new StorageAdapter(backend);
+      await new MigrationRunner(storage).run();
+    });
+
+    it('should split each routine history by month', () => {
+      const data = backend.dump();
+
+      expect(JSON.parse(data['historyMonths:evening'])).toEqual(['2025-02', '2025-01']);
+      expect(JSON.parse(data['historyMonth/2025-02:evening'])).toHaveLength(1);
+      expect(JSON.parse(data['historyMonth/2025-01:evening'])).toHaveLength(2);
+    });
+
+    it('should remove the single history list', () => {
+      expect(backend.dump()['dailyCompletionHistory:evening']).toBeUndefined();
+    });
+  });
+
+  describe('to schedule history', () => {
+    beforeEach(async () => {
+      await storage.setJSON('schemaVersion', 2);
+      await new MigrationRunner(storage).run();
+    });
+
+    it('should start each routine with its stored schedule', () => {
+      const data = backend.dump();
+
+      expect(JSON.parse(data.scheduleHistory)).toEqual([
+        { from: '', schedule: JSON.parse(LEGACY_DATA.appSettings).schedule },
+      ]);
+      expect(JSON.parse(data['scheduleHistory:evening'])).toEqual([{ from: '', schedule: {} }]);
+    });
+  });
+
+  describe('to daily journal partitions', () => {
+    beforeEach(async () => {
+      const at = (iso: string) => new Date(iso).getTime();
+      backend = new MemoryStorageBackend({
+        schemaVersion: '5',
+        'journalMonths:evening': JSON.stringify(['2025-02', '2025-01']),
+        'journalMonth/2025-01:evening': JSON.stringify([
+          { type: 'reset', timestamp: at('2025-01-31T00:00:00') },
+          { type: 'locked', timestamp: at('2025-01-31T07:00:00') },
+        ]),
+        'journalMonth/2025-02:evening': JSON.stringify([
+          { type: 'reset', timestamp: at('2025-02-01T00:00:00') },
+        ]),
+        routineCatalog: LEGACY_DATA.routineCatalog,
+      });
+      storage = new StorageAdapter(backend);
+      await new MigrationRunner(storage).run();
+    });
+
+    it('should split each routine journal by day', () => {
+      const data = backend.dump();
+
+      expect(JSON.parse(data['journalDays:evening'])).toEqual(['2025-02-01', '2025-01-31']);
+      expect(JSON.parse(data['journalDay/2025-01-31:evening'])).toHaveLength(2);
+      expect(JSON.parse(data['journalDay/2025-02-01:evening'])).toHaveLength(1);
+    });
+
+    it('should remove the monthly partitions', () => {
+      const data = backend.dump();
+
+      expect(data['journalMonths:evening']).toBeUndefined();
+      expect(data['journalMonth/2025-01:evening']).toBeUndefined();
+      expect(data['journalMonth/2025-02:evening']).toBeUndefined();
+    });
+  });
+
+  it('should drop cached streaks so unscheduled days are skipped', async () => {
+    await storage.setJSON('schemaVersion', 3);
+    await storage.setJSON('streakData:evening', { currentStreak: 4 });
+
+    await new MigrationRunner(storage).run();
+
+    expect(backend.dump().streakData).toBeUndefined();
+    expect(backend.dump()['streakData:evening']).toBeUndefined();
+  });
+
+  it('should drop cached streaks so streak freezes are counted', async () => {
+    await storage.setJSON('schemaVersion', 4);
+    await storage.setJSON('streakData', { currentStreak: 4 });
+
+    await new MigrationRunner(storage).run();
+
+    expect(backend.dump().streakData).toBeUndefined();
+  });
+
+  it('should skip migrations that already ran', async () => {
+    const up = jest.fn();
+    await storage.setJSON('schemaVersion', 1);
+
+    const version = await new MigrationRunner(storage, [{ version: 1, description: '', up }]).run();
+
+    expect(version).toBe(1);
+    expect(up).not.toHaveBeenCalled();
+  });
+
+  it('should run pending migrations in version order', async () => {
+    const order: number[] = [];
+    const migrations: Migration[] = [2, 1, 3].map((version) => ({
+      version,
+      description: '',
+      up: async () => {
+        order.push(version);
+      },
+    }));
+
+    expect(await new MigrationRunner(storage, migrations).run()).toBe(3);
+    expect(order).toEqual([1, 2, 3]);
+  });
+
+  it('should stop at the last successful version when a migration fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const third = jest.fn();
+    const migrations: Migration[] = [
+      { version: 1, description: '', up: async () => {} },
+      {
+        version: 2,
+        description: '',
+        up: async () => {
+          throw new Error('boom');
+        },
+      },
+      { version: 3, description: '', up: third },
+    ];
+
+    expect(await new MigrationRunner(storage, migrations).run()).toBe(1);
+    expect(await new MigrationRunner(storage).getVersion()).toBe(1);
+    expect(third).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,293 @@
+import {
+  DEFAULT_ROUTINE_ID,
+  RoutineCatalog,
+  RoutineId,
+  getRoutineStorageKey,
+} from './RoutineCatalog';
+import { AppSettings, SettingsManager } from './SettingsManager';
+import { DailyRecord, getHistoryMonthKey } from './HistoryManager';
+import { DateUtils } from './DateUtils';
+import { JournalEvent, getJournalDayKey } from './EventJournal';
+import type { PhotoRecord } from './PhotoVerification';
+import { ScheduleHistory } from './ScheduleHistory';
+import { StorageAdapter, StorageChange } from './Storage';
+import { STORAGE_KEYS } from './StorageKeys';
+
+/**
+ * Schema version written by this build
+ * Data stored before versioning existed counts as version 0
+ */
+export const CURRENT_SCHEMA_VERSION = 6;
+
+export interface Migration {
+  version: number; // Schema version this migration upgrades to
+  description: string;
+  up(storage: StorageAdapter, routineIds: RoutineId[]): Promise<void>;
+}
+
+/**
+ * Version 1: stamp the unversioned format
+ * - Settings get any fields they are missing from the defaults
+ * - History records without an outcome were full completions
+ * - The cached streak is dropped so it is recalculated from the migrated history
+ * - Photo records that aren't valid are dropped
+ */
+const stampUnversionedData: Migration = {
+  version: 1,
+  description: 'Fill in fields missing from unversioned data',
+  async up(storage, routineIds) {
+    for (const routineId of routineIds) {
+      const settingsKey = getRoutineStorageKey(STORAGE_KEYS.settings.app, routineId);
+      const settings = await storage.getJSON<Partial<AppSettings>>(settingsKey);
+      if (settings) {
+        await storage.setJSON(settingsKey, migrateSettings(settings, routineId));
+      }
+
+      const historyKey = getRoutineStorageKey(STORAGE_KEYS.history.records, routineId);
+      const history = await storage.getJSON<unknown>(historyKey);
+      if (history) {
+        await storage.setJSON(historyKey, migrateHistory(history));
+      }
+
+      await storage.remove(getRoutineStorageKey(STORAGE_KEYS.history.streak, routineId));
+    }
+
+    const photos = await storage.getJSON<unknown>(STORAGE_KEYS.photos.records);
+    if (photos) {
+      await storage.setJSON(STORAGE_KEYS.photos.records, migratePhotos(photos));
+    }
+  },
+};
+
+/**
+ * Version 2: split each routine's single history list into monthly partitions
+ */
+const partitionHistory: Migration = {
+  version: 2,
+  description: 'Store history in monthly partitions',
+  async up(storage, routineIds) {
+    for (const routineId of routineIds) {
+      const historyKey = getRoutineStorageKey(STORAGE_KEYS.history.records, routineId);
+      const history = (await storage.getJSON<DailyRecord[]>(historyKey)) ?? [];
+
+      const months = new Map<string, DailyRecord[]>();
+      for (const record of history) {
+        const month = record.date.slice(0, 7);
+        months.set(month, [...(months.get(month) ?? []), record]);
+      }
+
+      // One transaction per routine so the list is never half split
+      const changes: StorageChange[] = [...months].map(([month, records]) => ({
+        key: getHistoryMonthKey(month, routineId),
+        value: records,
+      }));
+      if (months.size > 0) {
+        changes.push({
+          key: getRoutineStorageKey(STORAGE_KEYS.history.months, routineId),
+          value: [...months.keys()].sort().reverse(),
+        });
+      }
+      changes.push({ key: historyKey, value: undefined });
+      await storage.transaction(changes);
+    }
+  },
+};
+
+/**
+ * Version 3: start each routine's schedule history with its stored schedule
+ * Past days are judged by the schedule saved before snapshots existed
+ */
+const seedScheduleHistory: Migration = {
+  version: 3,
+  description: 'Record the current schedule as the first schedule snapshot',
+  async up(storage, routineIds) {
+    for (const routineId of routineIds) {
+      const settings = await storage.getJSON<AppSettings>(
+        getRoutineStorageKey(STORAGE_KEYS.settings.app, routineId)
+      );
+      if (settings?.schedule) {
+        await new ScheduleHistory(routineId, storage).record(settings.schedule, '');
+      }
+    }
+  },
+};
+
+/**
+ * Version 4: drop cached streaks counted before unscheduled days were skipped
+ */
+const recountStreaks: Migration = {
+  version: 4,
+  description: 'Recalculate streaks skipping unscheduled days',
+  up: dropCachedStreaks,
+};
+
+const recountStreaksWithFreezes: Migration = {
+  version: 5,
+  description: 'Recalculate streaks with streak freezes',
+  up: dropCachedStreaks,
+};
+
+/**
+ * Version 6: split each routine's monthly journal partitions into daily ones
+ */
+const partitionJournalByDay: Migration = {
+  version: 6,
+  description: 'Store the journal in daily partitions',
+  async up(storage, routineIds) {
+    for (const routineId of routineIds) {
+      const monthsKey = getRoutineStorageKey(STORAGE_KEYS.journal.months, routineId);
+      const months = (await storage.getJSON<string[]>(monthsKey)) ?? [];
+
+      const days = new Map<string, JournalEvent[]>();
+      const changes: StorageChange[] = [];
+      for (const month of months) {
+        const monthKey = getRoutineStorageKey(`${STORAGE_KEYS.journal.month}/${month}`, routineId);
+        for (const event of (await storage.getJSON<JournalEvent[]>(monthKey)) ?? []) {
+          const day = DateUtils.getDateISO(new Date(event.timestamp));
+          days.set(day, [...(days.get(day) ?? []), event]);
+        }
+        changes.push({ key: monthKey, value: undefined });
+      }
+
+      // One transaction per routine so the journal is never half split
+      for (const [day, events] of days) {
+        changes.push({ key: getJournalDayKey(day, routineId), value: events });
+      }
+      if (days.size > 0) {
+        changes.push({
+          key: getRoutineStorageKey(STORAGE_KEYS.journal.days, routineId),
+          value: [...days.keys()].sort().reverse(),
+        });
+      }
+      changes.push({ key: monthsKey, value: undefined });
+      await storage.transaction(changes);
+    }
+  },
+};
+
+export const MIGRATIONS: Migration[] = [
+  stampUnversionedData,
+  partitionHistory,
+  seedScheduleHistory,
+  recountStreaks,
+  recountStreaksWithFreezes,
+  partitionJournalByDay,
+];
+
+/**
+ * Remove every routine's cached streak so it is recalculated from history
+ */
+async function dropCachedStreaks(storage: StorageAdapter, routineIds: RoutineId[]): Promise<void> {
+  for (const routineId of routineIds) {
+    await storage.remove(getRoutineStorageKey(STORAGE_KEYS.history.streak, routineId));
+  }
+}
+
+function migrateSettings(settings: Partial<AppSettings>, routineId: RoutineId): AppSettings {
+  const defaults = SettingsManager.getDefaultSettings();
+  const schedule = { ...defaults.schedule };
+  for (let day = 0; day < 7; day++) {
+    const stored = settings.schedule?.[day];
+    if (stored) {
+      schedule[day] = { ...defaults.schedule[day], ...stored };
+    }
+  }
+
+  return {
+    ...defaults,
+    lockingEnabled: routineId === DEFAULT_ROUTINE_ID,
+    ...settings,
+    schedule,
+  };
+}
+
+function migrateHistory(history: unknown): DailyRecord[] {
+  if (!Array.isArray(history)) {
+    return [];
+  }
+
+  return history
+    .filter((record): record is DailyRecord => {
+      return typeof record === 'object' && record !== null && typeof record.date === 'string';
+    })
+    .map((record) => ({
+      ...record,
+      completedItems: Array.isArray(record.completedItems) ? record.completedItems : [],
+      wasLocked: record.wasLocked === true,
+      outcome: record.outcome ?? 'complete',
+    }))
+    .sort((a, b) => b.date.localeCompare(a.date));
+}
+
+function migratePhotos(photos: unknown): PhotoRecord[] {
+  if (!Array.isArray(photos)) {
+    return [];
+  }
+
+  return photos.filter((photo): photo is PhotoRecord => {
+    return (
+      typeof photo === 'object' &&
+      photo !== null &&
+      typeof photo.uri === 'string' &&
+      typeof photo.timestamp === 'number'
+    );
+  });
+}
+
+/**
+ * Brings stored data up to CURRENT_SCHEMA_VERSION
+ * Runs once at startup, before any service loads its data
+ */
+export class MigrationRunner {
+  private storage: StorageAdapter;
+  private migrations: Migration[];
+
+  constructor(
+    storage: StorageAdapter = new StorageAdapter(),
+    migrations: Migration[] = MIGRATIONS
+  ) {
+    this.storage = storage;
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+  }
+
+  /**
+   * Stored schema version (0 if the data predates versioning)
+   */
+  async getVersion(): Promise<number> {
+    const version = await this.storage.getJSON<number>(STORAGE_KEYS.meta.schemaVersion);
+    return typeof version === 'number' ? version : 0;
+  }
+
+  /**
+   * Apply every pending migration in order
+   * The version is saved after each step, so a failure leaves data at the last good version
+   * and the remaining steps are retried on the next launch.
+   * Returns the version the data ends up at.
+   */
+  async run(): Promise<number> {
+    let version = 0;
+    try {
+      version = await this.getVersion();
+      const pending = this.migrations.filter((migration) => migration.version > version);
+      if (pending.length === 0) {
+        return version;
+      }
+
+      const routineIds = await this.getRoutineIds();
+      for (const migration of pending) {
+        await migration.up(this.storage, routineIds);
+        version = migration.version;
+        await this.storage.setJSON(STORAGE_KEYS.meta.schemaVersion, version);
+      }
+    } catch (error) {
+      console.error(`Error migrating data past schema version ${version}:`, error);
+    }
+    return version;
+  }
+
+  private async getRoutineIds(): Promise<RoutineId[]> {
+    const catalog = new RoutineCatalog(this.storage);
+    await catalog.load();
+    return catalog.getRoutines().map((routine) => routine.id);
+  }
+}
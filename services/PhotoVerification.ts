@@ -1,5 +1,6 @@
 import * as ImagePicker from 'expo-image-picker';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { StorageAdapter } from './Storage';
+import { STORAGE_KEYS } from './StorageKeys';
 
 // Lazy load FileSystem to avoid module initialization errors
 let FileSystem: any = null;
@@ -21,13 +22,13 @@ export interface PhotoRecord {
   routineItem: string;
 }
 
-const STORAGE_KEY = 'photoVerificationRecords';
-
 export class PhotoVerification {
   private photosDirectory: string | null = null;
+  private storage: StorageAdapter;
 
-  constructor() {
+  constructor(storage: StorageAdapter = new StorageAdapter()) {
     // Delay FileSystem access until first use
+    this.storage = storage;
   }
 
   /**
@@ -211,13 +212,13 @@ export class PhotoVerification {
   }
 
   /**
-   * Save photo record to AsyncStorage
+   * Save photo record to storage
    */
   private async savePhotoRecord(record: PhotoRecord): Promise<void> {
     try {
       const records = await this.getAllPhotoRecords();
       records.push(record);
-      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(records));
+      await this.storage.setJSON(STORAGE_KEYS.photos.records, records);
     } catch (error) {
       console.error('Error saving photo record:', error);
       throw error;
@@ -229,11 +230,7 @@ export class PhotoVerification {
    */
   async getAllPhotoRecords(): Promise<PhotoRecord[]> {
     try {
-      const data = await AsyncStorage.getItem(STORAGE_KEY);
-      if (!data) {
-        return [];
-      }
-      return JSON.parse(data);
+      return (await this.storage.getJSON<PhotoRecord[]>(STORAGE_KEYS.photos.records)) ?? [];
     } catch (error) {
       console.error('Error getting photo records:', error);
       return [];
@@ -295,7 +292,7 @@ export class PhotoVerification {
       // Remove from records
       const records = await this.getAllPhotoRecords();
       const updatedRecords = records.filter((r) => r.uri !== record.uri);
-      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(updatedRecords));
+      await this.storage.setJSON(STORAGE_KEYS.photos.records, updatedRecords);
     } catch (error) {
       console.error('Error deleting photo:', error);
       throw error;
@@ -0,0 +1,109 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { RoutineCatalog, DEFAULT_ROUTINE_ID, getRoutineStorageKey } from './RoutineCatalog';
+import { createRoutineServices } from './RoutineServices';
+
+// Mock AsyncStorage
+jest.mock('@react-native-async-storage/async-storage');
+
+describe('RoutineCatalog', () => {
+  let catalog: RoutineCatalog;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    catalog = new RoutineCatalog();
+  });
+
+  describe('getRoutineStorageKey', () => {
+    it('should keep the original key for the morning routine', () => {
+      expect(getRoutineStorageKey('appSettings', DEFAULT_ROUTINE_ID)).toBe('appSettings');
+    });
+
+    it('should suffix keys of other routines', () => {
+      expect(getRoutineStorageKey('appSettings', 'evening')).toBe('appSettings:evening');
+    });
+  });
+
+  describe('load', () => {
+    it('should start with only the morning routine', async () => {
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
+
+      await catalog.load();
+
+      expect(catalog.getRoutines()).toEqual([{ id: DEFAULT_ROUTINE_ID, name: 'Morning' }]);
+    });
+
+    it('should ignore stored catalogs without the morning routine', async () => {
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(
+        JSON.stringify([{ id: 'evening', name: 'Evening' }])
+      );
+
+      await catalog.load();
+
+      expect(catalog.getRoutines()).toEqual(RoutineCatalog.getDefaultRoutines());
+    });
+  });
+
+  describe('editing', () => {
+    it('should add and rename routines', async () => {
+      const routine = await catalog.addRoutine('  Evening ');
+      await catalog.renameRoutine(routine.id, 'Wind Down');
+
+      expect(catalog.getRoutine(routine.id)?.name).toBe('Wind Down');
+      expect(AsyncStorage.setItem).toHaveBeenCalledWith(
+        'routineCatalog',
+        expect.stringContaining('Wind Down')
+      );
+    });
+
+    it('should reject empty names', async () => {
+      await expect(catalog.addRoutine('   ')).rejects.toThrow('Routine name is required');
+    });
+
+    it('should not remove the morning routine', async () => {
+      await expect(catalog.removeRoutine(DEFAULT_ROUTINE_ID)).rejects.toThrow(
+        'The morning routine cannot be removed'
+      );
+    });
+
+    it('should remove other routines', async () => {
+      const routine = await catalog.addRoutine('Workout');
+      await catalog.removeRoutine(routine.id);
+
+      expect(catalog.getRoutine(routine.id)).toBeUndefined();
+    });
+  });
+
+  describe('routine services', () => {
+    it('should keep each routine in its own storage keys', async () => {
+      const { routineManager, historyManager, itemRegistry } = createRoutineServices('evening');
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
+
+      await itemRegistry.addItem({
+        name: 'Read',
+        description: '',
+        icon: '📖',
+        verification: 'none',
+      });
+      await routineManager.markComplete(itemRegistry.getItems()[0].id);
+      await historyManager.getLast30Days();
+
+      const writtenKeys = (AsyncStorage.setItem as jest.Mock).mock.calls.map(([key]) => key);
+      expect(writtenKeys).toEqual(
+        expect.arrayContaining([
+          'routineItemDefinitions:evening',
+          'routineCompletionState:evening',
+          'routineStartTime:evening',
+        ])
+      );
+      expect(AsyncStorage.getItem).toHaveBeenCalledWith('historyMonths:evening');
+    });
+
+    it('should start new routines empty and unlocked', async () => {
+      const { itemRegistry, settingsManager } = createRoutineServices('evening');
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
+
+      expect(itemRegistry.getItems()).toEqual([]);
+      expect((await settingsManager.loadSettings()).lockingEnabled).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import { StorageAdapter } from './Storage';
+import { STORAGE_KEYS } from './StorageKeys';
+
+/**
+ * The original morning routine
+ * Its data lives under the unsuffixed storage keys used before multiple routines existed
+ */
+export const DEFAULT_ROUTINE_ID = 'morning';
+
+export type RoutineId = string;
+
+export interface RoutineDefinition {
+  id: RoutineId;
+  name: string;
+}
+
+/**
+ * Storage key for a routine's copy of some data
+ * The default routine keeps the original key so existing installs load unchanged
+ */
+export function getRoutineStorageKey(baseKey: string, routineId: RoutineId): string {
+  return routineId === DEFAULT_ROUTINE_ID ? baseKey : `${baseKey}:${routineId}`;
+}
+
+export class RoutineCatalog {
+  private routines: RoutineDefinition[] = RoutineCatalog.getDefaultRoutines();
+  private storage: StorageAdapter;
+
+  constructor(storage: StorageAdapter = new StorageAdapter()) {
+    this.storage = storage;
+  }
+
+  /**
+   * Get all routines in display order
+   */
+  getRoutines(): RoutineDefinition[] {
+    return this.routines;
+  }
+
+  getRoutine(id: RoutineId): RoutineDefinition | undefined {
+    return this.routines.find((routine) => routine.id === id);
+  }
+
+  /**
+   * Load the catalog from storage
+   * Keeps just the morning routine if nothing is stored
+   */
+  async load(): Promise<void> {
+    try {
+      const routines = await this.storage.getJSON<unknown>(STORAGE_KEYS.catalog.routines);
+      if (routines) {
+        if (
+          Array.isArray(routines) &&
+          routines.every(RoutineCatalog.isDefinition) &&
+          routines.some((routine) => routine.id === DEFAULT_ROUTINE_ID)
+        ) {
+          this.routines = routines;
+        }
+      }
+    } catch (error) {
+      console.error('Error loading routine catalog:', error);
+      this.routines = RoutineCatalog.getDefaultRoutines();
+    }
+  }
+
+  /**
+   * Save the catalog to storage
+   */
+  async save(): Promise<void> {
+    try {
+      await this.storage.setJSON(STORAGE_KEYS.catalog.routines, this.routines);
+    } catch (error) {
+      console.error('Error saving routine catalog:', error);
+    }
+  }
+
+  /**
+   * Create a new, empty routine
+   */
+  async addRoutine(name: string): Promise<RoutineDefinition> {
+    const routine: RoutineDefinition = {
+      id: this.generateId(),
+      name: RoutineCatalog.normalizeName(name),
+    };
+
+    this.routines = [...this.routines, routine];
+    await this.save();
+    return routine;
+  }
+
+  async renameRoutine(id: RoutineId, name: string): Promise<void> {
+    if (!this.getRoutine(id)) {
+      throw new Error(`Routine not found: ${id}`);
+    }
+
+    const normalized = RoutineCatalog.normalizeName(name);
+    this.routines = this.routines.map((routine) =>
+      routine.id === id ? { ...routine, name: normalized } : routine
+    );
+    await this.save();
+  }
+
+  /**
+   * Remove a routine from the catalog
+   * The morning routine can't be removed; the others' stored data is left in place
+   */
+  async removeRoutine(id: RoutineId): Promise<void> {
+    if (id === DEFAULT_ROUTINE_ID) {
+      throw new Error('The morning routine cannot be removed');
+    }
+
+    this.routines = this.routines.filter((routine) => routine.id !== id);
+    await this.save();
+  }
+
+  static getDefaultRoutines(): RoutineDefinition[] {
+    return [{ id: DEFAULT_ROUTINE_ID, name: 'Morning' }];
+  }
+
+  private generateId(): RoutineId {
+    let id: RoutineId;
+    do {
+      id = `routine-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+    } while (this.getRoutine(id));
+    return id;
+  }
+
+  private static normalizeName(name: string): string {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Routine name is required');
+    }
+    return trimmed;
+  }
+
+  private static isDefinition(value: unknown): value is RoutineDefinition {
+    const routine = value as RoutineDefinition;
+    return (
+      typeof routine === 'object' &&
+      routine !== null &&
+      typeof routine.id === 'string' &&
+      typeof routine.name === 'string'
+    );
+  }
+}
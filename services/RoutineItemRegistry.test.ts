@@ -0,0 +1,193 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { RoutineItemRegistry } from './RoutineItemRegistry';
+import { RoutineItem, RoutineItemDefinition } from '../types/RoutineItem';
+
+// Mock AsyncStorage
+jest.mock('@react-native-async-storage/async-storage');
+
+describe('RoutineItemRegistry', () => {
+  let registry: RoutineItemRegistry;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    registry = new RoutineItemRegistry();
+  });
+
+  describe('defaults', () => {
+    it('should start with the built-in items keyed by the legacy enum values', () => {
+      const ids = registry.getItems().map((item) => item.id);
+
+      expect(ids).toEqual([
+        RoutineItem.PUSHUPS,
+        RoutineItem.COFFEE_BREAKFAST,
+        RoutineItem.WATER,
+        RoutineItem.CALENDAR_EMAILS,
+        RoutineItem.MUSIC,
+      ]);
+    });
+
+    it('should fall back to the id for unknown item names', () => {
+      expect(registry.getItemName(RoutineItem.WATER)).toBe('Full Glass of Water');
+      expect(registry.getItemName('deleted-item')).toBe('deleted-item');
+    });
+  });
+
+  describe('load', () => {
+    it('should load stored item definitions', async () => {
+      const stored: RoutineItemDefinition[] = [
+        { id: 'stretch', name: 'Stretch', description: '', icon: '🧘', verification: 'none' },
+      ];
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(JSON.stringify(stored));
+
+      await registry.load();
+
+      expect(AsyncStorage.getItem).toHaveBeenCalledWith('routineItemDefinitions');
+      expect(registry.getItems()).toEqual(stored);
+    });
+
+    it('should keep defaults when nothing is stored', async () => {
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
+
+      await registry.load();
+
+      expect(registry.getItems()).toHaveLength(5);
+    });
+
+    it('should keep defaults when stored data is malformed', async () => {
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(JSON.stringify(['20 Pushups']));
+
+      await registry.load();
+
+      expect(registry.getItems()).toEqual(RoutineItemRegistry.getDefaultItems());
+    });
+  });
+
+  describe('editing', () => {
+    it('should add a new item with a generated id and persist it', async () => {
+      const item = await registry.addItem({
+        name: '  Stretch ',
+        description: 'Five minutes',
+        icon: '🧘',
+        verification: 'none',
+      });
+
+      expect(item.id).toMatch(/^custom-/);
+      expect(item.name).toBe('Stretch');
+      expect(registry.getItems()[5]).toEqual(item);
+
+      const saved: RoutineItemDefinition[] = JSON.parse(
+        (AsyncStorage.setItem as jest.Mock).mock.calls[0][1]
+      );
+      expect(saved).toHaveLength(6);
+    });
+
+    it('should reject items without a name', async () => {
+      await expect(
+        registry.addItem({ name: ' ', description: '', icon: '', verification: 'none' })
+      ).rejects.toThrow('Routine item name is required');
+    });
+
+    it('should update an existing item without changing its id', async () => {
+      await registry.updateItem(RoutineItem.MUSIC, { name: 'Jazz', verification: 'photo' });
+
+      const item = registry.getItem(RoutineItem.MUSIC);
+      expect(item?.name).toBe('Jazz');
+      expect(item?.verification).toBe('photo');
+      expect(item?.icon).toBe('🎵');
+    });
+
+    it('should throw when updating an unknown item', async () => {
+      await expect(registry.updateItem('missing', { name: 'x' })).rejects.toThrow(
+        'Routine item not found: missing'
+      );
+    });
+
+    it('should remove an item', async () => {
+      await registry.removeItem(RoutineItem.PUSHUPS);
+
+      expect(registry.getItem(RoutineItem.PUSHUPS)).toBeUndefined();
+      expect(registry.getItems()).toHaveLength(4);
+    });
+
+    it('should move an item and clamp the target index', async () => {
+      await registry.moveItem(RoutineItem.MUSIC, 0);
+      expect(registry.getItems()[0].id).toBe(RoutineItem.MUSIC);
+
+      await registry.moveItem(RoutineItem.MUSIC, 99);
+      expect(registry.getItems()[4].id).toBe(RoutineItem.MUSIC);
+    });
+
+    it('should restore defaults', async () => {
+      await registry.removeItem(RoutineItem.PUSHUPS);
+      await registry.resetToDefaults();
+
+      expect(registry.getItems()).toEqual(RoutineItemRegistry.getDefaultItems());
+    });
+  });
+
+  describe('prerequisites', () => {
+    it('should save prerequisites with the item definition', async () => {
+      await registry.updateItem(RoutineItem.COFFEE_BREAKFAST, {
+        prerequisites: [RoutineItem.WATER, RoutineItem.WATER],
+      });
+
+      expect(registry.getPrerequisites(RoutineItem.COFFEE_BREAKFAST)).toEqual([RoutineItem.WATER]);
+      expect(AsyncStorage.setItem).toHaveBeenCalledWith(
+        'routineItemDefinitions',
+        expect.stringContaining('"prerequisites":["Full Glass of Water"]')
+      );
+    });
+
+    it('should reject unknown and self prerequisites', async () => {
+      await expect(
+        registry.updateItem(RoutineItem.WATER, { prerequisites: ['missing'] })
+      ).rejects.toThrow('Routine item not found: missing');
+      await expect(
+        registry.updateItem(RoutineItem.WATER, { prerequisites: [RoutineItem.WATER] })
+      ).rejects.toThrow('cannot be its own prerequisite');
+    });
+
+    it('should reject prerequisite cycles', async () => {
+      await registry.updateItem(RoutineItem.COFFEE_BREAKFAST, {
+        prerequisites: [RoutineItem.WATER],
+      });
+      await registry.updateItem(RoutineItem.WATER, { prerequisites: [RoutineItem.PUSHUPS] });
+
+      await expect(
+        registry.updateItem(RoutineItem.PUSHUPS, {
+          prerequisites: [RoutineItem.COFFEE_BREAKFAST],
+        })
+      ).rejects.toThrow('Prerequisites cannot form a cycle');
+      expect(registry.getPrerequisites(RoutineItem.PUSHUPS)).toEqual([]);
+    });
+
+    it('should drop removed items from prerequisites', async () => {
+      await registry.updateItem(RoutineItem.COFFEE_BREAKFAST, {
+        prerequisites: [RoutineItem.WATER],
+      });
+      await registry.removeItem(RoutineItem.WATER);
+
+      expect(registry.getPrerequisites(RoutineItem.COFFEE_BREAKFAST)).toEqual([]);
+    });
+  });
+
+  describe('quantities', () => {
+    it('should default the step and trim the unit', async () => {
+      await registry.updateItem(RoutineItem.WATER, {
+        quantity: { target: 500, unit: ' ml ' },
+      });
+
+      expect(registry.getItem(RoutineItem.WATER)?.quantity).toEqual({
+        target: 500,
+        unit: 'ml',
+        step: 1,
+      });
+    });
+
+    it('should reject targets that are not positive', async () => {
+      await expect(
+        registry.updateItem(RoutineItem.WATER, { quantity: { target: 0, unit: 'glasses' } })
+      ).rejects.toThrow('Quantity target must be greater than zero');
+    });
+  });
+});
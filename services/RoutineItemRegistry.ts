@@ -0,0 +1,263 @@
+import {
+  DEFAULT_ROUTINE_ITEMS,
+  QuantityTarget,
+  RoutineItemDefinition,
+  RoutineItemId,
+} from '../types/RoutineItem';
+import { DEFAULT_ROUTINE_ID, RoutineId, getRoutineStorageKey } from './RoutineCatalog';
+import { StorageAdapter } from './Storage';
+import { STORAGE_KEYS } from './StorageKeys';
+
+export type RoutineItemInput = Omit<RoutineItemDefinition, 'id'>;
+
+export class RoutineItemRegistry {
+  private routineId: RoutineId;
+  private items: RoutineItemDefinition[];
+  private storage: StorageAdapter;
+
+  /**
+   * @param routineId Routine whose items this registry holds
+   * Only the morning routine starts with the built-in items; others start empty
+   */
+  constructor(
+    routineId: RoutineId = DEFAULT_ROUTINE_ID,
+    storage: StorageAdapter = new StorageAdapter()
+  ) {
+    this.routineId = routineId;
+    this.storage = storage;
+    this.items = this.getInitialItems();
+  }
+
+  getRoutineId(): RoutineId {
+    return this.routineId;
+  }
+
+  /**
+   * Get all routine items in display order
+   */
+  getItems(): RoutineItemDefinition[] {
+    return this.items;
+  }
+
+  /**
+   * Get a single item definition
+   */
+  getItem(id: RoutineItemId): RoutineItemDefinition | undefined {
+    return this.items.find((item) => item.id === id);
+  }
+
+  /**
+   * Get display name for an item id
+   * Falls back to the id itself for items that have since been deleted
+   */
+  getItemName(id: RoutineItemId): string {
+    return this.getItem(id)?.name ?? id;
+  }
+
+  /**
+   * Get ids of the items that must be completed before an item
+   */
+  getPrerequisites(id: RoutineItemId): RoutineItemId[] {
+    return this.getItem(id)?.prerequisites ?? [];
+  }
+
+  /**
+   * Load item definitions from storage
+   * Keeps the default items if none are stored
+   */
+  async load(): Promise<void> {
+    try {
+      const items = await this.storage.getJSON<unknown>(this.key());
+      if (items) {
+        if (Array.isArray(items) && items.every(RoutineItemRegistry.isDefinition)) {
+          this.items = items;
+        }
+      }
+    } catch (error) {
+      console.error('Error loading routine items:', error);
+      this.items = this.getInitialItems();
+    }
+  }
+
+  /**
+   * Save item definitions to storage
+   */
+  async save(): Promise<void> {
+    try {
+      await this.storage.setJSON(this.key(), this.items);
+    } catch (error) {
+      console.error('Error saving routine items:', error);
+    }
+  }
+
+  /**
+   * Create a new item at the end of the routine
+   */
+  async addItem(input: RoutineItemInput): Promise<RoutineItemDefinition> {
+    const item: RoutineItemDefinition = {
+      ...RoutineItemRegistry.normalizeInput(input),
+      id: this.generateId(),
+    };
+    this.validatePrerequisites(item);
+
+    this.items = [...this.items, item];
+    await this.save();
+    return item;
+  }
+
+  /**
+   * Update any field of an existing item except its id
+   */
+  async updateItem(id: RoutineItemId, changes: Partial<RoutineItemInput>): Promise<void> {
+    const existing = this.getItem(id);
+    if (!existing) {
+      throw new Error(`Routine item not found: ${id}`);
+    }
+
+    const updated: RoutineItemDefinition = {
+      ...RoutineItemRegistry.normalizeInput({ ...existing, ...changes }),
+      id,
+    };
+    this.validatePrerequisites(updated);
+
+    this.items = this.items.map((item) => (item.id === id ? updated : item));
+    await this.save();
+  }
+
+  /**
+   * Delete an item and drop it from other items' prerequisites
+   * History that references the id keeps loading; it just shows the raw id
+   */
+  async removeItem(id: RoutineItemId): Promise<void> {
+    this.items = this.items
+      .filter((item) => item.id !== id)
+      .map((item) =>
+        item.prerequisites?.includes(id)
+          ? { ...item, prerequisites: item.prerequisites.filter((p) => p !== id) }
+          : item
+      );
+    await this.save();
+  }
+
+  /**
+   * Move an item to a new position in the routine
+   */
+  async moveItem(id: RoutineItemId, toIndex: number): Promise<void> {
+    const fromIndex = this.items.findIndex((item) => item.id === id);
+    if (fromIndex === -1) {
+      throw new Error(`Routine item not found: ${id}`);
+    }
+
+    const targetIndex = Math.max(0, Math.min(this.items.length - 1, toIndex));
+    const reordered = [...this.items];
+    const [moved] = reordered.splice(fromIndex, 1);
+    reordered.splice(targetIndex, 0, moved);
+
+    this.items = reordered;
+    await this.save();
+  }
+
+  /**
+   * Restore the built-in routine items
+   */
+  async resetToDefaults(): Promise<void> {
+    this.items = RoutineItemRegistry.getDefaultItems();
+    await this.save();
+  }
+
+  /**
+   * Get a fresh copy of the built-in items
+   */
+  static getDefaultItems(): RoutineItemDefinition[] {
+    return DEFAULT_ROUTINE_ITEMS.map((item) => ({ ...item }));
+  }
+
+  private getInitialItems(): RoutineItemDefinition[] {
+    return this.routineId === DEFAULT_ROUTINE_ID ? RoutineItemRegistry.getDefaultItems() : [];
+  }
+
+  private key(): string {
+    return getRoutineStorageKey(STORAGE_KEYS.routine.items, this.routineId);
+  }
+
+  private generateId(): RoutineItemId {
+    let id: RoutineItemId;
+    do {
+      id = `custom-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+    } while (this.getItem(id));
+    return id;
+  }
+
+  /**
+   * Ensure prerequisites exist and don't make an item (indirectly) wait on itself
+   */
+  private validatePrerequisites(item: RoutineItemDefinition): void {
+    for (const prerequisite of item.prerequisites ?? []) {
+      if (prerequisite === item.id) {
+        throw new Error('A routine item cannot be its own prerequisite');
+      }
+      if (!this.getItem(prerequisite)) {
+        throw new Error(`Routine item not found: ${prerequisite}`);
+      }
+    }
+
+    // Walk prerequisites, using the updated definition for the item itself
+    const visited = new Set<RoutineItemId>();
+    const pending = [...(item.prerequisites ?? [])];
+    while (pending.length > 0) {
+      const current = pending.pop() as RoutineItemId;
+      if (current === item.id) {
+        throw new Error('Prerequisites cannot form a cycle');
+      }
+      if (!visited.has(current)) {
+        visited.add(current);
+        pending.push(...this.getPrerequisites(current));
+      }
+    }
+  }
+
+  private static normalizeInput(input: RoutineItemInput): RoutineItemInput {
+    const name = input.name.trim();
+    if (!name) {
+      throw new Error('Routine item name is required');
+    }
+
+    return {
+      name,
+      description: input.description.trim(),
+      icon: input.icon.trim() || '✅',
+      verification: input.verification,
+      ...(input.verificationConfig ? { verificationConfig: input.verificationConfig } : {}),
+      ...(input.optional ? { optional: true } : {}),
+      ...(input.quantity
+        ? { quantity: RoutineItemRegistry.normalizeQuantity(input.quantity) }
+        : {}),
+      ...(input.prerequisites?.length
+        ? { prerequisites: Array.from(new Set(input.prerequisites)) }
+        : {}),
+    };
+  }
+
+  private static normalizeQuantity(quantity: QuantityTarget): QuantityTarget {
+    if (!Number.isFinite(quantity.target) || quantity.target <= 0) {
+      throw new Error('Quantity target must be greater than zero');
+    }
+
+    const step = quantity.step ?? 1;
+    return {
+      target: quantity.target,
+      unit: quantity.unit.trim(),
+      step: Number.isFinite(step) && step > 0 ? step : 1,
+    };
+  }
+
+  private static isDefinition(value: unknown): value is RoutineItemDefinition {
+    const item = value as RoutineItemDefinition;
+    return (
+      typeof item === 'object' &&
+      item !== null &&
+      typeof item.id === 'string' &&
+      typeof item.name === 'string'
+    );
+  }
+}
@@ -1,5 +1,11 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { RoutineManager } from './RoutineManager';
+import { RoutineItemRegistry } from './RoutineItemRegistry';
+import { HistoryManager } from './HistoryManager';
+import { SettingsManager } from './SettingsManager';
+import { MemoryStorageBackend, StorageAdapter } from './Storage';
+import { ScheduleExceptions } from './ScheduleExceptions';
+import { ScheduleHistory } from './ScheduleHistory';
 import { RoutineItem } from '../types/RoutineItem';
 
 // Mock AsyncStorage
@@ -18,6 +24,8 @@ describe('RoutineManager', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    // Undo stored data injected by earlier tests
+    (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
     routineManager = new RoutineManager();
   });
 
@@ -90,6 +98,461 @@ describe('RoutineManager', () => {
     });
   });
 
+  describe('Item Registry', () => {
+    test('getAllItems follows the registry order and contents', async () => {
+      const registry = new RoutineItemRegistry();
+      const manager = new RoutineManager(registry);
+
+      const stretch = await registry.addItem({
+        name: 'Stretch',
+        description: '',
+        icon: '🧘',
+        verification: 'none',
+      });
+      await registry.removeItem(RoutineItem.MUSIC);
+
+      expect(manager.getAllItems()).toContain(stretch.id);
+      expect(manager.getAllItems()).not.toContain(RoutineItem.MUSIC);
+      expect(manager.getTotalCount()).toBe(5);
+    });
+
+    test('completions of deleted items do not count toward the routine', async () => {
+      const registry = new RoutineItemRegistry();
+      const manager = new RoutineManager(registry);
+
+      await manager.markComplete(RoutineItem.MUSIC);
+      await registry.removeItem(RoutineItem.MUSIC);
+
+      expect(manager.getCompletedCount()).toBe(0);
+    });
+  });
+
+  describe('Prerequisites', () => {
+    let registry: RoutineItemRegistry;
+
+    beforeEach(async () => {
+      registry = new RoutineItemRegistry();
+      routineManager = new RoutineManager(registry);
+      await registry.updateItem(RoutineItem.COFFEE_BREAKFAST, {
+        prerequisites: [RoutineItem.WATER],
+      });
+    });
+
+    test('rejects completing an item before its prerequisites', async () => {
+      await expect(routineManager.markComplete(RoutineItem.COFFEE_BREAKFAST)).rejects.toThrow(
+        'Complete Full Glass of Water before Coffee + Breakfast'
+      );
+      expect(routineManager.isCompleted(RoutineItem.COFFEE_BREAKFAST)).toBe(false);
+      expect(routineManager.canComplete(RoutineItem.COFFEE_BREAKFAST)).toBe(false);
+    });
+
+    test('allows the item once its prerequisites are complete', async () => {
+      await routineManager.markComplete(RoutineItem.WATER);
+
+      expect(routineManager.getBlockingPrerequisites(RoutineItem.COFFEE_BREAKFAST)).toEqual([]);
+      await routineManager.markComplete(RoutineItem.COFFEE_BREAKFAST);
+      expect(routineManager.isCompleted(RoutineItem.COFFEE_BREAKFAST)).toBe(true);
+    });
+
+    test('items without prerequisites can be completed in any order', async () => {
+      await routineManager.markComplete(RoutineItem.MUSIC);
+      await routineManager.markComplete(RoutineItem.PUSHUPS);
+
+      expect(routineManager.getCompletedCount()).toBe(2);
+    });
+  });
+
+  describe('Optional Items', () => {
+    let registry: RoutineItemRegistry;
+
+    beforeEach(async () => {
+      registry = new RoutineItemRegistry();
+      routineManager = new RoutineManager(registry);
+      await registry.updateItem(RoutineItem.MUSIC, { optional: true });
+    });
+
+    test('routine is complete once every required item is done', async () => {
+      for (const item of routineManager.getRequiredItems()) {
+        await routineManager.markComplete(item);
+      }
+
+      expect(routineManager.getRequiredItems()).not.toContain(RoutineItem.MUSIC);
+      expect(routineManager.isRoutineComplete()).toBe(true);
+      expect(routineManager.getRequiredCompletedCount()).toBe(4);
+      expect(routineManager.getRequiredCount()).toBe(4);
+    });
+
+    test('optional items do not count toward required progress', async () => {
+      await routineManager.markComplete(RoutineItem.MUSIC);
+
+      expect(routineManager.isRoutineComplete()).toBe(false);
+      expect(routineManager.getRequiredCompletedCount()).toBe(0);
+      expect(routineManager.getCompletedCount()).toBe(1);
+    });
+
+    test('stores optional completions as bonus items in history', async () => {
+      const recordCompletion = jest.fn();
+      const historyManager = { recordCompletion } as unknown as HistoryManager;
+
+      await routineManager.markComplete(RoutineItem.MUSIC);
+      await routineManager.markComplete(RoutineItem.WATER);
+      await routineManager.onRoutineCompleted(historyManager, true);
+
+      const [completedItems, , , , , bonusItems] = recordCompletion.mock.calls[0];
+      expect(completedItems).toEqual([RoutineItem.WATER]);
+      expect(bonusItems).toEqual([RoutineItem.MUSIC]);
+    });
+  });
+
+  describe('Day Item Sets', () => {
+    const settings = SettingsManager.getDefaultSettings();
+    const sundayWithoutPushups = {
+      ...settings,
+      schedule: {
+        ...settings.schedule,
+        0: { ...settings.schedule[0], items: [RoutineItem.WATER, RoutineItem.MUSIC] },
+      },
+    };
+    const sunday = new Date(2025, 0, 19, 9, 0);
+    const monday = new Date(2025, 0, 20, 9, 0);
+
+    test('limits the routine to the items chosen for the day', () => {
+      routineManager.applySettings(sundayWithoutPushups, sunday);
+
+      expect(routineManager.getAllItems()).toEqual([RoutineItem.WATER, RoutineItem.MUSIC]);
+      expect(routineManager.getTotalCount()).toBe(2);
+    });
+
+    test('runs every item on days without an item list', () => {
+      routineManager.applySettings(sundayWithoutPushups, monday);
+
+      expect(routineManager.getAllItems()).toHaveLength(5);
+    });
+
+    test("keeps the previous day's items while its window crosses midnight", () => {
+      const lateSunday = {
+        ...sundayWithoutPushups,
+        schedule: {
+          ...sundayWithoutPushups.schedule,
+          0: { ...sundayWithoutPushups.schedule[0], startTime: '23:00', endTime: '02:00' },
+        },
+      };
+
+      routineManager.applySettings(lateSunday, new Date(2025, 0, 20, 1, 30));
+      expect(routineManager.getTotalCount()).toBe(2);
+
+      routineManager.applySettings(lateSunday, new Date(2025, 0, 20, 2, 30));
+      expect(routineManager.getAllItems()).toHaveLength(5);
+    });
+
+    test('completes once the day items are done', async () => {
+      routineManager.applySettings(sundayWithoutPushups, sunday);
+
+      await routineManager.markComplete(RoutineItem.WATER);
+      await routineManager.markComplete(RoutineItem.MUSIC);
+
+      expect(routineManager.isRoutineComplete()).toBe(true);
+    });
+
+    test('records history against the day item set', async () => {
+      const recordCompletion = jest.fn();
+      const historyManager = { recordCompletion } as unknown as HistoryManager;
+      routineManager.applySettings(sundayWithoutPushups, sunday);
+
+      await routineManager.markComplete(RoutineItem.WATER);
+      await routineManager.markComplete(RoutineItem.MUSIC);
+      await routineManager.onRoutineCompleted(historyManager, false);
+
+      expect(recordCompletion.mock.calls[0][0]).toEqual([RoutineItem.WATER, RoutineItem.MUSIC]);
+    });
+  });
+
+  describe('Quantity Items', () => {
+    let registry: RoutineItemRegistry;
+
+    beforeEach(async () => {
+      registry = new RoutineItemRegistry();
+      routineManager = new RoutineManager(registry);
+      await registry.updateItem(RoutineItem.WATER, {
+        quantity: { target: 3, unit: 'glasses' },
+      });
+    });
+
+    test('completes the item when the target is reached', async () => {
+      await routineManager.addProgress(RoutineItem.WATER, 1);
+      await routineManager.addProgress(RoutineItem.WATER, 1);
+      expect(routineManager.isCompleted(RoutineItem.WATER)).toBe(false);
+
+      await routineManager.addProgress(RoutineItem.WATER, 1);
+      expect(routineManager.getProgress(RoutineItem.WATER)).toBe(3);
+      expect(routineManager.isCompleted(RoutineItem.WATER)).toBe(true);
+    });
+
+    test('reopens the item when progress drops below the target', async () => {
+      await routineManager.addProgress(RoutineItem.WATER, 3);
+      await routineManager.addProgress(RoutineItem.WATER, -1);
+
+      expect(routineManager.isCompleted(RoutineItem.WATER)).toBe(false);
+      expect(routineManager.getProgress(RoutineItem.WATER)).toBe(2);
+    });
+
+    test('never goes below zero', async () => {
+      await routineManager.addProgress(RoutineItem.WATER, -2);
+
+      expect(routineManager.getProgress(RoutineItem.WATER)).toBe(0);
+    });
+
+    test('rejects progress on items without a target', async () => {
+      await expect(routineManager.addProgress(RoutineItem.MUSIC, 1)).rejects.toThrow(
+        'Routine item has no quantity target'
+      );
+    });
+
+    test('persists progress and clears it on reset', async () => {
+      await routineManager.addProgress(RoutineItem.WATER, 2);
+      expect(AsyncStorage.setItem).toHaveBeenCalledWith(
+        'routineProgress',
+        JSON.stringify({ [RoutineItem.WATER]: 2 })
+      );
+
+      await routineManager.resetRoutine();
+      expect(routineManager.getProgress(RoutineItem.WATER)).toBe(0);
+    });
+
+    test('records quantities reached in history', async () => {
+      const recordCompletion = jest.fn();
+      const historyManager = { recordCompletion } as unknown as HistoryManager;
+
+      await routineManager.addProgress(RoutineItem.WATER, 2);
+      await routineManager.onRoutineCompleted(historyManager, false);
+
+      expect(recordCompletion.mock.calls[0][6]).toEqual({ [RoutineItem.WATER]: 2 });
+    });
+  });
+
+  describe('Timeline', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    test('records completion and un-completion timestamps with the method', async () => {
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date(2025, 0, 21, 7, 0, 0));
+      await routineManager.markComplete(RoutineItem.WATER, 'photo');
+
+      jest.setSystemTime(new Date(2025, 0, 21, 7, 5, 0));
+      await routineManager.toggleItem(RoutineItem.MUSIC);
+      await routineManager.toggleItem(RoutineItem.MUSIC);
+
+      expect(routineManager.getTimeline()).toEqual([
+        {
+          itemId: RoutineItem.WATER,
+          action: 'completed',
+          timestamp: new Date(2025, 0, 21, 7, 0, 0).getTime(),
+          method: 'photo',
+        },
+        {
+          itemId: RoutineItem.MUSIC,
+          action: 'completed',
+          timestamp: new Date(2025, 0, 21, 7, 5, 0).getTime(),
+          method: 'none',
+        },
+        {
+          itemId: RoutineItem.MUSIC,
+          action: 'uncompleted',
+          timestamp: new Date(2025, 0, 21, 7, 5, 0).getTime(),
+          method: 'none',
+        },
+      ]);
+    });
+
+    test('defaults the method to the item verification kind', async () => {
+      await routineManager.markComplete(RoutineItem.PUSHUPS);
+
+      expect(routineManager.getTimeline()[0].method).toBe('motion-reps');
+    });
+
+    test('does not record repeated completions of a completed item', async () => {
+      await routineManager.markComplete(RoutineItem.WATER);
+      await routineManager.markComplete(RoutineItem.WATER);
+
+      expect(routineManager.getTimeline()).toHaveLength(1);
+    });
+
+    test('persists the timeline and clears it on reset', async () => {
+      await routineManager.markComplete(RoutineItem.WATER);
+
+      expect(AsyncStorage.setItem).toHaveBeenCalledWith(
+        'routineTimeline',
+        expect.stringContaining(RoutineItem.WATER)
+      );
+
+      await routineManager.resetRoutine();
+      expect(routineManager.getTimeline()).toEqual([]);
+    });
+  });
+
+  describe('Day Closing', () => {
+    const recordOutcome = jest.fn();
+    const historyManager = { recordOutcome } as unknown as HistoryManager;
+    const settings = SettingsManager.getDefaultSettings();
+
+    // Tuesday 2025-01-21 at 07:00 was the last reset
+    const lastReset = new Date(2025, 0, 21, 7, 0, 0).getTime();
+
+    const resetOn = async (now: Date) => {
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(JSON.stringify(lastReset));
+      jest.useFakeTimers();
+      jest.setSystemTime(now);
+      const resetTime = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 7).getTime();
+      return routineManager.checkAndResetIfNeeded(settings, resetTime, historyManager);
+    };
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    test('records a partial day when some items were done', async () => {
+      await routineManager.markComplete(RoutineItem.WATER);
+
+      expect(await resetOn(new Date(2025, 0, 22, 7, 30))).toBe(true);
+
+      expect(recordOutcome).toHaveBeenCalledTimes(1);
+      expect(recordOutcome.mock.calls[0][0]).toMatchObject({
+        date: '2025-01-21',
+        completedItems: [RoutineItem.WATER],
+        outcome: 'partial',
+      });
+      expect(routineManager.getCompletedCount()).toBe(0);
+    });
+
+    test('records a complete day when every item was done without the lock', async () => {
+      for (const item of routineManager.getAllItems()) {
+        await routineManager.markComplete(item);
+      }
+
+      await resetOn(new Date(2025, 0, 22, 7, 30));
+
+      expect(recordOutcome.mock.calls[0][0]).toMatchObject({
+        date: '2025-01-21',
+        outcome: 'complete',
+      });
+    });
+
+    test('records missed scheduled days between resets', async () => {
+      await resetOn(new Date(2025, 0, 24, 7, 30));
+
+      const recorded = recordOutcome.mock.calls.map(([record]) => [record.date, record.outcome]);
+      expect(recorded).toEqual([
+        ['2025-01-21', 'missed'],
+        ['2025-01-22', 'missed'],
+        ['2025-01-23', 'missed'],
+      ]);
+    });
+
+    test('skips days the routine is not scheduled', async () => {
+      const weekdaysOnly = {
+        ...settings,
+        schedule: { ...settings.schedule, 3: { ...settings.schedule[3], enabled: false } },
+      };
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(JSON.stringify(lastReset));
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date(2025, 0, 24, 7, 30));
+
+      await routineManager.checkAndResetIfNeeded(
+        weekdaysOnly,
+        new Date(2025, 0, 24, 7).getTime(),
+        historyManager
+      );
+
+      const dates = recordOutcome.mock.calls.map(([record]) => record.date);
+      expect(dates).toEqual(['2025-01-21', '2025-01-23']);
+    });
+
+    test('skips vacations, sick days and holidays', async () => {
+      const exceptions = new ScheduleExceptions(new StorageAdapter(new MemoryStorageBackend()));
+      await exceptions.addException({
+        kind: 'vacation',
+        startDate: '2025-01-21',
+        endDate: '2025-01-22',
+      });
+      routineManager = new RoutineManager(undefined, undefined, undefined, exceptions);
+
+      await resetOn(new Date(2025, 0, 24, 7, 30));
+
+      const dates = recordOutcome.mock.calls.map(([record]) => record.date);
+      expect(dates).toEqual(['2025-01-23']);
+    });
+
+    test('judges past days by the schedule in force at the time', async () => {
+      const schedules = new ScheduleHistory(
+        'morning',
+        new StorageAdapter(new MemoryStorageBackend())
+      );
+      await schedules.record(settings.schedule, '');
+      // Wednesday was turned off today, after the missed Wednesday
+      const wednesdaysOff = {
+        ...settings,
+        schedule: { ...settings.schedule, 3: { ...settings.schedule[3], enabled: false } },
+      };
+      await schedules.record(wednesdaysOff.schedule, '2025-01-24');
+      routineManager = new RoutineManager(undefined, undefined, undefined, undefined, schedules);
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(JSON.stringify(lastReset));
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date(2025, 0, 24, 7, 30));
+
+      await routineManager.checkAndResetIfNeeded(
+        wednesdaysOff,
+        new Date(2025, 0, 24, 7).getTime(),
+        historyManager
+      );
+
+      const dates = recordOutcome.mock.calls.map(([record]) => record.date);
+      expect(dates).toEqual(['2025-01-21', '2025-01-22', '2025-01-23']);
+    });
+
+    test('does not record anything on the first reset', async () => {
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
+
+      await routineManager.checkAndResetIfNeeded(settings, Date.now() - 1000, historyManager);
+
+      expect(recordOutcome).not.toHaveBeenCalled();
+    });
+
+    test('records an emergency unlock for today', async () => {
+      await routineManager.markComplete(RoutineItem.PUSHUPS);
+
+      await routineManager.recordDayOutcome(historyManager, 'emergency_unlocked', true);
+
+      expect(recordOutcome.mock.calls[0][0]).toMatchObject({
+        completedItems: [RoutineItem.PUSHUPS],
+        wasLocked: true,
+        outcome: 'emergency_unlocked',
+      });
+    });
+
+    test('keeps an emergency unlock when every item is finished before the reset', async () => {
+      const storage = new StorageAdapter(
+        new MemoryStorageBackend({ lastResetTimestamp: JSON.stringify(lastReset) })
+      );
+      const manager = new RoutineManager(new RoutineItemRegistry('morning', storage), storage);
+      const history = new HistoryManager('morning', storage);
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date(2025, 0, 21, 7, 30));
+
+      await manager.recordDayOutcome(history, 'emergency_unlocked', true);
+      for (const item of manager.getAllItems()) {
+        await manager.markComplete(item);
+      }
+      jest.setSystemTime(new Date(2025, 0, 22, 7, 30));
+      await manager.checkAndResetIfNeeded(settings, new Date(2025, 0, 22, 7).getTime(), history);
+
+      const [record] = await history.getRecordsInRange('2025-01-21', '2025-01-21');
+      expect(record).toMatchObject({ outcome: 'emergency_unlocked', wasLocked: true });
+      expect(record.completedItems).toHaveLength(manager.getAllItems().length);
+    });
+  });
+
   describe('Persistence', () => {
     test('loadState loads completion state from AsyncStorage', async () => {
       const mockData = JSON.stringify([RoutineItem.PUSHUPS, RoutineItem.WATER]);
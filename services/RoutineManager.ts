@@ -1,41 +1,204 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { RoutineItem } from '../types/RoutineItem';
-import { AppSettings } from './SettingsManager';
-import { HistoryManager } from './HistoryManager';
+import { RoutineItemDefinition, RoutineItemId, VerificationKind } from '../types/RoutineItem';
+import { AppSettings, DaySchedule, SettingsManager } from './SettingsManager';
+import { HistoryManager, ItemTimelineEvent, DailyRecord, DayOutcome } from './HistoryManager';
+import { RoutineItemRegistry } from './RoutineItemRegistry';
+import { DateUtils } from './DateUtils';
+import { RoutineId, getRoutineStorageKey } from './RoutineCatalog';
+import { EventJournal, JournalEvent } from './EventJournal';
+import { ScheduleExceptions } from './ScheduleExceptions';
+import { ScheduleHistory } from './ScheduleHistory';
+import { StorageAdapter, StorageChange } from './Storage';
+import { STORAGE_KEYS } from './StorageKeys';
 
-const STORAGE_KEY = 'routineCompletionState';
-const LAST_RESET_KEY = 'lastResetTimestamp';
-const START_TIME_KEY = 'routineStartTime';
+const MAX_MISSED_DAYS = 90; // Longest absence backfilled with missed days at reset
 
 export class RoutineManager {
-  private completedItems: Set<RoutineItem> = new Set();
+  private completedItems: Set<RoutineItemId> = new Set();
   private routineStartTime: number | null = null;
+  private timeline: ItemTimelineEvent[] = [];
+  private progress: Record<RoutineItemId, number> = {};
+  private itemRegistry: RoutineItemRegistry;
+  private storage: StorageAdapter;
+  private journal: EventJournal;
+  private exceptions: ScheduleExceptions;
+  private schedules: ScheduleHistory;
+  private dayItems: RoutineItemId[] | null = null; // null = every item applies
 
-  getAllItems(): RoutineItem[] {
-    return Object.values(RoutineItem);
+  /**
+   * @param itemRegistry Items of the routine; its routine id scopes this manager's storage
+   * @param journal Where every change is logged; the stored state is a cache of it
+   * @param exceptions Vacations, sick days and holidays, never recorded as missed
+   * @param schedules Schedules in force on past days, used to decide which closed days were due
+   */
+  constructor(
+    itemRegistry: RoutineItemRegistry = new RoutineItemRegistry(),
+    storage: StorageAdapter = new StorageAdapter(),
+    journal: EventJournal = new EventJournal(itemRegistry.getRoutineId(), storage),
+    exceptions: ScheduleExceptions = new ScheduleExceptions(storage),
+    schedules: ScheduleHistory = new ScheduleHistory(itemRegistry.getRoutineId(), storage)
+  ) {
+    this.itemRegistry = itemRegistry;
+    this.storage = storage;
+    this.journal = journal;
+    this.exceptions = exceptions;
+    this.schedules = schedules;
+  }
+
+  getRoutineId(): RoutineId {
+    return this.itemRegistry.getRoutineId();
+  }
+
+  /**
+   * Limit the routine to the items chosen for a day
+   * A schedule without an item list runs every item
+   */
+  setDaySchedule(schedule: DaySchedule | undefined): void {
+    this.dayItems = schedule?.items ?? null;
+  }
+
+  /**
+   * Apply the schedule that owns the given moment (defaults to now)
+   * In the early hours that is the previous day's, while its window crosses midnight
+   */
+  applySettings(settings: AppSettings, date: Date = new Date()): void {
+    const scheduleDate = SettingsManager.getScheduleDate(settings, date);
+    this.setDaySchedule(settings.schedule[DateUtils.getDayOfWeekISO(scheduleDate)]);
+  }
+
+  /**
+   * Get definitions of the items in today's routine, in display order
+   */
+  getItemDefinitions(): RoutineItemDefinition[] {
+    const dayItems = this.dayItems;
+    const items = this.itemRegistry.getItems();
+    return dayItems ? items.filter((item) => dayItems.includes(item.id)) : items;
+  }
+
+  /**
+   * Get ids of all items in today's routine, in display order
+   */
+  getAllItems(): RoutineItemId[] {
+    return this.getItemDefinitions().map((item) => item.id);
   }
 
-  isCompleted(item: RoutineItem): boolean {
+  getItemRegistry(): RoutineItemRegistry {
+    return this.itemRegistry;
+  }
+
+  isCompleted(item: RoutineItemId): boolean {
     return this.completedItems.has(item);
   }
 
-  async markComplete(item: RoutineItem): Promise<void> {
+  /**
+   * Get prerequisites of an item that are still incomplete
+   * Prerequisites no longer in the routine don't block
+   */
+  getBlockingPrerequisites(item: RoutineItemId): RoutineItemId[] {
+    const items = this.getAllItems();
+    return this.itemRegistry
+      .getPrerequisites(item)
+      .filter((prerequisite) => items.includes(prerequisite) && !this.isCompleted(prerequisite));
+  }
+
+  canComplete(item: RoutineItemId): boolean {
+    return this.getBlockingPrerequisites(item).length === 0;
+  }
+
+  private assertCanComplete(item: RoutineItemId): void {
+    const blocking = this.getBlockingPrerequisites(item);
+    if (blocking.length > 0) {
+      const names = blocking.map((id) => this.itemRegistry.getItemName(id)).join(', ');
+      throw new Error(`Complete ${names} before ${this.itemRegistry.getItemName(item)}`);
+    }
+  }
+
+  /**
+   * Mark an item complete
+   * Throws if any of the item's prerequisites are still incomplete or the change can't be
+   * journaled
+   * @param method Verification kind that verified it; defaults to the item's configured kind
+   */
+  async markComplete(item: RoutineItemId, method?: VerificationKind): Promise<void> {
+    if (!this.completedItems.has(item)) {
+      this.assertCanComplete(item);
+    }
+
+    const now = Date.now();
+
+    // Journal first so a failed write leaves today's state untouched
+    if (!this.completedItems.has(item)) {
+      const verifiedBy = method ?? this.itemRegistry.getItem(item)?.verification ?? 'none';
+      await this.journal.append({
+        type: 'item_completed',
+        timestamp: now,
+        itemId: item,
+        method: verifiedBy,
+      });
+      this.recordTimelineEvent(item, 'completed', now, verifiedBy);
+    }
+
     // Track start time on first item
     if (this.completedItems.size === 0 && !this.routineStartTime) {
-      this.routineStartTime = Date.now();
-      await this.saveStartTime();
+      this.routineStartTime = now;
     }
 
     this.completedItems.add(item);
     await this.saveState();
   }
 
-  async markIncomplete(item: RoutineItem): Promise<void> {
+  async markIncomplete(item: RoutineItemId): Promise<void> {
+    if (this.completedItems.has(item)) {
+      const now = Date.now();
+      await this.journal.append({ type: 'item_uncompleted', timestamp: now, itemId: item });
+      this.recordTimelineEvent(item, 'uncompleted', now, 'none');
+    }
+
     this.completedItems.delete(item);
     await this.saveState();
   }
 
-  async toggleItem(item: RoutineItem): Promise<void> {
+  /**
+   * Get the amount logged today for a quantity item
+   */
+  getProgress(item: RoutineItemId): number {
+    return this.progress[item] ?? 0;
+  }
+
+  /**
+   * Add (or with a negative amount, remove) progress on a quantity item
+   * The item completes when its target is reached and reopens if it drops below
+   * Throws if the item's prerequisites are still incomplete
+   */
+  async addProgress(item: RoutineItemId, amount: number): Promise<void> {
+    const target = this.itemRegistry.getItem(item)?.quantity?.target;
+    if (target === undefined) {
+      throw new Error(`Routine item has no quantity target: ${item}`);
+    }
+
+    if (amount > 0) {
+      this.assertCanComplete(item);
+    }
+
+    const value = Math.max(0, this.getProgress(item) + amount);
+
+    await this.journal.append({
+      type: 'progress_changed',
+      timestamp: Date.now(),
+      itemId: item,
+      value,
+    });
+    this.progress = { ...this.progress, [item]: value };
+
+    if (value >= target && !this.completedItems.has(item)) {
+      await this.markComplete(item);
+    } else if (value < target && this.completedItems.has(item)) {
+      await this.markIncomplete(item);
+    } else {
+      await this.saveState();
+    }
+  }
+
+  async toggleItem(item: RoutineItemId): Promise<void> {
     if (this.isCompleted(item)) {
       await this.markIncomplete(item);
     } else {
@@ -43,68 +206,153 @@ export class RoutineManager {
     }
   }
 
+  /**
+   * Get ids of the items the routine needs to count as complete
+   */
+  getRequiredItems(): RoutineItemId[] {
+    return this.getItemDefinitions()
+      .filter((item) => !item.optional)
+      .map((item) => item.id);
+  }
+
+  /**
+   * Get ids of bonus items, which never block completion
+   */
+  getOptionalItems(): RoutineItemId[] {
+    return this.getItemDefinitions()
+      .filter((item) => item.optional)
+      .map((item) => item.id);
+  }
+
+  /**
+   * Complete once every required item is done; optional items don't count
+   */
   isRoutineComplete(): boolean {
-    return this.completedItems.size === this.getAllItems().length;
+    return (
+      this.getTotalCount() > 0 &&
+      this.getRequiredItems().every((item) => this.completedItems.has(item))
+    );
   }
 
+  /**
+   * Count completed items that are still part of the routine
+   * Completions of deleted items are ignored
+   */
   getCompletedCount(): number {
-    return this.completedItems.size;
+    return this.getAllItems().filter((item) => this.completedItems.has(item)).length;
   }
 
   getTotalCount(): number {
     return this.getAllItems().length;
   }
 
+  getRequiredCompletedCount(): number {
+    return this.getRequiredItems().filter((item) => this.completedItems.has(item)).length;
+  }
+
+  getRequiredCount(): number {
+    return this.getRequiredItems().length;
+  }
+
+  /**
+   * Load today's state
+   * When the journal holds the whole current cycle, the state is rebuilt from it;
+   * otherwise (a cycle that began before journaling) the stored state is used
+   */
   async loadState(): Promise<void> {
     try {
-      const data = await AsyncStorage.getItem(STORAGE_KEY);
-      if (data) {
-        const items: RoutineItem[] = JSON.parse(data);
+      const items = await this.storage.getJSON<RoutineItemId[]>(this.key('completionState'));
+      if (items) {
         this.completedItems = new Set(items);
       }
 
       // Load start time
-      const startTimeData = await AsyncStorage.getItem(START_TIME_KEY);
-      if (startTimeData) {
-        this.routineStartTime = JSON.parse(startTimeData);
+      const startTime = await this.storage.getJSON<number>(this.key('startTime'));
+      if (startTime) {
+        this.routineStartTime = startTime;
+      }
+
+      // Load quantity progress
+      const progress = await this.storage.getJSON<Record<RoutineItemId, number>>(
+        this.key('progress')
+      );
+      if (progress) {
+        this.progress = typeof progress === 'object' ? progress : {};
+      }
+
+      // Load per-item timeline
+      const events = await this.storage.getJSON<ItemTimelineEvent[]>(this.key('timeline'));
+      if (events) {
+        this.timeline = Array.isArray(events)
+          ? events.filter((event) => typeof event?.timestamp === 'number')
+          : [];
+      }
+
+      const cycle = await this.journal.getCurrentCycle();
+      if (cycle) {
+        this.replay(cycle);
       }
     } catch (error) {
       console.error('Error loading routine state:', error);
       this.completedItems = new Set();
       this.routineStartTime = null;
+      this.timeline = [];
+      this.progress = {};
     }
   }
 
+  /**
+   * Save today's state (items, timeline, progress and start time) in one transaction
+   */
   async saveState(): Promise<void> {
     try {
-      const items = Array.from(this.completedItems);
-      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+      await this.storage.transaction(this.getStateChanges());
     } catch (error) {
       console.error('Error saving routine state:', error);
     }
   }
 
+  private getStateChanges(): StorageChange[] {
+    return [
+      { key: this.key('completionState'), value: Array.from(this.completedItems) },
+      { key: this.key('timeline'), value: this.timeline },
+      { key: this.key('progress'), value: this.progress },
+      { key: this.key('startTime'), value: this.routineStartTime ?? undefined },
+    ];
+  }
+
   /**
    * Check if routine needs to be reset based on settings
+   * Before resetting, records the outcome of the day being closed (and of any
+   * scheduled days the app was never opened on) when a history manager is given
+   * Always leaves today's item set applied
    * Returns true if reset was performed
    */
-  async checkAndResetIfNeeded(settings: AppSettings, resetTime: number): Promise<boolean> {
+  async checkAndResetIfNeeded(
+    settings: AppSettings,
+    resetTime: number,
+    historyManager?: HistoryManager
+  ): Promise<boolean> {
     try {
       // Get last reset timestamp
-      const lastResetData = await AsyncStorage.getItem(LAST_RESET_KEY);
-      const lastReset = lastResetData ? JSON.parse(lastResetData) : 0;
+      const lastReset = (await this.storage.getJSON<number>(this.key('lastReset'))) ?? 0;
 
       // Check if we've passed the reset time and haven't reset yet
       const now = Date.now();
       if (now >= resetTime && lastReset < resetTime) {
-        await this.resetRoutine();
-        await AsyncStorage.setItem(LAST_RESET_KEY, JSON.stringify(now));
+        if (historyManager && lastReset > 0) {
+          await this.recordClosedDays(historyManager, settings, lastReset, now);
+        }
+        await this.resetRoutine(now);
+        this.applySettings(settings, new Date(now));
         return true;
       }
 
+      this.applySettings(settings, new Date(now));
       return false;
     } catch (error) {
       console.error('Error checking reset:', error);
+      this.applySettings(settings);
       return false;
     }
   }
@@ -120,19 +368,159 @@ export class RoutineManager {
       }
 
       const endTime = Date.now();
-      const completedItems = Array.from(this.completedItems);
+      const completedItems = this.getRequiredItems().filter((item) =>
+        this.completedItems.has(item)
+      );
+      const bonusItems = this.getOptionalItems().filter((item) => this.completedItems.has(item));
 
       await historyManager.recordCompletion(
         completedItems,
         this.routineStartTime,
         endTime,
-        wasLocked
+        wasLocked,
+        this.timeline,
+        bonusItems,
+        this.getQuantities()
       );
     } catch (error) {
       console.error('Error recording completion:', error);
     }
   }
 
+  /**
+   * Record today's outcome from the current state
+   * Used for outcomes decided before the reset, e.g. an emergency unlock
+   */
+  async recordDayOutcome(
+    historyManager: HistoryManager,
+    outcome: DayOutcome,
+    wasLocked: boolean
+  ): Promise<void> {
+    try {
+      await historyManager.recordOutcome(
+        this.buildDayRecord(DateUtils.getTodayISO(), outcome, wasLocked)
+      );
+    } catch (error) {
+      console.error('Error recording day outcome:', error);
+    }
+  }
+
+  /**
+   * Record the outcome of the cycle that started at lastReset, then a missed
+   * record for every scheduled day between it and today
+   * Days off from vacations, sick days and holidays are never recorded as missed
+   */
+  private async recordClosedDays(
+    historyManager: HistoryManager,
+    settings: AppSettings,
+    lastReset: number,
+    now: number
+  ): Promise<void> {
+    const cycleDate = DateUtils.getDateISO(new Date(lastReset));
+    const today = DateUtils.getDateISO(new Date(now));
+    const exceptions = await this.exceptions.getExceptions();
+    const snapshots = await this.schedules.getSnapshots();
+    // Judge each day by the schedule in force then; before any snapshot, by the settings
+    const isScheduled = (date: string) =>
+      snapshots.length > 0
+        ? ScheduleHistory.isScheduled(snapshots, date)
+        : this.isScheduled(settings, date);
+    const isDue = (date: string) =>
+      isScheduled(date) && !ScheduleExceptions.findException(exceptions, date);
+
+    // Judge the closed day against its own item set
+    this.setDaySchedule(settings.schedule[DateUtils.getDayOfWeekISO(cycleDate)]);
+    let outcome: DayOutcome;
+    if (this.isRoutineComplete()) {
+      outcome = 'complete';
+    } else if (this.getCompletedCount() > 0) {
+      outcome = 'partial';
+    } else {
+      outcome = 'missed';
+    }
+
+    if (outcome !== 'missed' || isDue(cycleDate)) {
+      await historyManager.recordOutcome(this.buildDayRecord(cycleDate, outcome, false));
+    }
+
+    // Days in between were never opened, so nothing could have been done
+    let date = cycleDate;
+    for (let i = 0; i < MAX_MISSED_DAYS; i++) {
+      date = DateUtils.addDays(date, 1);
+      if (date >= today) {
+        break;
+      }
+      if (isDue(date)) {
+        await historyManager.recordOutcome({
+          date,
+          completedItems: [],
+          startedAt: 0,
+          completedAt: 0,
+          totalTime: 0,
+          wasLocked: false,
+          timeline: [],
+          outcome: 'missed',
+        });
+      }
+    }
+  }
+
+  private key(name: keyof typeof STORAGE_KEYS.routine): string {
+    return getRoutineStorageKey(STORAGE_KEYS.routine[name], this.getRoutineId());
+  }
+
+  /**
+   * Whether a date's weekday runs the routine (enabled, with at least one item)
+   */
+  private isScheduled(settings: AppSettings, date: string): boolean {
+    const schedule = settings.schedule[DateUtils.getDayOfWeekISO(date)];
+    return !!schedule?.enabled && schedule.items?.length !== 0;
+  }
+
+  /**
+   * Build a history record for a date from the current state
+   */
+  private buildDayRecord(date: string, outcome: DayOutcome, wasLocked: boolean): DailyRecord {
+    const completedItems = this.getRequiredItems().filter((item) => this.completedItems.has(item));
+    const bonusItems = this.getOptionalItems().filter((item) => this.completedItems.has(item));
+    const startedAt = this.routineStartTime ?? 0;
+
+    // A complete day finished with its last required item; later bonus items don't count
+    const required = this.getRequiredItems();
+    const finishingEvents =
+      outcome === 'complete'
+        ? this.timeline.filter((event) => required.includes(event.itemId))
+        : this.timeline;
+    const lastEvent = finishingEvents[finishingEvents.length - 1];
+    const completedAt = lastEvent ? lastEvent.timestamp : startedAt;
+
+    return {
+      date,
+      completedItems,
+      startedAt,
+      completedAt,
+      totalTime: startedAt ? completedAt - startedAt : 0,
+      wasLocked,
+      timeline: this.timeline,
+      outcome,
+      bonusItems,
+      quantities: this.getQuantities(),
+    };
+  }
+
+  /**
+   * Amounts reached today for every quantity item in the routine
+   */
+  private getQuantities(): Record<RoutineItemId, number> {
+    const quantities: Record<RoutineItemId, number> = {};
+    for (const item of this.getItemDefinitions()) {
+      if (item.quantity) {
+        quantities[item.id] = this.getProgress(item.id);
+      }
+    }
+    return quantities;
+  }
+
   /**
    * Get routine start time
    */
@@ -141,25 +529,72 @@ export class RoutineManager {
   }
 
   /**
-   * Save start time to storage
+   * Get today's completion and un-completion events, oldest first
    */
-  private async saveStartTime(): Promise<void> {
-    try {
-      if (this.routineStartTime) {
-        await AsyncStorage.setItem(START_TIME_KEY, JSON.stringify(this.routineStartTime));
+  getTimeline(): ItemTimelineEvent[] {
+    return this.timeline;
+  }
+
+  private recordTimelineEvent(
+    item: RoutineItemId,
+    action: ItemTimelineEvent['action'],
+    timestamp: number,
+    method?: VerificationKind
+  ): ItemTimelineEvent {
+    const event: ItemTimelineEvent = {
+      itemId: item,
+      action,
+      timestamp,
+      method: method ?? this.itemRegistry.getItem(item)?.verification ?? 'none',
+    };
+    this.timeline = [...this.timeline, event];
+    return event;
+  }
+
+  /**
+   * Rebuild today's state from the events of the current cycle (oldest first)
+   */
+  private replay(events: JournalEvent[]): void {
+    this.completedItems = new Set();
+    this.routineStartTime = null;
+    this.timeline = [];
+    this.progress = {};
+
+    for (const event of events) {
+      switch (event.type) {
+        case 'item_completed':
+          this.routineStartTime ??= event.timestamp;
+          this.completedItems.add(event.itemId);
+          this.recordTimelineEvent(event.itemId, 'completed', event.timestamp, event.method);
+          break;
+        case 'item_uncompleted':
+          this.completedItems.delete(event.itemId);
+          this.recordTimelineEvent(event.itemId, 'uncompleted', event.timestamp, 'none');
+          break;
+        case 'progress_changed':
+          this.progress = { ...this.progress, [event.itemId]: event.value };
+          break;
+        default:
+          break;
       }
-    } catch (error) {
-      console.error('Error saving start time:', error);
     }
   }
 
   /**
    * Reset routine and clear start time
+   * @param resetAt Saved as the last reset time along with the cleared state
    */
-  async resetRoutine(): Promise<void> {
+  async resetRoutine(resetAt?: number): Promise<void> {
+    await this.journal.append({ type: 'reset', timestamp: resetAt ?? Date.now() });
     this.completedItems.clear();
     this.routineStartTime = null;
-    await this.saveState();
-    await AsyncStorage.removeItem(START_TIME_KEY);
+    this.timeline = [];
+    this.progress = {};
+
+    const changes = this.getStateChanges();
+    if (resetAt !== undefined) {
+      changes.push({ key: this.key('lastReset'), value: resetAt });
+    }
+    await this.storage.transaction(changes);
   }
 }
@@ -0,0 +1,81 @@
+import { RoutineItemRegistry } from './RoutineItemRegistry';
+import { RoutineManager } from './RoutineManager';
+import { SettingsManager } from './SettingsManager';
+import { HistoryManager } from './HistoryManager';
+import { LockingService } from './LockingService';
+import { EventJournal } from './EventJournal';
+import { ScheduleHistory } from './ScheduleHistory';
+import { ScheduleExceptions } from './ScheduleExceptions';
+import { RoutineId } from './RoutineCatalog';
+import { StorageAdapter } from './Storage';
+
+/**
+ * Everything one routine needs, all scoped to the same routine id
+ * The services share one journal so its appends are queued in order; exceptions are
+ * app-wide and shared by every routine
+ */
+export interface RoutineServices {
+  routineId: RoutineId;
+  itemRegistry: RoutineItemRegistry;
+  routineManager: RoutineManager;
+  settingsManager: SettingsManager;
+  historyManager: HistoryManager;
+  lockingService: LockingService;
+  journal: EventJournal;
+  schedules: ScheduleHistory;
+}
+
+export function createRoutineServices(
+  routineId: RoutineId,
+  storage: StorageAdapter = new StorageAdapter(),
+  exceptions: ScheduleExceptions = new ScheduleExceptions(storage)
+): RoutineServices {
+  const journal = new EventJournal(routineId, storage);
+  const schedules = new ScheduleHistory(routineId, storage);
+  const itemRegistry = new RoutineItemRegistry(routineId, storage);
+  const routineManager = new RoutineManager(itemRegistry, storage, journal, exceptions, schedules);
+  const settingsManager = new SettingsManager(routineId, storage, journal, schedules);
+  const historyManager = new HistoryManager(
+    routineId,
+    storage,
+    journal,
+    schedules,
+    exceptions,
+    settingsManager
+  );
+  const lockingService = new LockingService(
+    settingsManager,
+    routineManager,
+    historyManager,
+    storage,
+    journal,
+    exceptions
+  );
+
+  return {
+    routineId,
+    itemRegistry,
+    routineManager,
+    settingsManager,
+    historyManager,
+    lockingService,
+    journal,
+    schedules,
+  };
+}
+
+/**
+ * Load a routine's items and state, bring back any days the journal has but history lost,
+ * then run its reset check and history retention
+ */
+export async function initializeRoutineServices(services: RoutineServices): Promise<void> {
+  await services.itemRegistry.load();
+  await services.routineManager.loadState();
+  await services.historyManager.rebuildFromJournal();
+
+  const settings = await services.settingsManager.loadSettings();
+  const resetTime = await services.settingsManager.getResetTimeForToday();
+  await services.routineManager.checkAndResetIfNeeded(settings, resetTime, services.historyManager);
+  await services.historyManager.applyRetention(settings.historyRetentionMonths);
+  await services.journal.applyRetention(settings.historyRetentionMonths);
+}
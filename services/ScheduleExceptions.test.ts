@@ -0,0 +1,116 @@
+import { MemoryStorageBackend, StorageAdapter } from './Storage';
+import { RoutineCatalog } from './RoutineCatalog';
+import { ScheduleExceptionInput, ScheduleExceptions } from './ScheduleExceptions';
+
+const vacation: ScheduleExceptionInput = {
+  kind: 'vacation',
+  startDate: '2025-07-01',
+  endDate: '2025-07-14',
+  note: '  Lisbon  ',
+};
+
+describe('ScheduleExceptions', () => {
+  let backend: MemoryStorageBackend;
+  let exceptions: ScheduleExceptions;
+
+  beforeEach(async () => {
+    backend = new MemoryStorageBackend({
+      routineCatalog: JSON.stringify([
+        { id: 'morning', name: 'Morning' },
+        { id: 'evening', name: 'Evening' },
+      ]),
+      streakData: JSON.stringify({ currentStreak: 3 }),
+      'streakData:evening': JSON.stringify({ currentStreak: 1 }),
+    });
+    const storage = new StorageAdapter(backend);
+    const catalog = new RoutineCatalog(storage);
+    await catalog.load();
+    exceptions = new ScheduleExceptions(storage, catalog);
+  });
+
+  describe('addException', () => {
+    it('should store the exception with an id and a trimmed note', async () => {
+      const added = await exceptions.addException(vacation);
+
+      expect(added.id).toMatch(/^exception-/);
+      expect(await exceptions.getExceptions()).toEqual([
+        { ...vacation, note: 'Lisbon', id: added.id },
+      ]);
+    });
+
+    it('should drop every routine cached streak', async () => {
+      await exceptions.addException(vacation);
+
+      expect(backend.dump().streakData).toBeUndefined();
+      expect(backend.dump()['streakData:evening']).toBeUndefined();
+    });
+
+    it('should reject invalid ranges', async () => {
+      await expect(exceptions.addException({ ...vacation, endDate: '2025-06-30' })).rejects.toThrow(
+        'End date must not be before the start date'
+      );
+      await expect(
+        exceptions.addException({ ...vacation, startDate: '2025-02-30' })
+      ).rejects.toThrow('Start date must be a date like 2025-07-01');
+      expect(await exceptions.getExceptions()).toEqual([]);
+    });
+  });
+
+  describe('updateException', () => {
+    it('should replace the exception', async () => {
+      const added = await exceptions.addException(vacation);
+
+      await exceptions.updateException(added.id, {
+        kind: 'sick',
+        startDate: '2025-07-02',
+        endDate: '2025-07-02',
+      });
+
+      expect(await exceptions.getExceptions()).toEqual([
+        { id: added.id, kind: 'sick', startDate: '2025-07-02', endDate: '2025-07-02' },
+      ]);
+    });
+
+    it('should throw for an unknown id', async () => {
+      await expect(exceptions.updateException('missing', vacation)).rejects.toThrow(
+        'Exception not found: missing'
+      );
+    });
+  });
+
+  describe('removeException', () => {
+    it('should remove the exception', async () => {
+      const added = await exceptions.addException(vacation);
+
+      await exceptions.removeException(added.id);
+
+      expect(await exceptions.getExceptions()).toEqual([]);
+    });
+  });
+
+  describe('getExceptionOn', () => {
+    it('should find the exception covering a date, inclusive of both ends', async () => {
+      const added = await exceptions.addException(vacation);
+
+      expect((await exceptions.getExceptionOn('2025-07-01'))?.id).toBe(added.id);
+      expect((await exceptions.getExceptionOn('2025-07-14'))?.id).toBe(added.id);
+      expect(await exceptions.getExceptionOn('2025-06-30')).toBeUndefined();
+      expect(await exceptions.getExceptionOn('2025-07-15')).toBeUndefined();
+    });
+  });
+
+  describe('getExceptions', () => {
+    it('should skip malformed entries and sort latest first', async () => {
+      backend = new MemoryStorageBackend({
+        scheduleExceptions: JSON.stringify([
+          { id: 'a', kind: 'holiday', startDate: '2025-01-01', endDate: '2025-01-01' },
+          { id: 'b', kind: 'party', startDate: '2025-02-01', endDate: '2025-02-01' },
+          { id: 'c', kind: 'sick', startDate: '2025-03-01', endDate: '2025-03-02' },
+        ]),
+      });
+      exceptions = new ScheduleExceptions(new StorageAdapter(backend));
+
+      expect((await exceptions.getExceptions()).map((e) => e.id)).toEqual(['c', 'a']);
+    });
+  });
+});
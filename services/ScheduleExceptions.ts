@@ -0,0 +1,170 @@
+import { DateUtils } from './DateUtils';
+import { RoutineCatalog, getRoutineStorageKey } from './RoutineCatalog';
+import { StorageAdapter } from './Storage';
+import { STORAGE_KEYS } from './StorageKeys';
+
+export type ScheduleExceptionKind = 'vacation' | 'sick' | 'holiday';
+
+/**
+ * A date range every routine is off, without touching the weekly schedule
+ */
+export interface ScheduleException {
+  id: string;
+  kind: ScheduleExceptionKind;
+  startDate: string; // ISO date, inclusive
+  endDate: string; // ISO date, inclusive
+  note?: string;
+}
+
+export type ScheduleExceptionInput = Omit<ScheduleException, 'id'>;
+
+const KINDS: ScheduleExceptionKind[] = ['vacation', 'sick', 'holiday'];
+
+/**
+ * Vacations, sick days and public holidays
+ * They apply to every routine: nothing locks on them, and streaks and completion rates
+ * skip them like days the schedule has off.
+ */
+export class ScheduleExceptions {
+  private storage: StorageAdapter;
+  private catalog: RoutineCatalog;
+
+  /**
+   * @param catalog Routines whose cached streaks are dropped when the exceptions change
+   */
+  constructor(
+    storage: StorageAdapter = new StorageAdapter(),
+    catalog: RoutineCatalog = new RoutineCatalog(storage)
+  ) {
+    this.storage = storage;
+    this.catalog = catalog;
+  }
+
+  /**
+   * Get every exception, latest first
+   */
+  async getExceptions(): Promise<ScheduleException[]> {
+    try {
+      const exceptions = await this.storage.getJSON<unknown>(STORAGE_KEYS.exceptions.list);
+      return Array.isArray(exceptions)
+        ? ScheduleExceptions.sort(exceptions.filter(ScheduleExceptions.isException))
+        : [];
+    } catch (error) {
+      console.error('Error loading schedule exceptions:', error);
+      return [];
+    }
+  }
+
+  /**
+   * The exception covering a date, if any
+   */
+  async getExceptionOn(date: string): Promise<ScheduleException | undefined> {
+    return ScheduleExceptions.findException(await this.getExceptions(), date);
+  }
+
+  async addException(input: ScheduleExceptionInput): Promise<ScheduleException> {
+    const exceptions = await this.getExceptions();
+    const exception = { ...ScheduleExceptions.normalize(input), id: this.generateId() };
+
+    await this.save([...exceptions, exception]);
+    return exception;
+  }
+
+  async updateException(id: string, input: ScheduleExceptionInput): Promise<void> {
+    const exceptions = await this.getExceptions();
+    if (!exceptions.some((exception) => exception.id === id)) {
+      throw new Error(`Exception not found: ${id}`);
+    }
+
+    const normalized = ScheduleExceptions.normalize(input);
+    await this.save(
+      exceptions.map((exception) => (exception.id === id ? { ...normalized, id } : exception))
+    );
+  }
+
+  async removeException(id: string): Promise<void> {
+    const exceptions = await this.getExceptions();
+    await this.save(exceptions.filter((exception) => exception.id !== id));
+  }
+
+  static findException(
+    exceptions: ScheduleException[],
+    date: string
+  ): ScheduleException | undefined {
+    return exceptions.find((exception) => exception.startDate <= date && date <= exception.endDate);
+  }
+
+  /**
+   * Combine two exception lists, keeping the first list's copy of any shared id
+   */
+  static mergeExceptions(
+    current: ScheduleException[],
+    incoming: ScheduleException[]
+  ): ScheduleException[] {
+    const ids = new Set(current.map((exception) => exception.id));
+    return ScheduleExceptions.sort([
+      ...current,
+      ...incoming.filter((exception) => !ids.has(exception.id)),
+    ]);
+  }
+
+  /**
+   * Save the list and drop every routine's cached streak, since past days may have
+   * been excused or brought back
+   */
+  private async save(exceptions: ScheduleException[]): Promise<void> {
+    await this.storage.transaction([
+      { key: STORAGE_KEYS.exceptions.list, value: ScheduleExceptions.sort(exceptions) },
+      ...this.catalog.getRoutines().map((routine) => ({
+        key: getRoutineStorageKey(STORAGE_KEYS.history.streak, routine.id),
+        value: undefined,
+      })),
+    ]);
+  }
+
+  private generateId(): string {
+    return `exception-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+  }
+
+  /**
+   * Check an exception's fields and trim its note
+   */
+  private static normalize(input: ScheduleExceptionInput): ScheduleExceptionInput {
+    if (!KINDS.includes(input.kind)) {
+      throw new Error(`Unknown exception kind: ${input.kind}`);
+    }
+    if (!DateUtils.isValidDateISO(input.startDate)) {
+      throw new Error('Start date must be a date like 2025-07-01');
+    }
+    if (!DateUtils.isValidDateISO(input.endDate)) {
+      throw new Error('End date must be a date like 2025-07-14');
+    }
+    if (input.endDate < input.startDate) {
+      throw new Error('End date must not be before the start date');
+    }
+
+    const note = input.note?.trim();
+    return {
+      kind: input.kind,
+      startDate: input.startDate,
+      endDate: input.endDate,
+      ...(note ? { note } : {}),
+    };
+  }
+
+  private static sort(exceptions: ScheduleException[]): ScheduleException[] {
+    return [...exceptions].sort((a, b) => b.startDate.localeCompare(a.startDate));
+  }
+
+  private static isException(value: unknown): value is ScheduleException {
+    const exception = value as ScheduleException;
+    return (
+      typeof exception === 'object' &&
+      exception !== null &&
+      typeof exception.id === 'string' &&
+      KINDS.includes(exception.kind) &&
+      DateUtils.isValidDateISO(exception.startDate) &&
+      DateUtils.isValidDateISO(exception.endDate)
+    );
+  }
+}
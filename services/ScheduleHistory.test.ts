@@ -0,0 +1,82 @@
+import { ScheduleHistory } from './ScheduleHistory';
+import { MemoryStorageBackend, StorageAdapter } from './Storage';
+import { AppSettings, SettingsManager } from './SettingsManager';
+import { createRoutineServices } from './RoutineServices';
+
+// 2025-01-20 is a Monday
+const withMonday = (enabled: boolean): AppSettings['schedule'] => {
+  const schedule = SettingsManager.getDefaultSettings().schedule;
+  return { ...schedule, 1: { ...schedule[1], enabled } };
+};
+
+describe('ScheduleHistory', () => {
+  let storage: StorageAdapter;
+  let schedules: ScheduleHistory;
+
+  beforeEach(() => {
+    storage = new StorageAdapter(new MemoryStorageBackend());
+    schedules = new ScheduleHistory('morning', storage);
+  });
+
+  it('should apply the first snapshot to every earlier day', async () => {
+    await schedules.record(withMonday(false), '2025-02-01');
+
+    const snapshots = await schedules.getSnapshots();
+    expect(snapshots).toEqual([{ from: '', schedule: withMonday(false) }]);
+    expect(ScheduleHistory.isScheduled(snapshots, '2025-01-20')).toBe(false);
+    expect(ScheduleHistory.isScheduled(snapshots, '2025-01-21')).toBe(true);
+  });
+
+  it('should keep earlier schedules for earlier days', async () => {
+    await schedules.record(withMonday(true), '');
+    await schedules.record(withMonday(false), '2025-01-21');
+
+    const snapshots = await schedules.getSnapshots();
+    expect(ScheduleHistory.isScheduled(snapshots, '2025-01-20')).toBe(true);
+    expect(ScheduleHistory.isScheduled(snapshots, '2025-01-27')).toBe(false);
+  });
+
+  it('should skip unchanged schedules and replace same-day edits', async () => {
+    await schedules.record(withMonday(true), '');
+    await schedules.record(withMonday(true), '2025-01-21');
+    await schedules.record(withMonday(false), '2025-01-22');
+    await schedules.record(withMonday(true), '2025-01-22');
+
+    const snapshots = await schedules.getSnapshots();
+    expect(snapshots.map((snapshot) => snapshot.from)).toEqual(['', '2025-01-22']);
+    expect(ScheduleHistory.isScheduled(snapshots, '2025-01-27')).toBe(true);
+  });
+
+  it('should treat every day as scheduled before anything was recorded', () => {
+    expect(ScheduleHistory.isScheduled([], '2025-01-20')).toBe(true);
+  });
+
+  it('should not count days without items', async () => {
+    const schedule = withMonday(true);
+    await schedules.record({ ...schedule, 1: { ...schedule[1], items: [] } }, '');
+
+    expect(ScheduleHistory.isScheduled(await schedules.getSnapshots(), '2025-01-20')).toBe(false);
+  });
+
+  describe('with settings', () => {
+    it('should keep the schedule in force before the first save', async () => {
+      const { settingsManager, schedules } = createRoutineServices('evening', storage);
+      const settings = await settingsManager.loadSettings();
+
+      await settingsManager.saveSettings({ ...settings, schedule: withMonday(false) });
+
+      const snapshots = await schedules.getSnapshots();
+      expect(snapshots).toHaveLength(2);
+      expect(snapshots[0]).toEqual({ from: '', schedule: settings.schedule });
+    });
+
+    it('should not add a snapshot when only other settings change', async () => {
+      const { settingsManager, schedules } = createRoutineServices('evening', storage);
+      const settings = await settingsManager.loadSettings();
+
+      await settingsManager.saveSettings({ ...settings, emergencyUnlockDelay: 5 });
+
+      expect(await schedules.getSnapshots()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import type { AppSettings, DaySchedule } from './SettingsManager';
+import { DateUtils } from './DateUtils';
+import { DEFAULT_ROUTINE_ID, RoutineId, getRoutineStorageKey } from './RoutineCatalog';
+import { StorageAdapter, StorageChange } from './Storage';
+import { STORAGE_KEYS } from './StorageKeys';
+
+/**
+ * The weekly schedule as it stood from one date on
+ */
+export interface ScheduleSnapshot {
+  from: string; // First ISO date it applied; '' for "since the beginning"
+  schedule: AppSettings['schedule'];
+}
+
+/**
+ * Which weekly schedule was in force on each date
+ * A snapshot is kept every time the schedule is saved, so statistics and streaks judge
+ * past days by the schedule of the time rather than today's
+ */
+export class ScheduleHistory {
+  private routineId: RoutineId;
+  private storage: StorageAdapter;
+
+  /**
+   * @param routineId Routine whose schedule changes this tracks
+   */
+  constructor(
+    routineId: RoutineId = DEFAULT_ROUTINE_ID,
+    storage: StorageAdapter = new StorageAdapter()
+  ) {
+    this.routineId = routineId;
+    this.storage = storage;
+  }
+
+  /**
+   * Get every snapshot, oldest first
+   */
+  async getSnapshots(): Promise<ScheduleSnapshot[]> {
+    try {
+      const snapshots = await this.storage.getJSON<unknown>(this.key());
+      return Array.isArray(snapshots)
+        ? snapshots.filter(
+            (snapshot): snapshot is ScheduleSnapshot =>
+              typeof snapshot?.from === 'string' && typeof snapshot.schedule === 'object'
+          )
+        : [];
+    } catch (error) {
+      console.error('Error loading schedule history:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Changes that record a schedule as in force from a date (default today)
+   * Nothing is recorded if it matches the schedule already in force; a snapshot already
+   * starting that day is replaced. If nothing was recorded yet, the previous schedule (when
+   * given) covers the days before; otherwise this one does.
+   */
+  async getChanges(
+    schedule: AppSettings['schedule'],
+    from: string = DateUtils.getTodayISO(),
+    previous?: AppSettings['schedule']
+  ): Promise<StorageChange[]> {
+    let snapshots = await this.getSnapshots();
+    if (snapshots.length === 0 && previous) {
+      snapshots = [{ from: '', schedule: previous }];
+    }
+
+    const current = ScheduleHistory.getSnapshotOn(snapshots, from);
+    if (current && JSON.stringify(current.schedule) === JSON.stringify(schedule)) {
+      return [];
+    }
+
+    const kept = snapshots.filter((snapshot) => snapshot.from < from);
+    const snapshot = { from: kept.length === 0 ? '' : from, schedule };
+    return [{ key: this.key(), value: [...kept, snapshot] }];
+  }
+
+  /**
+   * Record a schedule as in force from a date (default today)
+   */
+  async record(schedule: AppSettings['schedule'], from?: string): Promise<void> {
+    await this.storage.transaction(await this.getChanges(schedule, from));
+  }
+
+  /**
+   * The day's schedule in force on a date; undefined when nothing has been recorded
+   */
+  static getScheduleOn(snapshots: ScheduleSnapshot[], date: string): DaySchedule | undefined {
+    const snapshot = ScheduleHistory.getSnapshotOn(snapshots, date);
+    return snapshot?.schedule[DateUtils.getDayOfWeekISO(date)];
+  }
+
+  /**
+   * Whether the routine ran on a date (enabled, with at least one item)
+   * Without any snapshots every day counts, as in the default schedule
+   */
+  static isScheduled(snapshots: ScheduleSnapshot[], date: string): boolean {
+    if (snapshots.length === 0) {
+      return true;
+    }
+    const schedule = ScheduleHistory.getScheduleOn(snapshots, date);
+    return !!schedule?.enabled && schedule.items?.length !== 0;
+  }
+
+  /**
+   * Latest snapshot starting on or before a date; dates before the first use the first
+   */
+  private static getSnapshotOn(
+    snapshots: ScheduleSnapshot[],
+    date: string
+  ): ScheduleSnapshot | undefined {
+    const applicable = snapshots.filter((snapshot) => snapshot.from <= date);
+    return applicable[applicable.length - 1] ?? snapshots[0];
+  }
+
+  private key(): string {
+    return getRoutineStorageKey(STORAGE_KEYS.settings.scheduleHistory, this.routineId);
+  }
+}
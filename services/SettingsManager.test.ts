@@ -1,5 +1,6 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { SettingsManager, AppSettings, DaySchedule } from './SettingsManager';
+import { MemoryStorageBackend, StorageAdapter } from './Storage';
 
 // Mock AsyncStorage
 jest.mock('@react-native-async-storage/async-storage');
@@ -10,6 +11,9 @@ describe('SettingsManager', () => {
   beforeEach(() => {
     settingsManager = new SettingsManager();
     jest.clearAllMocks();
+    // Undo failures injected by earlier tests
+    (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
+    (AsyncStorage.setItem as jest.Mock).mockResolvedValue(undefined);
   });
 
   describe('getDefaultSettings', () => {
@@ -79,6 +83,58 @@ describe('SettingsManager', () => {
       expect(settings).toEqual(SettingsManager.getDefaultSettings());
     });
 
+    it('should repair partially stored settings and write them back', async () => {
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(
+        JSON.stringify({
+          schedule: {
+            1: { enabled: true, startTime: '6:30', endTime: 'soon' },
+            2: { enabled: true, startTime: '09:00', endTime: '09:00' },
+            3: { enabled: true, startTime: '23:00', endTime: '02:00' },
+            4: { enabled: true, startTime: '23:00', endTime: '08:00' },
+          },
+          lockingEnabled: false,
+        })
+      );
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const settings = await settingsManager.loadSettings();
+      const defaults = SettingsManager.getDefaultSettings();
+
+      expect(settings.schedule[0]).toEqual(defaults.schedule[0]);
+      expect(settings.schedule[1]).toEqual({ enabled: true, startTime: '06:30', endTime: '10:00' });
+      expect(settings.schedule[2]).toEqual(defaults.schedule[2]);
+      expect(settings.schedule[3]).toEqual({ enabled: true, startTime: '23:00', endTime: '02:00' });
+      expect(settings.schedule[4]).toEqual(defaults.schedule[4]); // Runs into Friday's window
+      expect(settings.lockingEnabled).toBe(false);
+      expect(settings.resetBehavior).toBe(defaults.resetBehavior);
+      expect(SettingsManager.validateSettings(settings)).toEqual([]);
+      expect(AsyncStorage.setItem).toHaveBeenCalledWith('appSettings', JSON.stringify(settings));
+    });
+
+    it('should keep a window crossing into a day off through a save and load', async () => {
+      const manager = new SettingsManager(
+        'morning',
+        new StorageAdapter(new MemoryStorageBackend())
+      );
+      const settings = SettingsManager.getDefaultSettings();
+      settings.schedule[1] = { enabled: true, startTime: '23:00', endTime: '08:00' };
+      settings.schedule[2] = { ...settings.schedule[2], enabled: false };
+
+      await manager.saveSettings(settings);
+
+      expect(await manager.loadSettings()).toEqual(settings);
+    });
+
+    it('should not rewrite valid settings', async () => {
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(
+        JSON.stringify(SettingsManager.getDefaultSettings())
+      );
+
+      await settingsManager.loadSettings();
+
+      expect(AsyncStorage.setItem).not.toHaveBeenCalled();
+    });
+
     it('should return default settings on error', async () => {
       (AsyncStorage.getItem as jest.Mock).mockRejectedValue(new Error('Storage error'));
 
@@ -98,12 +154,154 @@ describe('SettingsManager', () => {
       expect(AsyncStorage.setItem).toHaveBeenCalledWith('appSettings', JSON.stringify(settings));
     });
 
+    it('should reject invalid settings', async () => {
+      const settings = SettingsManager.getDefaultSettings();
+      settings.schedule[0].startTime = 'morning';
+
+      await expect(settingsManager.saveSettings(settings)).rejects.toThrow(
+        'Invalid settings: Sunday start time must be HH:MM'
+      );
+      expect(AsyncStorage.setItem).not.toHaveBeenCalled();
+    });
+
+    it('should recount the streak when the freeze cap changes', async () => {
+      const settings = SettingsManager.getDefaultSettings();
+
+      await settingsManager.saveSettings(settings);
+      expect(AsyncStorage.removeItem).not.toHaveBeenCalledWith('streakData');
+
+      await settingsManager.saveSettings({ ...settings, streakFreezeCap: 0 });
+      expect(AsyncStorage.removeItem).toHaveBeenCalledWith('streakData');
+    });
+
+    it('should write the settings once without repairing the stored copy first', async () => {
+      (AsyncStorage.getItem as jest.Mock).mockImplementation((key: string) =>
+        Promise.resolve(key === 'appSettings' ? JSON.stringify({ lockingEnabled: 'yes' }) : null)
+      );
+      const settings = SettingsManager.getDefaultSettings();
+
+      await expect(settingsManager.saveSettings(settings)).resolves.toBe(true);
+
+      const writes = (AsyncStorage.setItem as jest.Mock).mock.calls.filter(
+        ([key]) => key === 'appSettings'
+      );
+      expect(writes).toEqual([['appSettings', JSON.stringify(settings)]]);
+    });
+
     it('should handle save errors gracefully', async () => {
       (AsyncStorage.setItem as jest.Mock).mockRejectedValue(new Error('Storage error'));
 
       const settings = SettingsManager.getDefaultSettings();
 
-      await expect(settingsManager.saveSettings(settings)).resolves.not.toThrow();
+      await expect(settingsManager.saveSettings(settings)).resolves.toBe(false);
+    });
+  });
+
+  describe('validateSettings', () => {
+    it('should accept the defaults', () => {
+      expect(SettingsManager.validateSettings(SettingsManager.getDefaultSettings())).toEqual([]);
+    });
+
+    it('should report malformed times per day', () => {
+      const settings = SettingsManager.getDefaultSettings();
+      settings.schedule[1].startTime = '7:00';
+      settings.schedule[3].endTime = '25:00';
+
+      expect(SettingsManager.validateSettings(settings)).toEqual([
+        { field: 'schedule.1.startTime', message: 'Monday start time must be HH:MM' },
+        { field: 'schedule.3.endTime', message: 'Wednesday end time must be HH:MM' },
+      ]);
+    });
+
+    it('should reject enabled days that start and end at the same time', () => {
+      const settings = SettingsManager.getDefaultSettings();
+      settings.schedule[5] = { enabled: true, startTime: '10:00', endTime: '10:00' };
+      settings.schedule[6] = { enabled: false, startTime: '10:00', endTime: '10:00' };
+
+      expect(SettingsManager.validateSettings(settings)).toEqual([
+        { field: 'schedule.5.endTime', message: 'Friday must not start and end at the same time' },
+      ]);
+    });
+
+    it('should accept windows crossing midnight that end before the next day starts', () => {
+      const settings = SettingsManager.getDefaultSettings();
+      settings.schedule[5] = { enabled: true, startTime: '23:00', endTime: '02:00' };
+      expect(SettingsManager.validateSettings(settings)).toEqual([]);
+
+      settings.schedule[6] = { enabled: true, startTime: '01:30', endTime: '09:00' };
+      expect(SettingsManager.validateSettings(settings)).toEqual([
+        { field: 'schedule.6.startTime', message: "Saturday starts before Friday's window ends" },
+      ]);
+
+      settings.schedule[6].enabled = false;
+      expect(SettingsManager.validateSettings(settings)).toEqual([]);
+    });
+
+    it('should require a custom reset time and a delay within range', () => {
+      const settings = SettingsManager.getDefaultSettings();
+      settings.resetBehavior = 'custom';
+      settings.emergencyUnlockDelay = 0;
+
+      expect(SettingsManager.validateSettings(settings).map((error) => error.field)).toEqual([
+        'customResetTime',
+        'emergencyUnlockDelay',
+      ]);
+    });
+
+    it('should keep the streak freeze cap within range', () => {
+      const settings = SettingsManager.getDefaultSettings();
+      settings.streakFreezeCap = 0;
+      expect(SettingsManager.validateSettings(settings)).toEqual([]);
+
+      settings.streakFreezeCap = 11;
+      expect(SettingsManager.validateSettings(settings)).toEqual([
+        { field: 'streakFreezeCap', message: 'Streak freezes must be 0-10' },
+      ]);
+    });
+  });
+
+  describe('repairSettings', () => {
+    it('should fall back to the defaults for unusable data', () => {
+      expect(SettingsManager.repairSettings('not settings')).toEqual(
+        SettingsManager.getDefaultSettings()
+      );
+    });
+
+    it('should drop custom reset without a valid time', () => {
+      const settings = SettingsManager.repairSettings({
+        resetBehavior: 'custom',
+        customResetTime: 'dawn',
+      });
+
+      expect(settings.resetBehavior).toBe('midnight');
+      expect(settings.customResetTime).toBeUndefined();
+    });
+
+    it('should clamp the emergency delay and keep per-day items', () => {
+      const settings = SettingsManager.repairSettings({
+        emergencyUnlockDelay: 90,
+        schedule: { 0: { enabled: true, startTime: '08:00', endTime: '11:00', items: ['a', 3] } },
+      });
+
+      expect(settings.emergencyUnlockDelay).toBe(30);
+      expect(settings.schedule[0].items).toEqual(['a']);
+    });
+
+    it('should keep a whole-month history retention and drop an unusable one', () => {
+      expect(
+        SettingsManager.repairSettings({ historyRetentionMonths: 0 }).historyRetentionMonths
+      ).toBe(1);
+      expect(
+        SettingsManager.repairSettings({ historyRetentionMonths: 'forever' }).historyRetentionMonths
+      ).toBeUndefined();
+    });
+
+    it('should clamp the streak freeze cap and drop an unusable one', () => {
+      expect(SettingsManager.repairSettings({ streakFreezeCap: 25 }).streakFreezeCap).toBe(10);
+      expect(SettingsManager.repairSettings({ streakFreezeCap: -1 }).streakFreezeCap).toBe(0);
+      expect(
+        SettingsManager.repairSettings({ streakFreezeCap: 'lots' }).streakFreezeCap
+      ).toBeUndefined();
     });
   });
 
@@ -187,9 +385,55 @@ describe('SettingsManager', () => {
 
       expect(isActive).toBe(false);
     });
+
+    describe('with a window crossing midnight', () => {
+      // Jan 21, 2025 is a Tuesday
+      const withNight = (day: number): AppSettings => {
+        const settings = SettingsManager.getDefaultSettings();
+        settings.schedule[day] = { enabled: true, startTime: '23:00', endTime: '02:00' };
+        return settings;
+      };
+
+      it("should run the previous day's window into the early hours", async () => {
+        jest.setSystemTime(new Date(2025, 0, 21, 1, 30, 0));
+        const settings = withNight(1);
+        settings.schedule[2].enabled = false;
+        (AsyncStorage.getItem as jest.Mock).mockResolvedValue(JSON.stringify(settings));
+
+        expect(await settingsManager.isRoutineActiveNow()).toBe(true);
+        expect(SettingsManager.getScheduleDate(settings)).toBe('2025-01-20');
+      });
+
+      it("should leave today's early hours to the previous day", async () => {
+        jest.setSystemTime(new Date(2025, 0, 21, 1, 30, 0));
+        (AsyncStorage.getItem as jest.Mock).mockResolvedValue(JSON.stringify(withNight(2)));
+
+        expect(await settingsManager.isRoutineActiveNow()).toBe(false);
+
+        jest.setSystemTime(new Date(2025, 0, 21, 23, 30, 0));
+        expect(await settingsManager.isRoutineActiveNow()).toBe(true);
+      });
+    });
   });
 
   describe('getResetTimeForToday', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("should wait for the previous day's window to end", async () => {
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date(2025, 0, 21, 1, 30, 0)); // Tuesday
+      const mockSettings = SettingsManager.getDefaultSettings();
+      mockSettings.resetBehavior = 'midnight';
+      mockSettings.schedule[1] = { enabled: true, startTime: '23:00', endTime: '02:00' };
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(JSON.stringify(mockSettings));
+
+      const resetTime = await settingsManager.getResetTimeForToday();
+
+      expect(resetTime).toBe(new Date(2025, 0, 21, 2, 1, 0).getTime());
+    });
+
     it('should return midnight for midnight reset behavior', async () => {
       const mockSettings = SettingsManager.getDefaultSettings();
       mockSettings.resetBehavior = 'midnight';
@@ -249,7 +493,9 @@ describe('SettingsManager', () => {
       await settingsManager.updateDaySchedule(1, newSchedule); // Monday
 
       expect(AsyncStorage.setItem).toHaveBeenCalled();
-      const savedData = (AsyncStorage.setItem as jest.Mock).mock.calls[0][1];
+      const savedData = (AsyncStorage.setItem as jest.Mock).mock.calls.find(
+        ([key]) => key === 'appSettings'
+      )[1];
       const savedSettings: AppSettings = JSON.parse(savedData);
 
       expect(savedSettings.schedule[1]).toEqual(newSchedule);
@@ -295,6 +541,16 @@ describe('SettingsManager', () => {
       expect(savedSettings.resetBehavior).toBe('custom');
       expect(savedSettings.customResetTime).toBe('06:00');
     });
+
+    it('should reject custom without a reset time', async () => {
+      const mockSettings = SettingsManager.getDefaultSettings();
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(JSON.stringify(mockSettings));
+
+      await expect(settingsManager.setResetBehavior('custom')).rejects.toThrow(
+        'Invalid settings: Custom reset time must be HH:MM'
+      );
+      expect(AsyncStorage.setItem).not.toHaveBeenCalled();
+    });
   });
 
   describe('setEmergencyUnlockDelay', () => {
@@ -1,16 +1,30 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { DateUtils } from './DateUtils';
-
-const SETTINGS_KEY = 'appSettings';
+import { RoutineItemId } from '../types/RoutineItem';
+import { DEFAULT_ROUTINE_ID, RoutineId, getRoutineStorageKey } from './RoutineCatalog';
+import { StorageAdapter } from './Storage';
+import { STORAGE_KEYS } from './StorageKeys';
+import { EventJournal } from './EventJournal';
+import { ScheduleHistory } from './ScheduleHistory';
 
 export interface DaySchedule {
   enabled: boolean; // Is routine active this day?
   startTime: string; // "07:00" in 24-hour format
   endTime: string; // "10:00" in 24-hour format
+  items?: RoutineItemId[]; // Items that apply this day; all items when unset
 }
 
 export type ResetBehavior = 'midnight' | 'morning' | 'custom';
 
+const RESET_BEHAVIORS: ResetBehavior[] = ['midnight', 'morning', 'custom'];
+
+/**
+ * Streak freezes held at once when the settings don't say
+ */
+export const DEFAULT_STREAK_FREEZE_CAP = 2;
+export const MAX_STREAK_FREEZE_CAP = 10;
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
 export interface AppSettings {
   schedule: {
     [day: number]: DaySchedule; // 0=Sunday, 1=Monday, ..., 6=Saturday
@@ -19,36 +33,111 @@ export interface AppSettings {
   customResetTime?: string; // "HH:MM" if resetBehavior='custom'
   lockingEnabled: boolean;
   emergencyUnlockDelay: number; // Minutes (default 10)
+  historyRetentionMonths?: number; // Whole months of history to keep; forever when unset
+  streakFreezeCap?: number; // Most streak freezes held at once; 0 turns them off (default 2)
+}
+
+export interface SettingsValidationError {
+  field: string; // Path of the invalid value, e.g. "schedule.1.startTime"
+  message: string;
 }
 
 export class SettingsManager {
+  private routineId: RoutineId;
+  private storage: StorageAdapter;
+  private journal: EventJournal;
+  private schedules: ScheduleHistory;
+
+  /**
+   * @param routineId Routine whose schedule, reset and locking policy this manages
+   * @param journal Where saved settings are logged
+   * @param schedules Where each saved schedule is kept, so past days keep their schedule
+   */
+  constructor(
+    routineId: RoutineId = DEFAULT_ROUTINE_ID,
+    storage: StorageAdapter = new StorageAdapter(),
+    journal: EventJournal = new EventJournal(routineId, storage),
+    schedules: ScheduleHistory = new ScheduleHistory(routineId, storage)
+  ) {
+    this.routineId = routineId;
+    this.storage = storage;
+    this.journal = journal;
+    this.schedules = schedules;
+  }
+
   /**
-   * Load settings from AsyncStorage
-   * Returns default settings if none exist
+   * Load settings from storage
+   * Returns default settings if none exist. Stored settings are repaired (missing or
+   * invalid fields replaced from the defaults) and written back if anything changed.
    */
   async loadSettings(): Promise<AppSettings> {
     try {
-      const data = await AsyncStorage.getItem(SETTINGS_KEY);
-      if (data) {
-        const settings: AppSettings = JSON.parse(data);
-        return settings;
+      const stored = await this.storage.getJSON<unknown>(this.key());
+      if (!stored) {
+        return this.getInitialSettings();
       }
-      return SettingsManager.getDefaultSettings();
+
+      const settings = SettingsManager.repairSettings(stored, this.getInitialSettings());
+      if (JSON.stringify(settings) !== JSON.stringify(stored)) {
+        console.warn('Repaired invalid settings');
+        await this.storage.setJSON(this.key(), settings);
+      }
+      return settings;
     } catch (error) {
       console.error('Error loading settings:', error);
-      return SettingsManager.getDefaultSettings();
+      return this.getInitialSettings();
     }
   }
 
   /**
-   * Save settings to AsyncStorage
+   * Defaults for this routine
+   * Routines added later start with locking off so they never lock unexpectedly
    */
-  async saveSettings(settings: AppSettings): Promise<void> {
+  private getInitialSettings(): AppSettings {
+    const settings = SettingsManager.getDefaultSettings();
+    return this.routineId === DEFAULT_ROUTINE_ID
+      ? settings
+      : { ...settings, lockingEnabled: false };
+  }
+
+  private key(): string {
+    return getRoutineStorageKey(STORAGE_KEYS.settings.app, this.routineId);
+  }
+
+  /**
+   * Save settings to storage, with a snapshot of the schedule if it changed
+   * Throws if the settings fail validation; returns false if they could not be stored
+   */
+  async saveSettings(settings: AppSettings): Promise<boolean> {
+    const errors = SettingsManager.validateSettings(settings);
+    if (errors.length > 0) {
+      throw new Error(`Invalid settings: ${errors.map((error) => error.message).join('; ')}`);
+    }
+
     try {
-      await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+      const previous =
+        (await this.storage.getJSON<Partial<AppSettings>>(this.key())) ?? this.getInitialSettings();
+      // A new freeze cap changes which past misses were covered, so the streak is recounted
+      const streakKey = getRoutineStorageKey(STORAGE_KEYS.history.streak, this.routineId);
+      await this.storage.transaction([
+        { key: this.key(), value: settings },
+        ...(await this.schedules.getChanges(settings.schedule, undefined, previous.schedule)),
+        ...(previous.streakFreezeCap !== settings.streakFreezeCap
+          ? [{ key: streakKey, value: undefined }]
+          : []),
+      ]);
     } catch (error) {
       console.error('Error saving settings:', error);
+      return false;
     }
+
+    // Already saved; a failed write only leaves the change out of the activity log
+    try {
+      await this.journal.append({ type: 'settings_changed', timestamp: Date.now(), settings });
+    } catch (error) {
+      console.error('Error journaling settings change:', error);
+    }
+    return true;
   }
 
   /**
@@ -72,8 +161,8 @@ export class SettingsManager {
    * Check if routine is active right now
    * Returns true if:
    * 1. Locking is enabled
-   * 2. Today's routine is enabled
-   * 3. Current time is within today's time window
+   * 2. The routine is enabled on the day whose schedule owns this moment
+   * 3. Current time is within that day's time window
    */
   async isRoutineActiveNow(): Promise<boolean> {
     const settings = await this.loadSettings();
@@ -82,23 +171,67 @@ export class SettingsManager {
       return false;
     }
 
-    const schedule = await this.getScheduleForToday();
-    if (!schedule) {
+    const now = new Date();
+    const date = SettingsManager.getScheduleDate(settings, now);
+    const schedule = settings.schedule[DateUtils.getDayOfWeekISO(date)];
+    if (!schedule?.enabled) {
       return false;
     }
+    if (date !== DateUtils.getDateISO(now)) {
+      // Still inside the previous day's window
+      return true;
+    }
 
-    const now = new Date();
+    // The hours after midnight belong to the previous day, so only today's evening counts
+    if (DateUtils.crossesMidnight(schedule.startTime, schedule.endTime)) {
+      return DateUtils.getMinutesOfDate(now) >= DateUtils.getMinutesOfDay(schedule.startTime);
+    }
     return DateUtils.isWithinTimeWindow(now, schedule.startTime, schedule.endTime);
   }
 
+  /**
+   * ISO date whose schedule owns a moment
+   * A window that crosses midnight belongs to the day it starts on: until it ends, the
+   * early hours of a day still run the previous day's schedule and items
+   */
+  static getScheduleDate(settings: AppSettings, now: Date = new Date()): string {
+    const today = DateUtils.getDateISO(now);
+    const yesterday = DateUtils.addDays(today, -1);
+    const previous = settings.schedule[DateUtils.getDayOfWeekISO(yesterday)];
+    if (
+      previous?.enabled &&
+      DateUtils.crossesMidnight(previous.startTime, previous.endTime) &&
+      DateUtils.getMinutesOfDate(now) <= DateUtils.getMinutesOfDay(previous.endTime)
+    ) {
+      return yesterday;
+    }
+    return today;
+  }
+
   /**
    * Get the reset time for today based on reset behavior
-   * Returns timestamp when routine should reset
+   * Returns timestamp when routine should reset. A reset never falls inside the previous
+   * day's window when it crosses midnight; it waits until that window has ended.
    */
   async getResetTimeForToday(): Promise<number> {
     const settings = await this.loadSettings();
     const today = new Date();
+    const resetTime = await this.getResetTimeFor(settings, today);
+
+    const yesterday = DateUtils.addDays(DateUtils.getDateISO(today), -1);
+    const previous = settings.schedule[DateUtils.getDayOfWeekISO(yesterday)];
+    if (previous?.enabled && DateUtils.crossesMidnight(previous.startTime, previous.endTime)) {
+      // The end minute is still inside the window
+      const windowEnd = DateUtils.getTimestampAt(DateUtils.getDateISO(today), previous.endTime);
+      return Math.max(resetTime, windowEnd + 60 * 1000);
+    }
+    return resetTime;
+  }
 
+  /**
+   * Reset time from the reset behavior alone
+   */
+  private async getResetTimeFor(settings: AppSettings, today: Date): Promise<number> {
     switch (settings.resetBehavior) {
       case 'midnight':
         // Reset at midnight (00:00)
@@ -108,10 +241,7 @@ export class SettingsManager {
         // Reset at morning window start time
         const schedule = await this.getScheduleForToday();
         if (schedule) {
-          const [hour, minute] = schedule.startTime.split(':').map(Number);
-          const resetTime = new Date(today);
-          resetTime.setHours(hour, minute, 0, 0);
-          return resetTime.getTime();
+          return DateUtils.getTimestampAt(DateUtils.getDateISO(today), schedule.startTime);
         }
         // Fallback to midnight if no schedule
         return DateUtils.getStartOfDayTimestamp(today);
@@ -119,10 +249,7 @@ export class SettingsManager {
       case 'custom':
         // Reset at custom time
         if (settings.customResetTime) {
-          const [hour, minute] = settings.customResetTime.split(':').map(Number);
-          const resetTime = new Date(today);
-          resetTime.setHours(hour, minute, 0, 0);
-          return resetTime.getTime();
+          return DateUtils.getTimestampAt(DateUtils.getDateISO(today), settings.customResetTime);
         }
         // Fallback to midnight if no custom time
         return DateUtils.getStartOfDayTimestamp(today);
@@ -154,42 +281,241 @@ export class SettingsManager {
     };
   }
 
+  /**
+   * Check settings before they are saved
+   * Returns every problem found (empty when valid)
+   */
+  static validateSettings(settings: AppSettings): SettingsValidationError[] {
+    const errors: SettingsValidationError[] = [];
+
+    for (let day = 0; day < 7; day++) {
+      const schedule = settings.schedule?.[day];
+      const dayName = DAY_NAMES[day];
+      if (!schedule) {
+        errors.push({ field: `schedule.${day}`, message: `${dayName} has no schedule` });
+        continue;
+      }
+
+      const startValid = DateUtils.isValidTime(schedule.startTime);
+      const endValid = DateUtils.isValidTime(schedule.endTime);
+      if (!startValid) {
+        errors.push({
+          field: `schedule.${day}.startTime`,
+          message: `${dayName} start time must be HH:MM`,
+        });
+      }
+      if (!endValid) {
+        errors.push({
+          field: `schedule.${day}.endTime`,
+          message: `${dayName} end time must be HH:MM`,
+        });
+      }
+      if (schedule.enabled && startValid && endValid && schedule.endTime === schedule.startTime) {
+        errors.push({
+          field: `schedule.${day}.endTime`,
+          message: `${dayName} must not start and end at the same time`,
+        });
+      }
+
+      // A window crossing midnight must be over before the next day's starts
+      const next = settings.schedule?.[(day + 1) % 7];
+      if (
+        schedule.enabled &&
+        next?.enabled &&
+        startValid &&
+        endValid &&
+        DateUtils.isValidTime(next.startTime) &&
+        DateUtils.crossesMidnight(schedule.startTime, schedule.endTime) &&
+        DateUtils.getMinutesOfDay(next.startTime) <= DateUtils.getMinutesOfDay(schedule.endTime)
+      ) {
+        errors.push({
+          field: `schedule.${(day + 1) % 7}.startTime`,
+          message: `${DAY_NAMES[(day + 1) % 7]} starts before ${dayName}'s window ends`,
+        });
+      }
+    }
+
+    if (!RESET_BEHAVIORS.includes(settings.resetBehavior)) {
+      errors.push({ field: 'resetBehavior', message: 'Unknown reset behavior' });
+    }
+    if (settings.resetBehavior === 'custom' && !DateUtils.isValidTime(settings.customResetTime)) {
+      errors.push({ field: 'customResetTime', message: 'Custom reset time must be HH:MM' });
+    }
+
+    const delay = settings.emergencyUnlockDelay;
+    if (!Number.isInteger(delay) || delay < 1 || delay > 30) {
+      errors.push({
+        field: 'emergencyUnlockDelay',
+        message: 'Emergency unlock delay must be 1-30 minutes',
+      });
+    }
+
+    const retention = settings.historyRetentionMonths;
+    if (retention !== undefined && (!Number.isInteger(retention) || retention < 1)) {
+      errors.push({
+        field: 'historyRetentionMonths',
+        message: 'History must be kept for at least 1 month',
+      });
+    }
+
+    const freezeCap = settings.streakFreezeCap;
+    if (
+      freezeCap !== undefined &&
+      (!Number.isInteger(freezeCap) || freezeCap < 0 || freezeCap > MAX_STREAK_FREEZE_CAP)
+    ) {
+      errors.push({
+        field: 'streakFreezeCap',
+        message: `Streak freezes must be 0-${MAX_STREAK_FREEZE_CAP}`,
+      });
+    }
+
+    return errors;
+  }
+
+  /**
+   * Turn whatever was stored into valid settings
+   * Missing or invalid fields come from the defaults; loosely formatted times ("7:00")
+   * are normalized. Unknown fields are kept so newer data isn't lost.
+   */
+  static repairSettings(
+    stored: unknown,
+    defaults: AppSettings = SettingsManager.getDefaultSettings()
+  ): AppSettings {
+    const raw = (
+      typeof stored === 'object' && stored !== null ? stored : {}
+    ) as Partial<AppSettings>;
+
+    const schedule: AppSettings['schedule'] = {};
+    for (let day = 0; day < 7; day++) {
+      schedule[day] = SettingsManager.repairDaySchedule(
+        raw.schedule?.[day],
+        defaults.schedule[day]
+      );
+    }
+    // A window crossing midnight that runs into the next enabled day's falls back to the defaults
+    for (let day = 0; day < 7; day++) {
+      const { startTime, endTime } = schedule[day];
+      const next = schedule[(day + 1) % 7];
+      if (
+        schedule[day].enabled &&
+        next.enabled &&
+        DateUtils.crossesMidnight(startTime, endTime) &&
+        DateUtils.getMinutesOfDay(next.startTime) <= DateUtils.getMinutesOfDay(endTime)
+      ) {
+        schedule[day] = {
+          ...schedule[day],
+          startTime: defaults.schedule[day].startTime,
+          endTime: defaults.schedule[day].endTime,
+        };
+      }
+    }
+
+    const settings: AppSettings = {
+      ...raw,
+      schedule,
+      resetBehavior: RESET_BEHAVIORS.includes(raw.resetBehavior as ResetBehavior)
+        ? (raw.resetBehavior as ResetBehavior)
+        : defaults.resetBehavior,
+      lockingEnabled:
+        typeof raw.lockingEnabled === 'boolean' ? raw.lockingEnabled : defaults.lockingEnabled,
+      emergencyUnlockDelay:
+        typeof raw.emergencyUnlockDelay === 'number' && Number.isFinite(raw.emergencyUnlockDelay)
+          ? Math.max(1, Math.min(30, Math.round(raw.emergencyUnlockDelay)))
+          : defaults.emergencyUnlockDelay,
+    };
+
+    const retention = raw.historyRetentionMonths;
+    if (typeof retention === 'number' && Number.isFinite(retention)) {
+      settings.historyRetentionMonths = Math.max(1, Math.round(retention));
+    } else {
+      delete settings.historyRetentionMonths;
+    }
+
+    const freezeCap = raw.streakFreezeCap;
+    if (typeof freezeCap === 'number' && Number.isFinite(freezeCap)) {
+      settings.streakFreezeCap = Math.max(
+        0,
+        Math.min(MAX_STREAK_FREEZE_CAP, Math.round(freezeCap))
+      );
+    } else {
+      delete settings.streakFreezeCap;
+    }
+
+    const customResetTime = DateUtils.parseTime(raw.customResetTime);
+    if (customResetTime) {
+      settings.customResetTime = customResetTime;
+    } else {
+      delete settings.customResetTime;
+      if (settings.resetBehavior === 'custom') {
+        settings.resetBehavior = defaults.resetBehavior;
+      }
+    }
+
+    return settings;
+  }
+
+  private static repairDaySchedule(stored: unknown, fallback: DaySchedule): DaySchedule {
+    if (typeof stored !== 'object' || stored === null) {
+      return { ...fallback };
+    }
+
+    const raw = stored as Partial<DaySchedule>;
+    let startTime = DateUtils.parseTime(raw.startTime) ?? fallback.startTime;
+    let endTime = DateUtils.parseTime(raw.endTime) ?? fallback.endTime;
+    if (endTime === startTime) {
+      startTime = fallback.startTime;
+      endTime = fallback.endTime;
+    }
+
+    const schedule: DaySchedule = {
+      enabled: typeof raw.enabled === 'boolean' ? raw.enabled : fallback.enabled,
+      startTime,
+      endTime,
+    };
+    if (Array.isArray(raw.items)) {
+      schedule.items = raw.items.filter((id): id is RoutineItemId => typeof id === 'string');
+    }
+    return schedule;
+  }
+
   /**
    * Update a specific day's schedule
+   * Throws if the schedule fails validation, like saveSettings
    */
-  async updateDaySchedule(dayOfWeek: number, schedule: DaySchedule): Promise<void> {
+  async updateDaySchedule(dayOfWeek: number, schedule: DaySchedule): Promise<boolean> {
     const settings = await this.loadSettings();
     settings.schedule[dayOfWeek] = schedule;
-    await this.saveSettings(settings);
+    return this.saveSettings(settings);
   }
 
   /**
    * Toggle locking feature on/off
    */
-  async setLockingEnabled(enabled: boolean): Promise<void> {
+  async setLockingEnabled(enabled: boolean): Promise<boolean> {
     const settings = await this.loadSettings();
     settings.lockingEnabled = enabled;
-    await this.saveSettings(settings);
+    return this.saveSettings(settings);
   }
 
   /**
    * Update reset behavior
+   * Throws if custom is chosen without a valid time, here or already saved
    */
-  async setResetBehavior(behavior: ResetBehavior, customTime?: string): Promise<void> {
+  async setResetBehavior(behavior: ResetBehavior, customTime?: string): Promise<boolean> {
     const settings = await this.loadSettings();
     settings.resetBehavior = behavior;
     if (behavior === 'custom' && customTime) {
       settings.customResetTime = customTime;
     }
-    await this.saveSettings(settings);
+    return this.saveSettings(settings);
   }
 
   /**
    * Update emergency unlock delay
    */
-  async setEmergencyUnlockDelay(minutes: number): Promise<void> {
+  async setEmergencyUnlockDelay(minutes: number): Promise<boolean> {
     const settings = await this.loadSettings();
     settings.emergencyUnlockDelay = Math.max(1, Math.min(30, minutes)); // Clamp 1-30
-    await this.saveSettings(settings);
+    return this.saveSettings(settings);
   }
 }
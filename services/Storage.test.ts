@@ -0,0 +1,157 @@
+import { MemoryStorageBackend, StorageAdapter } from './Storage';
+import { STORAGE_KEYS } from './StorageKeys';
+import { createRoutineServices } from './RoutineServices';
+
+describe('StorageAdapter', () => {
+  let backend: MemoryStorageBackend;
+  let storage: StorageAdapter;
+
+  beforeEach(() => {
+    backend = new MemoryStorageBackend();
+    storage = new StorageAdapter(backend);
+  });
+
+  it('should round-trip JSON values', async () => {
+    await storage.setJSON('key', { count: 2, items: ['a'] });
+
+    expect(await storage.getJSON('key')).toEqual({ count: 2, items: ['a'] });
+    expect(backend.dump()).toEqual({ key: '{"count":2,"items":["a"]}' });
+  });
+
+  it('should return null for missing keys', async () => {
+    expect(await storage.getJSON('missing')).toBeNull();
+  });
+
+  it('should remove values', async () => {
+    await storage.setJSON('key', true);
+    await storage.remove('key');
+
+    expect(await storage.getJSON('key')).toBeNull();
+  });
+
+  it('should list stored keys', async () => {
+    await storage.setJSON('a', 1);
+    await storage.setJSON('b', 2);
+
+    expect(await storage.getAllKeys()).toEqual(['a', 'b']);
+    expect(await storage.getRaw('a')).toBe('1');
+  });
+
+  it('should throw on invalid JSON', async () => {
+    storage = new StorageAdapter(new MemoryStorageBackend({ key: '{not json' }));
+
+    await expect(storage.getJSON('key')).rejects.toThrow();
+  });
+
+  describe('transaction', () => {
+    /**
+     * Backend that stops (as if the app was killed) on the first write to a key starting
+     * with crashOn
+     */
+    class CrashingBackend extends MemoryStorageBackend {
+      crashOn: string | null = null;
+
+      async setItem(key: string, value: string): Promise<void> {
+        if (this.crashOn !== null && key.startsWith(this.crashOn)) {
+          this.crashOn = null;
+          throw new Error('App killed');
+        }
+        await super.setItem(key, value);
+      }
+    }
+
+    it('should write and remove keys together and leave no marker', async () => {
+      await storage.setJSON('old', 1);
+
+      await storage.transaction([
+        { key: 'a', value: [1] },
+        { key: 'b', value: { done: true } },
+        { key: 'old', value: undefined },
+      ]);
+
+      expect(backend.dump()).toEqual({ a: '[1]', b: '{"done":true}' });
+    });
+
+    it('should finish an interrupted transaction on recovery', async () => {
+      const crashing = new CrashingBackend({ b: '"stale"' });
+      storage = new StorageAdapter(crashing);
+      crashing.crashOn = 'b';
+
+      await expect(
+        storage.transaction([
+          { key: 'a', value: 'new' },
+          { key: 'b', value: 'new' },
+        ])
+      ).rejects.toThrow('App killed');
+      expect(JSON.parse(crashing.dump().b)).toBe('stale');
+
+      expect(await storage.recoverPendingWrites()).toBe(1);
+      expect(crashing.dump()).toEqual({ a: '"new"', b: '"new"' });
+    });
+
+    it('should leave data untouched if the marker was never written', async () => {
+      const crashing = new CrashingBackend({ a: '"old"' });
+      storage = new StorageAdapter(crashing);
+      crashing.crashOn = `${STORAGE_KEYS.meta.pendingWrite}/`;
+
+      await expect(
+        storage.transaction([
+          { key: 'a', value: 'new' },
+          { key: 'b', value: 'new' },
+        ])
+      ).rejects.toThrow();
+      expect(await storage.recoverPendingWrites()).toBe(0);
+
+      expect(crashing.dump()).toEqual({ a: '"old"' });
+    });
+
+    it('should keep a streak in step with the history it was updated with', async () => {
+      const crashing = new CrashingBackend();
+      storage = new StorageAdapter(crashing);
+      const { historyManager } = createRoutineServices('morning', storage);
+      crashing.crashOn = STORAGE_KEYS.history.streak;
+
+      await historyManager.recordCompletion([], 1000, 2000, false);
+      await storage.recoverPendingWrites();
+
+      const streak = await historyManager.getStreakData();
+      expect(streak.totalCompletions).toBe(1);
+      expect(Object.keys(crashing.dump())).toContain(STORAGE_KEYS.history.streak);
+    });
+  });
+
+  describe('with routine services', () => {
+    it('should keep all routine data in the given storage', async () => {
+      const { routineManager, settingsManager, itemRegistry } = createRoutineServices(
+        'morning',
+        storage
+      );
+
+      await settingsManager.saveSettings(await settingsManager.loadSettings());
+      await routineManager.markComplete(itemRegistry.getItems()[0].id);
+
+      expect(Object.keys(backend.dump())).toEqual(
+        expect.arrayContaining([
+          STORAGE_KEYS.settings.app,
+          STORAGE_KEYS.routine.completionState,
+          STORAGE_KEYS.routine.startTime,
+        ])
+      );
+    });
+
+    it('should load data written by another service instance', async () => {
+      const first = createRoutineServices('evening', storage);
+      await first.itemRegistry.addItem({
+        name: 'Read',
+        description: '',
+        icon: '📖',
+        verification: 'none',
+      });
+
+      const second = createRoutineServices('evening', storage);
+      await second.itemRegistry.load();
+
+      expect(second.itemRegistry.getItems().map((item) => item.name)).toEqual(['Read']);
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { STORAGE_KEYS } from './StorageKeys';
+
+/**
+ * Raw string key/value store the app's data lives in
+ */
+export interface StorageBackend {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  getAllKeys(): Promise<string[]>;
+}
+
+/**
+ * Device storage (the default)
+ */
+export class AsyncStorageBackend implements StorageBackend {
+  getItem(key: string): Promise<string | null> {
+    return AsyncStorage.getItem(key);
+  }
+
+  setItem(key: string, value: string): Promise<void> {
+    return AsyncStorage.setItem(key, value);
+  }
+
+  removeItem(key: string): Promise<void> {
+    return AsyncStorage.removeItem(key);
+  }
+
+  async getAllKeys(): Promise<string[]> {
+    return [...(await AsyncStorage.getAllKeys())];
+  }
+}
+
+/**
+ * Non-persistent storage for tests and demo mode
+ */
+export class MemoryStorageBackend implements StorageBackend {
+  private values = new Map<string, string>();
+
+  constructor(initial: Record<string, string> = {}) {
+    for (const [key, value] of Object.entries(initial)) {
+      this.values.set(key, value);
+    }
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return this.values.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.values.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.values.delete(key);
+  }
+
+  async getAllKeys(): Promise<string[]> {
+    return [...this.values.keys()];
+  }
+
+  /**
+   * Snapshot of everything stored, for assertions
+   */
+  dump(): Record<string, string> {
+    return Object.fromEntries(this.values);
+  }
+}
+
+/**
+ * One key's new value in a transaction; an undefined value removes the key
+ */
+export interface StorageChange {
+  key: string;
+  value: unknown;
+}
+
+// [key, raw value or null to remove], as saved in a pending-write marker
+type PendingWrite = [string, string | null][];
+
+/**
+ * Typed JSON access on top of a backend
+ * Services take one of these in their constructor instead of calling AsyncStorage
+ */
+export class StorageAdapter {
+  private backend: StorageBackend;
+
+  constructor(backend: StorageBackend = new AsyncStorageBackend()) {
+    this.backend = backend;
+  }
+
+  /**
+   * Read and parse a value
+   * Returns null when nothing is stored; throws if the stored value isn't valid JSON
+   */
+  async getJSON<T>(key: string): Promise<T | null> {
+    const data = await this.backend.getItem(key);
+    if (!data) {
+      return null;
+    }
+    return JSON.parse(data) as T;
+  }
+
+  async setJSON<T>(key: string, value: T): Promise<void> {
+    await this.backend.setItem(key, JSON.stringify(value));
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.backend.removeItem(key);
+  }
+
+  async getAllKeys(): Promise<string[]> {
+    return this.backend.getAllKeys();
+  }
+
+  /**
+   * Unparsed access for copying values wholesale (backups)
+   */
+  async getRaw(key: string): Promise<string | null> {
+    return this.backend.getItem(key);
+  }
+
+  async setRaw(key: string, value: string): Promise<void> {
+    await this.backend.setItem(key, value);
+  }
+
+  /**
+   * Write several keys as one unit
+   * The changes are saved under a pending-write marker first (a single write, so it either
+   * lands whole or not at all), then applied, then the marker is removed. If the app stops
+   * part way, recoverPendingWrites() finishes the job on the next launch.
+   */
+  async transaction(changes: StorageChange[]): Promise<void> {
+    if (changes.length === 0) {
+      return;
+    }
+    if (changes.length === 1) {
+      // A single write is already atomic
+      const [{ key, value }] = changes;
+      await (value === undefined ? this.remove(key) : this.setJSON(key, value));
+      return;
+    }
+
+    const writes: PendingWrite = changes.map(({ key, value }) => [
+      key,
+      value === undefined ? null : JSON.stringify(value),
+    ]);
+    const marker = `${STORAGE_KEYS.meta.pendingWrite}/${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+    await this.backend.setItem(marker, JSON.stringify(writes));
+    await this.applyWrites(writes);
+    await this.backend.removeItem(marker);
+  }
+
+  /**
+   * Finish transactions interrupted before their marker was removed, oldest first
+   * Run at startup before anything reads. Returns how many were recovered.
+   */
+  async recoverPendingWrites(): Promise<number> {
+    const prefix = `${STORAGE_KEYS.meta.pendingWrite}/`;
+    const markers = (await this.backend.getAllKeys()).filter((key) => key.startsWith(prefix));
+
+    for (const marker of markers.sort()) {
+      const writes = await this.getJSON<PendingWrite>(marker);
+      if (writes) {
+        await this.applyWrites(writes);
+      }
+      await this.backend.removeItem(marker);
+    }
+    return markers.length;
+  }
+
+  private async applyWrites(writes: PendingWrite): Promise<void> {
+    for (const [key, value] of writes) {
+      if (value === null) {
+        await this.backend.removeItem(key);
+      } else {
+        await this.backend.setItem(key, value);
+      }
+    }
+  }
+}
+
+/**
+ * Storage for the running app
+ * Demo mode (EXPO_PUBLIC_DEMO_MODE=1) keeps everything in memory so nothing touches the device
+ */
+export function createAppStorage(): StorageAdapter {
+  if (process.env.EXPO_PUBLIC_DEMO_MODE === '1') {
+    return new StorageAdapter(new MemoryStorageBackend());
+  }
+  return new StorageAdapter();
+}
@@ -0,0 +1,52 @@
+/**
+ * Every storage key the app uses, grouped by the service that owns it
+ *
+ * Keys in the routine, history, settings, locking and journal groups are per routine; pass
+ * them through getRoutineStorageKey (see RoutineCatalog). Values never change so
+ * existing installs keep loading their data.
+ */
+export const STORAGE_KEYS = {
+  meta: {
+    schemaVersion: 'schemaVersion',
+    pendingWrite: 'pendingWrite', // Prefix of unfinished transactions, e.g. "pendingWrite/1737..."
+  },
+  catalog: {
+    routines: 'routineCatalog',
+  },
+  routine: {
+    items: 'routineItemDefinitions',
+    completionState: 'routineCompletionState',
+    lastReset: 'lastResetTimestamp',
+    startTime: 'routineStartTime',
+    timeline: 'routineTimeline',
+    progress: 'routineProgress',
+  },
+  history: {
+    records: 'dailyCompletionHistory', // Single list used before schema version 2
+    months: 'historyMonths', // Index of stored months
+    month: 'historyMonth', // Prefix of each month's records, e.g. "historyMonth/2025-01"
+    streak: 'streakData',
+  },
+  settings: {
+    app: 'appSettings',
+    scheduleHistory: 'scheduleHistory', // Schedule snapshots, oldest first
+  },
+  locking: {
+    state: 'lockingState',
+  },
+  journal: {
+    days: 'journalDays', // Index of stored days
+    day: 'journalDay', // Prefix of each day's events, e.g. "journalDay/2025-01-21"
+    months: 'journalMonths', // Monthly index used before schema version 6
+    month: 'journalMonth', // Monthly prefix used before schema version 6
+  },
+  photos: {
+    records: 'photoVerificationRecords',
+  },
+  exceptions: {
+    list: 'scheduleExceptions', // App-wide vacations, sick days and holidays
+  },
+  preferences: {
+    timeZone: 'timeZonePreference', // App-wide, not per routine
+  },
+} as const;
@@ -0,0 +1,78 @@
+import { DateUtils } from './DateUtils';
+import { MemoryStorageBackend, StorageAdapter } from './Storage';
+import { TimeZoneSettings } from './TimeZoneSettings';
+
+describe('TimeZoneSettings', () => {
+  let backend: MemoryStorageBackend;
+  let timeZoneSettings: TimeZoneSettings;
+
+  beforeEach(() => {
+    backend = new MemoryStorageBackend();
+    timeZoneSettings = new TimeZoneSettings(new StorageAdapter(backend));
+  });
+
+  afterEach(() => {
+    DateUtils.setTimeZone(null);
+  });
+
+  describe('load', () => {
+    it('should follow local time by default', async () => {
+      const preference = await timeZoneSettings.load();
+
+      expect(preference).toEqual({
+        followLocalTime: true,
+        homeTimeZone: DateUtils.getDeviceTimeZone(),
+      });
+      expect(DateUtils.getTimeZone()).toBe(DateUtils.getDeviceTimeZone());
+    });
+
+    it('should apply a stored home time zone', async () => {
+      backend = new MemoryStorageBackend({
+        timeZonePreference: JSON.stringify({ followLocalTime: false, homeTimeZone: 'Asia/Tokyo' }),
+      });
+      timeZoneSettings = new TimeZoneSettings(new StorageAdapter(backend));
+
+      await timeZoneSettings.load();
+
+      expect(DateUtils.getTimeZone()).toBe('Asia/Tokyo');
+    });
+
+    it('should fall back to local time when the stored zone is unknown', async () => {
+      backend = new MemoryStorageBackend({
+        timeZonePreference: JSON.stringify({ followLocalTime: false, homeTimeZone: 'Nowhere' }),
+      });
+      timeZoneSettings = new TimeZoneSettings(new StorageAdapter(backend));
+
+      const preference = await timeZoneSettings.load();
+
+      expect(preference).toEqual(TimeZoneSettings.getDefault());
+      expect(DateUtils.getTimeZone()).toBe(DateUtils.getDeviceTimeZone());
+    });
+  });
+
+  describe('save', () => {
+    it('should store and apply the preference', async () => {
+      await timeZoneSettings.save({ followLocalTime: false, homeTimeZone: 'Europe/Berlin' });
+
+      expect(DateUtils.getTimeZone()).toBe('Europe/Berlin');
+      expect(await timeZoneSettings.load()).toEqual({
+        followLocalTime: false,
+        homeTimeZone: 'Europe/Berlin',
+      });
+    });
+
+    it('should go back to local time when following it again', async () => {
+      await timeZoneSettings.save({ followLocalTime: false, homeTimeZone: 'Europe/Berlin' });
+      await timeZoneSettings.save({ followLocalTime: true, homeTimeZone: 'Europe/Berlin' });
+
+      expect(DateUtils.getTimeZone()).toBe(DateUtils.getDeviceTimeZone());
+    });
+
+    it('should reject an unknown time zone', async () => {
+      await expect(
+        timeZoneSettings.save({ followLocalTime: false, homeTimeZone: 'Mars/Olympus_Mons' })
+      ).rejects.toThrow('Unknown time zone: Mars/Olympus_Mons');
+      expect(DateUtils.getTimeZone()).toBe(DateUtils.getDeviceTimeZone());
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { DateUtils } from './DateUtils';
+import { StorageAdapter } from './Storage';
+import { STORAGE_KEYS } from './StorageKeys';
+
+/**
+ * Which time zone decides what day it is, for every routine
+ * - followLocalTime: dates follow the device as it travels
+ * - otherwise every date, window and reset is read in homeTimeZone
+ */
+export interface TimeZonePreference {
+  followLocalTime: boolean;
+  homeTimeZone: string; // IANA zone, e.g. "Europe/Berlin"
+}
+
+/**
+ * App-wide time-zone preference
+ * Loading or saving it applies it to DateUtils, so it must be loaded before any routine
+ */
+export class TimeZoneSettings {
+  private storage: StorageAdapter;
+
+  constructor(storage: StorageAdapter = new StorageAdapter()) {
+    this.storage = storage;
+  }
+
+  /**
+   * Load the preference and apply it
+   * Following local time is the default; an unusable stored value falls back to it
+   */
+  async load(): Promise<TimeZonePreference> {
+    let preference = TimeZoneSettings.getDefault();
+    try {
+      const stored = await this.storage.getJSON<unknown>(STORAGE_KEYS.preferences.timeZone);
+      preference = TimeZoneSettings.repair(stored);
+    } catch (error) {
+      console.error('Error loading time zone preference:', error);
+    }
+    TimeZoneSettings.apply(preference);
+    return preference;
+  }
+
+  /**
+   * Save the preference and apply it
+   * Throws if the home time zone is unknown
+   */
+  async save(preference: TimeZonePreference): Promise<void> {
+    if (!DateUtils.isValidTimeZone(preference.homeTimeZone)) {
+      throw new Error(`Unknown time zone: ${preference.homeTimeZone}`);
+    }
+
+    try {
+      await this.storage.setJSON(STORAGE_KEYS.preferences.timeZone, preference);
+      TimeZoneSettings.apply(preference);
+    } catch (error) {
+      console.error('Error saving time zone preference:', error);
+    }
+  }
+
+  /**
+   * Follow local time, with the device's current zone as home
+   */
+  static getDefault(): TimeZonePreference {
+    return { followLocalTime: true, homeTimeZone: DateUtils.getDeviceTimeZone() };
+  }
+
+  /**
+   * Turn stored data into a usable preference
+   */
+  static repair(stored: unknown): TimeZonePreference {
+    const defaults = TimeZoneSettings.getDefault();
+    if (typeof stored !== 'object' || stored === null) {
+      return defaults;
+    }
+
+    const raw = stored as Partial<TimeZonePreference>;
+    if (!DateUtils.isValidTimeZone(raw.homeTimeZone)) {
+      return defaults;
+    }
+    return {
+      followLocalTime: typeof raw.followLocalTime === 'boolean' ? raw.followLocalTime : true,
+      homeTimeZone: raw.homeTimeZone as string,
+    };
+  }
+
+  private static apply(preference: TimeZonePreference): void {
+    DateUtils.setTimeZone(preference.followLocalTime ? null : preference.homeTimeZone);
+  }
+}
@@ -0,0 +1,95 @@
+import { VerificationRegistry } from './VerificationRegistry';
+import { RoutineItemDefinition } from '../types/RoutineItem';
+
+describe('VerificationRegistry', () => {
+  let registry: VerificationRegistry;
+
+  const makeItem = (overrides: Partial<RoutineItemDefinition> = {}): RoutineItemDefinition => ({
+    id: 'item',
+    name: 'Item',
+    description: '',
+    icon: '✅',
+    verification: 'none',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    registry = new VerificationRegistry();
+  });
+
+  describe('lookup', () => {
+    it('should register the built-in strategies', () => {
+      const kinds = registry.list().map((strategy) => strategy.kind);
+      expect(kinds).toEqual(['none', 'photo', 'motion-reps', 'timer', 'text-entry']);
+    });
+
+    it('should fall back to the checkbox strategy for unknown kinds', () => {
+      expect(registry.has('retina-scan')).toBe(false);
+      expect(registry.get('retina-scan').kind).toBe('none');
+    });
+
+    it('should allow registering new kinds', () => {
+      registry.register({
+        kind: 'qr-scan',
+        label: 'QR Code',
+        description: 'Scan a code',
+        isSatisfied: (result) => result.text === 'bathroom',
+      });
+
+      const item = makeItem({ verification: 'qr-scan' });
+      expect(registry.isSatisfied(item, { kind: 'qr-scan', verifiedAt: 0, text: 'bathroom' })).toBe(
+        true
+      );
+      expect(registry.isSatisfied(item, { kind: 'qr-scan', verifiedAt: 0, text: 'kitchen' })).toBe(
+        false
+      );
+    });
+  });
+
+  describe('built-in completion rules', () => {
+    it('should require a photo uri for photo items', () => {
+      const item = makeItem({ verification: 'photo' });
+
+      expect(registry.isSatisfied(item, { kind: 'photo', verifiedAt: 0 })).toBe(false);
+      expect(
+        registry.isSatisfied(item, { kind: 'photo', verifiedAt: 0, photoUri: 'file://a.jpg' })
+      ).toBe(true);
+    });
+
+    it('should compare reps against the configured target', () => {
+      const item = makeItem({
+        verification: 'motion-reps',
+        verificationConfig: { targetReps: 10 },
+      });
+
+      expect(registry.isSatisfied(item, { kind: 'motion-reps', verifiedAt: 0, reps: 9 })).toBe(
+        false
+      );
+      expect(registry.isSatisfied(item, { kind: 'motion-reps', verifiedAt: 0, reps: 10 })).toBe(
+        true
+      );
+    });
+
+    it('should require the full timer duration', () => {
+      const item = makeItem({ verification: 'timer', verificationConfig: { durationSeconds: 30 } });
+
+      expect(registry.isSatisfied(item, { kind: 'timer', verifiedAt: 0, durationMs: 29000 })).toBe(
+        false
+      );
+      expect(registry.isSatisfied(item, { kind: 'timer', verifiedAt: 0, durationMs: 30000 })).toBe(
+        true
+      );
+    });
+
+    it('should enforce minimum text length ignoring whitespace', () => {
+      const item = makeItem({ verification: 'text-entry', verificationConfig: { minLength: 5 } });
+
+      expect(registry.isSatisfied(item, { kind: 'text-entry', verifiedAt: 0, text: ' hi  ' })).toBe(
+        false
+      );
+      expect(
+        registry.isSatisfied(item, { kind: 'text-entry', verifiedAt: 0, text: 'grateful' })
+      ).toBe(true);
+    });
+  });
+});
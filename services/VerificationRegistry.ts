@@ -0,0 +1,95 @@
+import { RoutineItemDefinition, VerificationKind } from '../types/RoutineItem';
+import { VerificationResult, VerificationStrategy } from '../types/Verification';
+
+/**
+ * Built-in verification strategies and their completion rules
+ * Screens are attached in components/VerificationScreens so services stay UI-free
+ */
+export const BUILT_IN_VERIFICATION_STRATEGIES: VerificationStrategy[] = [
+  {
+    kind: 'none',
+    label: 'Checkbox',
+    description: 'Tap to mark done',
+    isSatisfied: () => true,
+  },
+  {
+    kind: 'photo',
+    label: 'Photo',
+    description: 'Take or pick a photo',
+    isSatisfied: (result) => !!result.photoUri,
+  },
+  {
+    kind: 'motion-reps',
+    label: 'Motion Reps',
+    description: 'Count reps with motion sensors',
+    configFields: [{ key: 'targetReps', label: 'Target reps', numeric: true }],
+    isSatisfied: (result, item) =>
+      (result.reps ?? 0) >= (item.verificationConfig?.targetReps ?? 20),
+  },
+  {
+    kind: 'timer',
+    label: 'Timer',
+    description: 'Run a countdown to the end',
+    configFields: [{ key: 'durationSeconds', label: 'Duration (seconds)', numeric: true }],
+    isSatisfied: (result, item) =>
+      (result.durationMs ?? 0) >= (item.verificationConfig?.durationSeconds ?? 60) * 1000,
+  },
+  {
+    kind: 'text-entry',
+    label: 'Text Entry',
+    description: 'Write a short note or answer',
+    configFields: [
+      { key: 'prompt', label: 'Prompt', numeric: false },
+      { key: 'minLength', label: 'Minimum characters', numeric: true },
+    ],
+    isSatisfied: (result, item) =>
+      (result.text ?? '').trim().length >= (item.verificationConfig?.minLength ?? 1),
+  },
+];
+
+const FALLBACK_KIND = 'none';
+
+export class VerificationRegistry {
+  private strategies = new Map<VerificationKind, VerificationStrategy>();
+
+  constructor(strategies: VerificationStrategy[] = BUILT_IN_VERIFICATION_STRATEGIES) {
+    strategies.forEach((strategy) => this.register(strategy));
+  }
+
+  /**
+   * Add or replace a verification strategy
+   */
+  register(strategy: VerificationStrategy): void {
+    this.strategies.set(strategy.kind, strategy);
+  }
+
+  /**
+   * Get strategy for a kind
+   * Unknown kinds (e.g. from a newer app version) fall back to a plain checkbox
+   */
+  get(kind: VerificationKind): VerificationStrategy {
+    const strategy = this.strategies.get(kind) ?? this.strategies.get(FALLBACK_KIND);
+    if (!strategy) {
+      throw new Error(`No verification strategy registered for "${kind}"`);
+    }
+    return strategy;
+  }
+
+  has(kind: VerificationKind): boolean {
+    return this.strategies.has(kind);
+  }
+
+  /**
+   * List all strategies in registration order
+   */
+  list(): VerificationStrategy[] {
+    return Array.from(this.strategies.values());
+  }
+
+  /**
+   * Check whether a result verifies the item using the item's strategy
+   */
+  isSatisfied(item: RoutineItemDefinition, result: VerificationResult): boolean {
+    return this.get(item.verification).isSatisfied(result, item);
+  }
+}
@@ -1,3 +1,9 @@
+/**
+ * Ids of the built-in routine items.
+ *
+ * Older installs stored these strings in history and completion state, so they
+ * remain the ids of the default items in the registry.
+ */
 export enum RoutineItem {
   PUSHUPS = '20 Pushups',
   COFFEE_BREAKFAST = 'Coffee + Breakfast',
@@ -6,31 +12,80 @@ export enum RoutineItem {
   MUSIC = 'Good Music Playing',
 }
 
-export interface RoutineItemInfo {
-  item: RoutineItem;
+export type RoutineItemId = string;
+
+/**
+ * Key of a verification strategy (see services/VerificationRegistry.ts)
+ * Built-ins: 'none', 'photo', 'motion-reps', 'timer', 'text-entry'
+ */
+export type VerificationKind = string;
+
+/**
+ * Per-item settings read by the item's verification strategy
+ */
+export interface VerificationConfig {
+  targetReps?: number; // motion-reps
+  durationSeconds?: number; // timer
+  prompt?: string; // text-entry
+  minLength?: number; // text-entry
+}
+
+/**
+ * Numeric goal for items tracked by amount (e.g. 3 glasses, 500 ml, 10 pages)
+ */
+export interface QuantityTarget {
+  target: number;
+  unit: string;
+  step?: number; // Amount added per tap (default 1)
+}
+
+export interface RoutineItemDefinition {
+  id: RoutineItemId;
+  name: string;
   description: string;
-  requiresVerification: boolean;
+  icon: string; // Emoji shown in the checklist
+  verification: VerificationKind;
+  verificationConfig?: VerificationConfig;
+  prerequisites?: RoutineItemId[]; // Items that must be completed before this one
+  optional?: boolean; // Bonus item; not needed for the routine to count as complete
+  quantity?: QuantityTarget; // Completes when the target is reached instead of on tap
 }
 
-export const ROUTINE_ITEM_INFO: Record<RoutineItem, Omit<RoutineItemInfo, 'item'>> = {
-  [RoutineItem.PUSHUPS]: {
+export const DEFAULT_ROUTINE_ITEMS: RoutineItemDefinition[] = [
+  {
+    id: RoutineItem.PUSHUPS,
+    name: '20 Pushups',
     description: 'Complete 20 pushups with motion tracking',
-    requiresVerification: true,
+    icon: '💪',
+    verification: 'motion-reps',
+    verificationConfig: { targetReps: 20 },
   },
-  [RoutineItem.COFFEE_BREAKFAST]: {
+  {
+    id: RoutineItem.COFFEE_BREAKFAST,
+    name: 'Coffee + Breakfast',
     description: 'Take a photo of your coffee and breakfast',
-    requiresVerification: true,
+    icon: '☕',
+    verification: 'photo',
   },
-  [RoutineItem.WATER]: {
+  {
+    id: RoutineItem.WATER,
+    name: 'Full Glass of Water',
     description: 'Take a photo of your full glass of water',
-    requiresVerification: true,
+    icon: '💧',
+    verification: 'photo',
   },
-  [RoutineItem.CALENDAR_EMAILS]: {
+  {
+    id: RoutineItem.CALENDAR_EMAILS,
+    name: 'Calendar and Emails',
     description: 'Review your calendar and check emails',
-    requiresVerification: false,
+    icon: '📅',
+    verification: 'none',
   },
-  [RoutineItem.MUSIC]: {
+  {
+    id: RoutineItem.MUSIC,
+    name: 'Good Music Playing',
     description: 'Play some good music',
-    requiresVerification: false,
+    icon: '🎵',
+    verification: 'none',
   },
-};
+];
@@ -0,0 +1,46 @@
+import type { ComponentType } from 'react';
+import type { StorageAdapter } from '../services/Storage';
+import { RoutineItemDefinition, VerificationKind } from './RoutineItem';
+
+/**
+ * Evidence produced by a verification screen
+ */
+export interface VerificationResult {
+  kind: VerificationKind;
+  verifiedAt: number; // Timestamp
+  photoUri?: string;
+  reps?: number;
+  durationMs?: number;
+  text?: string;
+}
+
+/**
+ * Props every verification screen receives from the checklist
+ */
+export interface VerificationScreenProps {
+  visible: boolean;
+  item: RoutineItemDefinition;
+  storage: StorageAdapter; // App storage, for screens that keep their own records
+  onClose: () => void;
+  onVerified: (result: VerificationResult) => void;
+}
+
+/**
+ * Numeric or text setting a strategy exposes in the item editor
+ */
+export interface VerificationConfigField {
+  key: 'targetReps' | 'durationSeconds' | 'prompt' | 'minLength';
+  label: string;
+  numeric: boolean;
+}
+
+export interface VerificationStrategy {
+  kind: VerificationKind;
+  label: string;
+  description: string;
+  /** Screen collecting the evidence; strategies without one are plain toggles */
+  screen?: ComponentType<VerificationScreenProps>;
+  configFields?: VerificationConfigField[];
+  /** Completion rule: does this result verify the item? */
+  isSatisfied: (result: VerificationResult, item: RoutineItemDefinition) => boolean;
+}